@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { getProviderByName, resolveProviderName } from '@/lib/dating/llm';
+import { simulationConfig, SimulationControlError } from '@/lib/dating/simulationConfig';
+import { usageMeter } from '@/lib/dating/usageMeter';
+
+export async function GET() {
+  const agentProvider = getProviderByName(resolveProviderName('agent'));
+
+  return NextResponse.json({
+    config: simulationConfig.get(),
+    status: {
+      paused: datingService.isSchedulingPaused(),
+      pausedBy: datingService.getSchedulingPauseReason(),
+      budget: usageMeter.getBudgetStatus(),
+      activeCount: datingService.getActiveCount(),
+      scheduledCount: datingService.getScheduledDates().length,
+      queuedMatchRequests: datingService.getQueuedMatchRequests().length
+    },
+    users: datingService.getUsers().map(user => ({
+      id: user.id,
+      name: user.name,
+      enabled: simulationConfig.isUserEnabled(user.id)
+    })),
+    dates: [...datingService.getActiveDates(), ...datingService.getScheduledDates()].map(date => ({
+      id: date.id,
+      user1Name: date.user1Name,
+      user2Name: date.user2Name,
+      status: date.status,
+      endTime: date.endTime
+    })),
+    models: {
+      provider: agentProvider.name,
+      available: agentProvider.listModels()
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    switch (action) {
+      case 'updateConfig': {
+        const { config } = body;
+        if (!config || typeof config !== 'object') {
+          return NextResponse.json({ error: 'config required' }, { status: 400 });
+        }
+        return NextResponse.json({ success: true, config: await simulationConfig.update(config) });
+      }
+
+      case 'setUserEnabled': {
+        const { userId, enabled } = body;
+        if (typeof userId !== 'string' || typeof enabled !== 'boolean') {
+          return NextResponse.json({ error: 'userId and boolean enabled required' }, { status: 400 });
+        }
+        if (!datingService.getUserById(userId)) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, config: await simulationConfig.setUserEnabled(userId, enabled) });
+      }
+
+      case 'pair': {
+        const { user1Id, user2Id } = body;
+        if (typeof user1Id !== 'string' || typeof user2Id !== 'string') {
+          return NextResponse.json({ error: 'user1Id and user2Id required' }, { status: 400 });
+        }
+        const date = await datingService.pairUsers(user1Id, user2Id);
+        return NextResponse.json({ success: true, dateId: date.id });
+      }
+
+      case 'cancel': {
+        const { dateId } = body;
+        if (typeof dateId !== 'string') {
+          return NextResponse.json({ error: 'dateId required' }, { status: 400 });
+        }
+        await datingService.cancelDate(dateId);
+        return NextResponse.json({ success: true, dateId });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof SimulationControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Dating admin error:', error);
+    return NextResponse.json({ error: 'Failed to process admin request' }, { status: 500 });
+  }
+}
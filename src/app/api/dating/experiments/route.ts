@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { experimentRegistry, ExperimentError } from '@/lib/dating/experiments';
+
+/**
+ * List experiments, or with ?id= get one experiment's per-arm results
+ */
+export async function GET(request: NextRequest) {
+  const experimentId = request.nextUrl.searchParams.get('id');
+
+  try {
+    if (experimentId) {
+      return NextResponse.json(await datingService.getExperimentResults(experimentId));
+    }
+    return NextResponse.json({
+      experiments: experimentRegistry.list(),
+      running: experimentRegistry.getRunning()?.id || null
+    });
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Error fetching experiments:', error);
+    return NextResponse.json({ error: 'Failed to fetch experiments' }, { status: 500 });
+  }
+}
+
+/**
+ * Start an experiment: { action: 'create', experiment: { id, name, description?, arms } }
+ * where the first arm is the control and each arm is
+ * { id, label?, model?, promptVariant?, weight? }.
+ * Stop one: { action: 'stop', id }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    switch (action) {
+      case 'create': {
+        const { experiment } = body;
+        if (!experiment || typeof experiment !== 'object') {
+          return NextResponse.json({ error: 'experiment required' }, { status: 400 });
+        }
+        return NextResponse.json({ success: true, experiment: await experimentRegistry.create(experiment) });
+      }
+
+      case 'stop': {
+        const { id } = body;
+        if (typeof id !== 'string') {
+          return NextResponse.json({ error: 'id required' }, { status: 400 });
+        }
+        return NextResponse.json({ success: true, experiment: await experimentRegistry.stop(id) });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Experiment error:', error);
+    return NextResponse.json({ error: 'Failed to process experiment request' }, { status: 500 });
+  }
+}
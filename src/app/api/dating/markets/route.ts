@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { predictionMarketEngine, PredictionMarketError } from '@/lib/dating/predictionMarketEngine';
+
+export async function GET(request: NextRequest) {
+  // Importing the dating service attaches the market engine to live dates
+  void datingService;
+
+  const searchParams = request.nextUrl.searchParams;
+  const marketId = searchParams.get('marketId');
+  const bettorId = searchParams.get('bettorId');
+
+  if (marketId) {
+    const market = predictionMarketEngine.getMarket(marketId);
+    if (!market) {
+      return NextResponse.json({ error: 'Market not found' }, { status: 404 });
+    }
+    return NextResponse.json({
+      market,
+      bets: predictionMarketEngine.getMarketBets(marketId),
+      account: bettorId ? predictionMarketEngine.getAccount(bettorId) : undefined
+    });
+  }
+
+  return NextResponse.json({
+    markets: predictionMarketEngine.getMarkets(),
+    account: bettorId ? predictionMarketEngine.getAccount(bettorId) : undefined
+  });
+}
+
+export async function POST(request: NextRequest) {
+  void datingService;
+
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === 'bet') {
+      const { marketId, outcomeId, bettorId, amount } = body;
+      if (typeof marketId !== 'string' || typeof outcomeId !== 'string' || typeof bettorId !== 'string') {
+        return NextResponse.json({ error: 'marketId, outcomeId and bettorId required' }, { status: 400 });
+      }
+      if (typeof amount !== 'number') {
+        return NextResponse.json({ error: 'amount must be a number' }, { status: 400 });
+      }
+
+      const bet = predictionMarketEngine.placeBet({ marketId, outcomeId, bettorId, amount });
+      return NextResponse.json({
+        success: true,
+        bet,
+        market: predictionMarketEngine.getMarket(marketId),
+        account: predictionMarketEngine.getAccount(bettorId)
+      });
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  } catch (error) {
+    if (error instanceof PredictionMarketError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('Prediction market error:', error);
+    return NextResponse.json({ error: 'Failed to process market request' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { datingService } from '@/lib/dating/datingService';
-import { sseConnectionManager } from '@/lib/dating/sseConnectionManager';
+import { notificationInbox, toStreamEvent } from '@/lib/dating/notificationInbox';
+import { formatStreamEvent, sseConnectionManager } from '@/lib/dating/sseConnectionManager';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -10,15 +11,27 @@ export async function GET(request: NextRequest) {
     return new Response('userId required', { status: 400 });
   }
 
+  // Importing the dating service attaches the inbox to live dates
+  void datingService;
+
+  // Sent by EventSource on reconnect; lets the device skip what it already has
+  const lastEventId = request.headers.get('last-event-id') || searchParams.get('lastEventId');
+
   const encoder = new TextEncoder();
   let keepAliveInterval: NodeJS.Timeout;
   let isClosed = false;
   
   const stream = new ReadableStream({
     start(controller) {
+      let connectionId: string | null = null;
+
       const safeClose = () => {
         if (isClosed) return;
         isClosed = true;
+        clearInterval(keepAliveInterval);
+        if (connectionId) {
+          sseConnectionManager.removeConnection(userId, connectionId);
+        }
         try {
           controller.close();
         } catch {
@@ -26,45 +39,28 @@ export async function GET(request: NextRequest) {
         }
       };
 
-      const checkExistingMatch = () => {
-        const match = datingService.getPendingMatchForUser(userId);
-        if (match) {
-          const data = `data: ${JSON.stringify(match)}\n\n`;
-          try {
-            controller.enqueue(encoder.encode(data));
-          } catch {
-            // If enqueue fails, close the connection safely.
-          }
-          datingService.clearPendingMatchForUser(userId);
-          clearInterval(keepAliveInterval);
-          safeClose();
-          return true;
+      try {
+        for (const notification of notificationInbox.getUndelivered(userId, lastEventId)) {
+          controller.enqueue(encoder.encode(formatStreamEvent(toStreamEvent(notification))));
         }
-        return false;
-      };
-
-      if (checkExistingMatch()) {
+      } catch {
+        safeClose();
         return;
       }
 
-      sseConnectionManager.addConnection(userId, controller);
+      // Register right after the replay so nothing stored in between is missed
+      connectionId = sseConnectionManager.addConnection(userId, controller);
 
       keepAliveInterval = setInterval(() => {
         if (isClosed) return;
         try {
           controller.enqueue(encoder.encode(': keep-alive\n\n'));
         } catch {
-          clearInterval(keepAliveInterval);
-          sseConnectionManager.removeConnection(userId);
           safeClose();
         }
       }, 30000);
 
-      request.signal.addEventListener('abort', () => {
-        clearInterval(keepAliveInterval);
-        sseConnectionManager.removeConnection(userId);
-        safeClose();
-      });
+      request.signal.addEventListener('abort', safeClose);
     },
   });
 
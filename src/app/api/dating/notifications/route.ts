@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { notificationInbox } from '@/lib/dating/notificationInbox';
+
+export async function GET(request: NextRequest) {
+  // Importing the dating service attaches the inbox to live dates
+  void datingService;
+
+  const searchParams = request.nextUrl.searchParams;
+  const userId = searchParams.get('userId');
+  if (!userId) {
+    return NextResponse.json({ error: 'userId required' }, { status: 400 });
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+
+  return NextResponse.json(notificationInbox.list(userId, {
+    before: searchParams.get('before') || undefined,
+    limit,
+    unreadOnly: searchParams.get('unread') === 'true'
+  }));
+}
+
+export async function POST(request: NextRequest) {
+  void datingService;
+
+  try {
+    const body = await request.json();
+    const { action, userId, ids } = body;
+
+    if (typeof userId !== 'string' || !userId) {
+      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    }
+    // Leaving out ids applies the action to the whole inbox
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+      return NextResponse.json({ error: 'ids must be an array of notification ids' }, { status: 400 });
+    }
+
+    let updated: number;
+    switch (action) {
+      case 'read':
+        updated = await notificationInbox.markRead(userId, ids);
+        break;
+      case 'ack':
+        updated = await notificationInbox.acknowledge(userId, ids);
+        break;
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      updated,
+      unreadCount: notificationInbox.getUnreadCount(userId)
+    });
+  } catch (error) {
+    console.error('Error updating notifications:', error);
+    return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 });
+  }
+}
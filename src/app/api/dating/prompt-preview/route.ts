@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { buildSystemPrompt, getPromptTokenBudget } from '@/lib/dating/systemPrompts';
+import { dateVenueRegistry } from '@/lib/dating/venueRegistry';
+import { worldContextService } from '@/lib/dating/worldContextService';
+
+/**
+ * Preview the system prompt a user's date agent would get, with each
+ * section's token count and whether it was trimmed or dropped to fit the
+ * budget. Pass partnerId and venueId to preview a specific date, and
+ * budget to try a different token budget.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const userId = searchParams.get('userId');
+  const partnerId = searchParams.get('partnerId');
+  const venueId = searchParams.get('venueId');
+  const budgetParam = searchParams.get('budget');
+
+  if (!userId) {
+    return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+  }
+  const budget = budgetParam === null ? getPromptTokenBudget() : Number(budgetParam);
+  if (!Number.isInteger(budget) || budget <= 0) {
+    return NextResponse.json({ error: 'budget must be a positive integer' }, { status: 400 });
+  }
+
+  const user = datingService.getUserById(userId);
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+  const partner = partnerId ? datingService.getUserById(partnerId) : undefined;
+  if (partnerId && !partner) {
+    return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+  }
+  const venue = venueId ? dateVenueRegistry.getVenue(venueId) : null;
+  if (venueId && !venue) {
+    return NextResponse.json({ error: 'Venue not found' }, { status: 404 });
+  }
+
+  try {
+    const preview = buildSystemPrompt(user, partner, {
+      venue: venue || undefined,
+      world: worldContextService.getContext(venue || undefined)
+    }, { tokenBudget: budget });
+    return NextResponse.json({ userId, partnerId, venueId, ...preview });
+  } catch (error) {
+    console.error('Error building system prompt preview:', error);
+    return NextResponse.json({ error: 'Failed to build system prompt' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { datingService } from '@/lib/dating/datingService';
+import { isMatchmakingStrategyName } from '@/lib/dating/matchmaking';
+import { dateEventLog, toDateDetails, toDateSnapshot } from '@/lib/dating/dateEvents';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -9,24 +11,29 @@ export async function GET(request: NextRequest) {
 
   switch (action) {
     case 'active':
-      return NextResponse.json({ dates: datingService.getActiveDates() });
+      // seq marks where this snapshot sits in the event stream
+      return NextResponse.json({
+        dates: datingService.getActiveDates().map(toDateSnapshot),
+        streamId: dateEventLog.streamId,
+        seq: dateEventLog.getLastSeq()
+      });
     
     case 'scheduled':
-      return NextResponse.json({ dates: datingService.getScheduledDates() });
+      return NextResponse.json({ dates: datingService.getScheduledDates().map(toDateDetails) });
     
     case 'completed':
-      return NextResponse.json({ dates: datingService.getCompletedDates() });
+      return NextResponse.json({ dates: datingService.getCompletedDates().map(toDateDetails) });
     
     case 'date':
       if (!dateId) return NextResponse.json({ error: 'dateId required' }, { status: 400 });
-      const date = datingService.getDateById(dateId);
+      const date = await datingService.getDateWithTranscript(dateId);
       return date 
-        ? NextResponse.json({ date })
+        ? NextResponse.json({ date: toDateDetails(date) })
         : NextResponse.json({ error: 'Date not found' }, { status: 404 });
     
     case 'userDates':
       if (!userId) return NextResponse.json({ error: 'userId required' }, { status: 400 });
-      return NextResponse.json({ dates: datingService.getDatesForUser(userId) });
+      return NextResponse.json({ dates: (await datingService.getDatesForUserWithTranscripts(userId)).map(toDateDetails) });
     
     case 'confidenceData':
       if (!userId) return NextResponse.json({ error: 'userId required' }, { status: 400 });
@@ -49,24 +56,37 @@ export async function GET(request: NextRequest) {
     case 'users':
       return NextResponse.json({ users: datingService.getUsers() });
     
+    case 'strategies':
+      return NextResponse.json({ strategies: datingService.getAvailableStrategies() });
+    
+    case 'strategyStats':
+      return NextResponse.json({ stats: datingService.getStrategyStats() });
+    
     default:
       return NextResponse.json({ 
-        active: datingService.getActiveDates(),
-        scheduled: datingService.getScheduledDates(),
-        completed: datingService.getCompletedDates()
+        active: datingService.getActiveDates().map(toDateDetails),
+        scheduled: datingService.getScheduledDates().map(toDateDetails),
+        completed: datingService.getCompletedDates().map(toDateDetails)
       });
   }
 }
 
 export async function POST(request: NextRequest) {
   const body = await request.json();
-  const { action, dateId, maxDates } = body;
+  const { action, dateId, maxDates, strategy } = body;
 
   try {
     switch (action) {
       case 'autoSchedule':
-        const scheduled = await datingService.autoScheduleAndStart(maxDates || 3);
-        return NextResponse.json({ scheduled, activeCount: datingService.getActiveCount() });
+        if (strategy !== undefined && !isMatchmakingStrategyName(strategy)) {
+          return NextResponse.json({ error: 'Invalid strategy' }, { status: 400 });
+        }
+        const scheduled = await datingService.autoScheduleAndStart(maxDates || undefined, strategy);
+        return NextResponse.json({
+          scheduled: scheduled.map(toDateDetails),
+          activeCount: datingService.getActiveCount(),
+          strategy: datingService.getMatchmakingStrategy()
+        });
       
       case 'pause':
         datingService.pauseScheduling();
@@ -1,25 +1,45 @@
+import { NextRequest } from 'next/server';
 import { datingEventBus } from '@/lib/dating/orchestrator';
+import { DATE_EVENT_PROTOCOL_VERSION, dateEventLog, type DateEvent } from '@/lib/dating/dateEvents';
 
-export async function GET() {
+// Browsers wait this long before reconnecting with Last-Event-ID
+const RETRY_MS = 3000;
+
+export async function GET(request: NextRequest) {
   const encoder = new TextEncoder();
-  let onUpdate: ((payload: unknown) => void) | null = null;
+  let onEvent: ((event: DateEvent) => void) | null = null;
   let keepalive: ReturnType<typeof setInterval> | null = null;
 
+  // EventSource sends the header on reconnect; the query lets a fresh page resume too
+  const lastEventId = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId');
+
   const stream = new ReadableStream({
     start(controller) {
-      const send = (payload: unknown) => {
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      const sendEvent = (event: DateEvent) => {
+        controller.enqueue(encoder.encode(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`));
       };
-      onUpdate = () => send({ type: 'datesUpdated' });
-      datingEventBus.on('datesUpdated', onUpdate);
-      send({ type: 'connected' });
+
+      const replay = lastEventId ? dateEventLog.getEventsSince(lastEventId) : null;
+      controller.enqueue(encoder.encode(`retry: ${RETRY_MS}\n`));
+      // resumed: false means the client must reload its snapshot before applying events
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+        type: 'connected',
+        v: DATE_EVENT_PROTOCOL_VERSION,
+        streamId: dateEventLog.streamId,
+        seq: dateEventLog.getLastSeq(),
+        resumed: replay !== null
+      })}\n\n`));
+      replay?.forEach(sendEvent);
+
+      onEvent = sendEvent;
+      datingEventBus.on('dateEvent', onEvent);
       keepalive = setInterval(() => {
         controller.enqueue(encoder.encode(`data: keepalive\n\n`));
       }, 20000);
     },
     cancel() {
-      if (onUpdate) {
-        datingEventBus.off('datesUpdated', onUpdate);
+      if (onEvent) {
+        datingEventBus.off('dateEvent', onEvent);
       }
       if (keepalive) {
         clearInterval(keepalive);
@@ -35,4 +55,3 @@ export async function GET() {
     }
   });
 }
-
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { parseDateQuery } from '@/lib/dating/transcriptSearch';
+
+/**
+ * Search dates and their transcripts, or with action=analytics get
+ * aggregates over the same filters. See DateQuery for the parameters.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const parsed = parseDateQuery(searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    if (searchParams.get('action') === 'analytics') {
+      return NextResponse.json({ analytics: await datingService.getDateAnalytics(parsed.query) });
+    }
+    return NextResponse.json(await datingService.searchDates(parsed.query));
+  } catch (error) {
+    console.error('Error searching dates:', error);
+    return NextResponse.json({ error: 'Failed to search dates' }, { status: 500 });
+  }
+}
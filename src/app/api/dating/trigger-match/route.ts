@@ -2,61 +2,64 @@ import { NextRequest, NextResponse } from 'next/server';
 import { sseConnectionManager } from '@/lib/dating/sseConnectionManager';
 import { datingService } from '@/lib/dating/datingService';
 
+/**
+ * Request a match now for the given users, or for everyone with the app open.
+ * Requests go through the scheduler; ones that can't be served yet stay
+ * queued and are picked up by the next scheduling pass.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const connectedUserIds = sseConnectionManager.getConnectedUserIds();
-    
-    if (connectedUserIds.length === 0) {
-      return NextResponse.json({ 
-        success: false, 
-        message: 'No connected users waiting for matches' 
+    const body = await request.json().catch(() => ({}));
+    const { userIds } = body;
+
+    if (userIds !== undefined && (!Array.isArray(userIds) || !userIds.every(id => typeof id === 'string'))) {
+      return NextResponse.json({
+        success: false,
+        message: 'userIds must be an array of user ids'
       }, { status: 400 });
     }
 
-    const users = datingService.getUsers();
-    const matchesSent: string[] = [];
-
-    for (const userId of connectedUserIds) {
-      const currentUser = users.find(u => u.id === userId);
-      if (!currentUser) continue;
-
-      const oppositeGender = currentUser.gender === 'male' ? 'female' : 'male';
-      const potentialPartners = users.filter(u => 
-        u.gender === oppositeGender && u.id !== userId
-      );
-
-      if (potentialPartners.length === 0) continue;
-
-      const partner = potentialPartners[Math.floor(Math.random() * potentialPartners.length)];
-      
-      const compatibilityPercentage = Math.floor(Math.random() * 20) + 75;
+    const requestedUserIds: string[] = userIds || sseConnectionManager.getConnectedUserIds();
+    if (requestedUserIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        message: 'No connected users waiting for matches'
+      }, { status: 400 });
+    }
 
-      const matchData = {
-        partnerName: partner.name,
-        compatibilityPercentage,
-        locationImageUrl: undefined,
-        restaurantName: undefined,
-        bookingId: undefined,
-        bookingTime: undefined,
-      };
+    const requests = requestedUserIds.map(userId => ({ userId, request: datingService.requestMatch(userId) }));
+    await datingService.processMatchRequests();
 
-      const sent = sseConnectionManager.sendMatch(userId, matchData);
-      if (sent) {
-        matchesSent.push(userId);
+    const results = requests.map(({ userId, request }) => {
+      if (!request) {
+        return { userId, status: 'unknownUser' as const };
       }
-    }
+      return {
+        userId,
+        requestId: request.id,
+        status: request.status,
+        dateId: request.dateId,
+        partnerId: request.partnerId,
+        partnerName: request.partnerName,
+        compatibilityPercentage: request.compatibility?.compatibilityPercentage,
+        compatibilityBasis: request.compatibility?.basis,
+        explanation: request.compatibility?.reasons,
+        waitingReason: request.waitingReason
+      };
+    });
+    const scheduled = results.filter(result => result.status === 'scheduled').length;
 
-    return NextResponse.json({ 
-      success: true, 
-      matchesSent: matchesSent.length,
-      message: `Triggered matches for ${matchesSent.length} user(s)` 
+    return NextResponse.json({
+      success: true,
+      matchesScheduled: scheduled,
+      results,
+      message: `Scheduled ${scheduled} of ${results.length} requested match(es)`
     });
   } catch (error) {
     console.error('Error triggering match:', error);
-    return NextResponse.json({ 
-      success: false, 
-      message: 'Failed to trigger match' 
+    return NextResponse.json({
+      success: false,
+      message: 'Failed to trigger match'
     }, { status: 500 });
   }
 }
-
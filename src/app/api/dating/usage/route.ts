@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { usageMeter } from '@/lib/dating/usageMeter';
+
+/**
+ * Model usage, cost and latency stats. Pass dateId or userId for one date's
+ * or one agent's usage; otherwise returns totals broken down per day, model,
+ * user and date along with today's budget.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const dateId = searchParams.get('dateId');
+  const userId = searchParams.get('userId');
+
+  try {
+    if (dateId || userId) {
+      return NextResponse.json({
+        ...usageMeter.getUsageFor({ dateId: dateId || undefined, userId: userId || undefined }),
+        budget: usageMeter.getBudgetStatus()
+      });
+    }
+    return NextResponse.json({
+      ...usageMeter.getStats(),
+      schedulingPausedBy: datingService.getSchedulingPauseReason()
+    });
+  } catch (error) {
+    console.error('Error fetching LLM usage:', error);
+    return NextResponse.json({ error: 'Failed to fetch usage' }, { status: 500 });
+  }
+}
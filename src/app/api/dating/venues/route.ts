@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { datingService } from '@/lib/dating/datingService';
+import { dateVenueRegistry } from '@/lib/dating/venueRegistry';
+import type { VenueTile } from '@/lib/dating/venues';
+
+const MAX_REPORTED_VENUES = 5000;
+
+export async function GET() {
+  const dates = [...datingService.getActiveDates(), ...datingService.getScheduledDates()]
+    .filter(date => date.venue)
+    .map(date => ({
+      dateId: date.id,
+      status: date.status,
+      user1Id: date.user1Id,
+      user2Id: date.user2Id,
+      user1Name: date.user1Name,
+      user2Name: date.user2Name,
+      venue: date.venue
+    }));
+
+  return NextResponse.json({
+    venues: dateVenueRegistry.getVenues(),
+    dates
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { venues } = body;
+
+    if (!Array.isArray(venues) || venues.length > MAX_REPORTED_VENUES) {
+      return NextResponse.json({ error: `venues must be an array of at most ${MAX_REPORTED_VENUES} tiles` }, { status: 400 });
+    }
+    const valid = venues.every((tile: VenueTile) =>
+      tile && Number.isInteger(tile.x) && Number.isInteger(tile.y) && typeof tile.buildingType === 'string'
+    );
+    if (!valid) {
+      return NextResponse.json({ error: 'Each venue needs integer x, y and a buildingType' }, { status: 400 });
+    }
+
+    const count = await dateVenueRegistry.reportVenues(venues);
+    return NextResponse.json({ success: true, count });
+  } catch (error) {
+    console.error('Error reporting date venues:', error);
+    return NextResponse.json({ error: 'Failed to report venues' }, { status: 500 });
+  }
+}
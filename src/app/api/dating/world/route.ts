@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { worldContextService } from '@/lib/dating/worldContextService';
+import type { NeighborhoodStats } from '@/lib/dating/worldContext';
+
+function isNeighborhoodStats(value: unknown): value is NeighborhoodStats {
+  const stats = value as NeighborhoodStats;
+  return !!stats &&
+    typeof stats.landValue === 'number' &&
+    typeof stats.crime === 'number' &&
+    typeof stats.pollution === 'number';
+}
+
+export async function GET() {
+  return NextResponse.json({ context: worldContextService.getContext() });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { clock, neighborhoods = {} } = body;
+
+    const validClock = clock &&
+      Number.isInteger(clock.year) &&
+      Number.isInteger(clock.month) && clock.month >= 1 && clock.month <= 12 &&
+      Number.isInteger(clock.day) &&
+      Number.isInteger(clock.hour) && clock.hour >= 0 && clock.hour <= 23;
+    if (!validClock) {
+      return NextResponse.json({ error: 'clock needs integer year, month (1-12), day and hour (0-23)' }, { status: 400 });
+    }
+    const validNeighborhoods = typeof neighborhoods === 'object' &&
+      neighborhoods !== null &&
+      !Array.isArray(neighborhoods) &&
+      Object.values(neighborhoods).every(isNeighborhoodStats);
+    if (!validNeighborhoods) {
+      return NextResponse.json({ error: 'neighborhoods must map venue ids to landValue, crime and pollution' }, { status: 400 });
+    }
+
+    await worldContextService.report({
+      cityName: typeof clock.cityName === 'string' ? clock.cityName : undefined,
+      year: clock.year,
+      month: clock.month,
+      day: clock.day,
+      hour: clock.hour
+    }, neighborhoods);
+
+    return NextResponse.json({ success: true, context: worldContextService.getContext() });
+  } catch (error) {
+    console.error('Error reporting world context:', error);
+    return NextResponse.json({ error: 'Failed to report world context' }, { status: 500 });
+  }
+}
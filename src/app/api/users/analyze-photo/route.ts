@@ -1,17 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzePhotoWithOvershoot, type IOSCharacterSummary } from '@/lib/dating/photoAnalysis';
-import { getUserById, updateUserWithPhotoAnalysis } from '@/lib/userDatabase';
+import type { IOSCharacterSummary } from '@/lib/dating/photoAnalysis';
+import { photoAnalysisQueue } from '@/lib/dating/photoAnalysisQueue';
+import type { VisionImage } from '@/lib/dating/vision';
+import { getUserById } from '@/lib/userDatabase';
+
+// Largest photo accepted
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+// How long a wait=true request is held before it gets the job to poll instead
+const WAIT_TIMEOUT_MS = 90000;
 
 /**
  * API endpoint to receive photos from iOS app with character summary
- * Uses Overshoot SDK to perform deep visual analysis
+ * Queues a visual analysis job; see lib/dating/vision for the backends
  * 
  * Expected request format (multipart/form-data):
  * - photo: File (image/jpeg, image/png, etc.)
  * - userId: string (optional - if updating existing user)
  * - iosSummary: JSON string with { traits, personality, interests, characteristics }
+ * - wait: "true" (optional - respond with the finished analysis instead of the job)
  * 
- * Returns enhanced character profile combining iOS summary + Overshoot analysis
+ * Returns 202 with the queued job. Poll GET ?jobId= or subscribe to
+ * /api/users/analyze-photo/stream?jobId= for the enhanced character profile
+ * combining the iOS summary and the visual analysis.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -35,6 +45,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (photo.size > MAX_PHOTO_BYTES) {
+      return NextResponse.json(
+        { error: `Photo is too large. Maximum is ${MAX_PHOTO_BYTES / (1024 * 1024)}MB` },
+        { status: 413 }
+      );
+    }
+
     // Parse iOS summary
     let iosSummary: IOSCharacterSummary;
     try {
@@ -62,68 +79,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get Overshoot API configuration
-    const apiKey = process.env.OVERSHOOT_API_KEY || '';
-    const apiUrl = process.env.OVERSHOOT_API_URL || 'https://api.overshoot.ai';
-
-    if (!apiKey) {
-      return NextResponse.json(
-        {
-          error:
-            'OVERSHOOT_API_KEY not configured. Set OVERSHOOT_API_KEY in environment variables.',
-        },
-        { status: 500 }
-      );
+    if (userId && !(await getUserById(userId))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Perform deep photo analysis using Overshoot SDK
-    let deepProfile;
-    try {
-      deepProfile = await analyzePhotoWithOvershoot(
-        photo,
-        iosSummary,
-        apiKey,
-        apiUrl
-      );
-    } catch (analysisError: any) {
-      console.error('Photo analysis error:', analysisError);
-      return NextResponse.json(
-        {
-          error: 'Failed to analyze photo',
-          details: analysisError.message,
-        },
-        { status: 500 }
-      );
-    }
+    const image: VisionImage = {
+      data: Buffer.from(await photo.arrayBuffer()),
+      mimeType: photo.type,
+      fileName: photo.name || 'photo',
+    };
+    const job = photoAnalysisQueue.enqueue(image, iosSummary, userId || undefined);
 
-    // If userId provided, update existing user
-    if (userId) {
-      try {
-        const updatedUser = await updateUserWithPhotoAnalysis(userId, deepProfile);
+    // Clients that can't poll may hold the request open for the result
+    if (formData.get('wait') === 'true') {
+      const finished = await photoAnalysisQueue.waitFor(job.id, WAIT_TIMEOUT_MS);
+      if (finished?.status === 'completed') {
         return NextResponse.json({
           success: true,
-          user: updatedUser,
-          deepProfile,
+          job: finished,
+          user: userId ? await getUserById(userId) : undefined,
+          deepProfile: finished.deepProfile,
         });
-      } catch (updateError: any) {
+      }
+      if (finished?.status === 'failed') {
         return NextResponse.json(
-          {
-            error: 'Failed to update user',
-            details: updateError.message,
-          },
+          { error: 'Failed to analyze photo', details: finished.error, job: finished },
           { status: 500 }
         );
       }
     }
 
-    // Return analysis results (user can be created separately or this can be extended)
-    return NextResponse.json({
-      success: true,
-      deepProfile,
-      message: userId
-        ? 'User updated with photo analysis'
-        : 'Photo analyzed. Use userId to update user profile.',
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        job: photoAnalysisQueue.get(job.id),
+        statusUrl: `/api/users/analyze-photo?jobId=${job.id}`,
+        streamUrl: `/api/users/analyze-photo/stream?jobId=${job.id}`,
+      },
+      { status: 202 }
+    );
   } catch (error: any) {
     console.error('API error:', error);
     return NextResponse.json(
@@ -133,3 +127,23 @@ export async function POST(request: NextRequest) {
   }
 }
 
+
+/**
+ * Poll a photo analysis job (?jobId=) or list a user's jobs (?userId=)
+ */
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (jobId) {
+    const job = photoAnalysisQueue.get(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  }
+  if (userId) {
+    return NextResponse.json({ jobs: photoAnalysisQueue.listForUser(userId) });
+  }
+  return NextResponse.json({ error: 'jobId or userId required' }, { status: 400 });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFinishedJob, photoAnalysisQueue, type PhotoAnalysisJob } from '@/lib/dating/photoAnalysisQueue';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server-sent updates for one photo analysis job (?jobId=). Sends the job as
+ * it stands, then every change, and closes once it completes or fails.
+ */
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+  if (!jobId) {
+    return NextResponse.json({ error: 'jobId required' }, { status: 400 });
+  }
+  const job = photoAnalysisQueue.get(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let keepalive: ReturnType<typeof setInterval> | null = null;
+  const cleanup = () => {
+    unsubscribe?.();
+    if (keepalive) clearInterval(keepalive);
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (update: PhotoAnalysisJob) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(update)}\n\n`));
+        if (isFinishedJob(update)) {
+          cleanup();
+          controller.close();
+        }
+      };
+
+      send(job);
+      if (isFinishedJob(job)) return;
+      unsubscribe = photoAnalysisQueue.subscribe(jobId, send);
+      keepalive = setInterval(() => {
+        controller.enqueue(encoder.encode(`: keepalive\n\n`));
+      }, 20000);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createUser } from '@/lib/userDatabase';
-import { userEventEmitter } from '@/lib/userEventEmitter';
+import { createUser, validateUserFields } from '@/lib/userDatabase';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, age, gender, dateOfBirth, race, preferences } = body;
+    const { name, age, gender, dateOfBirth, race, preferences, interestedIn, ageRange, dealbreakers } = body;
 
     if (!name || age === undefined || !gender || !dateOfBirth || !race) {
       return NextResponse.json(
@@ -14,18 +13,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!['male', 'female'].includes(gender)) {
-      return NextResponse.json(
-        { error: 'Invalid gender. Must be "male" or "female"' },
-        { status: 400 }
-      );
-    }
-
-    if (typeof age !== 'number' || age < 0 || age > 150) {
-      return NextResponse.json(
-        { error: 'Invalid age. Must be a number between 0 and 150' },
-        { status: 400 }
-      );
+    const validationError = validateUserFields(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
     const user = await createUser({
@@ -35,12 +25,11 @@ export async function POST(request: NextRequest) {
       dateOfBirth,
       race,
       preferences,
+      interestedIn,
+      ageRange: ageRange ? { min: ageRange.min, max: ageRange.max } : undefined,
+      dealbreakers,
     });
 
-    console.log('Emitting userCreated event for:', user.name);
-    userEventEmitter.emitUserCreated(user);
-    console.log('Event emitted, listeners:', userEventEmitter.listenerCount('userCreated'));
-
     return NextResponse.json({
       success: true,
       user,
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setUserDeactivated } from '@/lib/userDatabase';
+import { datingService } from '@/lib/dating/datingService';
+
+/**
+ * Pause a user's dating ({ userId }) or resume it ({ userId, deactivated: false }).
+ * Pausing cancels their upcoming dates and pending match request.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, deactivated = true } = await request.json();
+
+    if (!userId || typeof userId !== 'string') {
+      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    }
+    if (typeof deactivated !== 'boolean') {
+      return NextResponse.json({ error: 'deactivated must be true or false' }, { status: 400 });
+    }
+
+    const user = await setUserDeactivated(userId, deactivated);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    // The dating service cancels their dates as the change comes through
+    await datingService.whenUserChangesApplied();
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteUser } from '@/lib/userDatabase';
+import { datingService } from '@/lib/dating/datingService';
+
+/**
+ * Delete a user's profile along with their open dates, pending match,
+ * agent memory and notifications. Takes ?userId= or { userId }.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    let userId = request.nextUrl.searchParams.get('userId');
+    if (!userId) {
+      const body = await request.json().catch(() => ({}));
+      userId = typeof body.userId === 'string' ? body.userId : null;
+    }
+
+    if (!userId) {
+      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    }
+
+    const user = await deleteUser(userId);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    // The dating service removes their dating data as the change comes through
+    await datingService.whenUserChangesApplied();
+
+    return NextResponse.json({ success: true, userId });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
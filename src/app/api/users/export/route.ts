@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserById } from '@/lib/userDatabase';
+import { datingService } from '@/lib/dating/datingService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Download everything stored about a user: their profile and photo
+ * analysis, date transcripts and scores, agent memory, relationships,
+ * notifications and model usage.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.nextUrl.searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    }
+
+    const profile = await getUserById(userId);
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const dating = await datingService.exportUserData(userId);
+
+    return new NextResponse(JSON.stringify({ exportedAt: new Date().toISOString(), profile, ...dating }, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="user-${userId}-export.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
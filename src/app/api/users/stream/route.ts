@@ -15,8 +15,18 @@ export async function GET(request: NextRequest) {
         const data = `data: ${JSON.stringify(user)}\n\n`;
         controller.enqueue(encoder.encode(data));
       };
+      // Edits and deletions are named events so existing clients, which treat
+      // every unnamed message as a new user, don't mistake them for sign-ups
+      const updatedListener = (user: UserProfile) => {
+        controller.enqueue(encoder.encode(`event: userUpdated\ndata: ${JSON.stringify(user)}\n\n`));
+      };
+      const deletedListener = (userId: string) => {
+        controller.enqueue(encoder.encode(`event: userDeleted\ndata: ${JSON.stringify({ userId })}\n\n`));
+      };
 
       userEventEmitter.on('userCreated', listener);
+      userEventEmitter.on('userUpdated', updatedListener);
+      userEventEmitter.on('userDeleted', deletedListener);
       console.log('SSE listener registered, new count:', userEventEmitter.listenerCount('userCreated'));
 
       const keepAliveInterval = setInterval(() => {
@@ -25,6 +35,8 @@ export async function GET(request: NextRequest) {
 
       request.signal.addEventListener('abort', () => {
         userEventEmitter.off('userCreated', listener);
+        userEventEmitter.off('userUpdated', updatedListener);
+        userEventEmitter.off('userDeleted', deletedListener);
         clearInterval(keepAliveInterval);
         controller.close();
       });
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateUser, validateUserFields, EDITABLE_USER_FIELDS } from '@/lib/userDatabase';
+import { validateAppearanceOverrides, type AppearanceOverridesPatch } from '@/lib/characterAppearance';
+
+/**
+ * Edit a user's profile: { userId, ...fields }. An appearance object sets
+ * the character's look, overriding what was generated or read from their
+ * photo; a null field goes back to that look.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId || typeof userId !== 'string') {
+      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    }
+
+    const updates = Object.fromEntries(
+      EDITABLE_USER_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+    );
+    if (Object.keys(updates).length === 0 && body.appearance === undefined) {
+      return NextResponse.json(
+        { error: `Nothing to update. Editable fields: ${EDITABLE_USER_FIELDS.join(', ')}, appearance` },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateUserFields(updates);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    let appearance: AppearanceOverridesPatch | undefined;
+    if (body.appearance !== undefined) {
+      const result = validateAppearanceOverrides(body.appearance);
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      appearance = result.patch;
+    }
+
+    const user = await updateUser(userId, updates, appearance);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -35,15 +35,27 @@ function getSidewalkYOffset(direction: 'north' | 'south' | 'east' | 'west', side
   }
 }
 
+/**
+ * Hair color for a pedestrian: a user character's own, otherwise picked by ID
+ * so it stays stable and doesn't flicker
+ */
+function hairColorFor(ped: Pedestrian): string {
+  return ped.hairColor || HAIR_COLORS[ped.id % HAIR_COLORS.length];
+}
+
+/**
+ * Whether a pedestrian has visible hair: ~50% of them by ID, plus every
+ * user character whose hair color is known
+ */
+function hasHair(ped: Pedestrian): boolean {
+  return !!ped.hairColor || ped.id % 2 === 0;
+}
+
 /**
  * Draw hair/ponytail on a pedestrian
- * @param pedId - Pedestrian ID for consistent hair color (avoids flickering)
  */
-function drawHair(ctx: CanvasRenderingContext2D, headX: number, headY: number, headRadius: number, pedId: number): void {
-  // Pick a hair color based on pedestrian ID (stable, no flickering)
-  const hairColor = HAIR_COLORS[pedId % HAIR_COLORS.length];
-  
-  ctx.fillStyle = hairColor;
+function drawHair(ctx: CanvasRenderingContext2D, headX: number, headY: number, headRadius: number, ped: Pedestrian): void {
+  ctx.fillStyle = hairColorFor(ped);
   
   // Draw hair on top of head
   ctx.beginPath();
@@ -56,6 +68,18 @@ function drawHair(ctx: CanvasRenderingContext2D, headX: number, headY: number, h
   ctx.fill();
 }
 
+/**
+ * Draw glasses across the front of a pedestrian's head
+ */
+function drawGlasses(ctx: CanvasRenderingContext2D, headX: number, headY: number, headRadius: number): void {
+  ctx.strokeStyle = '#111827';
+  ctx.lineWidth = headRadius * 0.25;
+  ctx.beginPath();
+  ctx.moveTo(headX - headRadius * 0.9, headY);
+  ctx.lineTo(headX + headRadius * 0.9, headY);
+  ctx.stroke();
+}
+
 /**
  * Filter mode for drawing pedestrians
  * - 'all': Draw all visible pedestrians
@@ -445,8 +469,11 @@ function drawWalkingPedestrian(ctx: CanvasRenderingContext2D, ped: Pedestrian):
   ctx.fill();
 
   // Add hair for ~50% of pedestrians (based on ID)
-  if (ped.id % 2 === 0) {
-    drawHair(ctx, walkSway * scale, (-12 + walkBob) * scale, 3 * scale, ped.id);
+  if (hasHair(ped)) {
+    drawHair(ctx, walkSway * scale, (-12 + walkBob) * scale, 3 * scale, ped);
+  }
+  if (ped.hasGlasses) {
+    drawGlasses(ctx, walkSway * scale, (-12 + walkBob) * scale, 3 * scale);
   }
 
   ctx.fillStyle = ped.shirtColor;
@@ -895,8 +922,8 @@ function drawSittingPerson(ctx: CanvasRenderingContext2D, ped: Pedestrian): void
   ctx.fill();
 
   // Hair for variety
-  if (ped.id % 2 === 0) {
-    drawHair(ctx, 0, (-8 + breathe) * scale, 3 * scale, ped.id);
+  if (hasHair(ped)) {
+    drawHair(ctx, 0, (-8 + breathe) * scale, 3 * scale, ped);
   }
 
   // Hat if has one
@@ -975,8 +1002,8 @@ function drawPicnicker(ctx: CanvasRenderingContext2D, ped: Pedestrian): void {
   ctx.fill();
 
   // Add hair for ~50% of pedestrians
-  if (ped.id % 2 === 0) {
-    drawHair(ctx, 0, -8 * scale, 3 * scale, ped.id);
+  if (hasHair(ped)) {
+    drawHair(ctx, 0, -8 * scale, 3 * scale, ped);
   }
 
   // Body
@@ -1017,8 +1044,8 @@ function drawJogger(ctx: CanvasRenderingContext2D, ped: Pedestrian): void {
   ctx.fill();
 
   // Add hair for ~50% of pedestrians (ponytail bouncing)
-  if (ped.id % 2 === 0) {
-    drawHair(ctx, 0, (-12 + bounce) * scale, 3 * scale, ped.id);
+  if (hasHair(ped)) {
+    drawHair(ctx, 0, (-12 + bounce) * scale, 3 * scale, ped);
   }
 
   // Headband
@@ -1143,8 +1170,8 @@ function drawSpectator(ctx: CanvasRenderingContext2D, ped: Pedestrian): void {
   ctx.fill();
 
   // Add hair for ~50% of pedestrians (instead of cap)
-  if (ped.id % 2 === 0) {
-    drawHair(ctx, 0, (-12 + (cheerUp ? -1 : 0)) * scale, 3 * scale, ped.id);
+  if (hasHair(ped)) {
+    drawHair(ctx, 0, (-12 + (cheerUp ? -1 : 0)) * scale, 3 * scale, ped);
   } else {
     // Team cap/hat for others
     ctx.fillStyle = ped.shirtColor;
@@ -1215,8 +1242,8 @@ function drawSocializingPerson(ctx: CanvasRenderingContext2D, ped: Pedestrian):
   ctx.fill();
 
   // Add hair for ~50% of pedestrians
-  if (ped.id % 2 === 0) {
-    drawHair(ctx, 0, -12 * scale, 3 * scale, ped.id);
+  if (hasHair(ped)) {
+    drawHair(ctx, 0, -12 * scale, 3 * scale, ped);
   }
 
   // Body
@@ -1274,8 +1301,11 @@ function drawIdlePerson(ctx: CanvasRenderingContext2D, ped: Pedestrian): void {
   ctx.fill();
 
   // Add hair for ~50% of pedestrians
-  if (ped.id % 2 === 0 && !ped.hasHat) {
-    drawHair(ctx, 0, (-12 + breathe) * scale, 3 * scale, ped.id);
+  if (hasHair(ped) && !ped.hasHat) {
+    drawHair(ctx, 0, (-12 + breathe) * scale, 3 * scale, ped);
+  }
+  if (ped.hasGlasses) {
+    drawGlasses(ctx, 0, (-12 + breathe) * scale, 3 * scale);
   }
 
   // Hat if has one
@@ -1356,7 +1386,7 @@ function drawBeachSwimmer(ctx: CanvasRenderingContext2D, ped: Pedestrian): void
   ctx.fill();
 
   // Wet hair
-  const hairColor = HAIR_COLORS[ped.id % HAIR_COLORS.length];
+  const hairColor = hairColorFor(ped);
   ctx.fillStyle = hairColor;
   ctx.beginPath();
   ctx.arc(wave * scale, (-3.5 + bob) * scale, 3 * scale, Math.PI, 0);
@@ -1493,7 +1523,7 @@ function drawBeachMat(ctx: CanvasRenderingContext2D, ped: Pedestrian): void {
     ctx.fill();
     
     // Hair on back of head
-    const hairColor = HAIR_COLORS[ped.id % HAIR_COLORS.length];
+    const hairColor = hairColorFor(ped);
     ctx.fillStyle = hairColor;
     ctx.beginPath();
     ctx.arc(-6 * scale, breathe * scale, 2.5 * scale, Math.PI * 0.3, Math.PI * 1.7);
@@ -7,6 +7,7 @@
 import { BuildingType, Tile } from '@/types/game';
 import { TourWaypoint, TILE_WIDTH, TILE_HEIGHT, PedestrianDestType } from './types';
 import { gridToScreen } from './utils';
+import { isDateVenueType, type VenueTile } from '@/lib/dating/venues';
 
 // PERF: Building type Sets for O(1) lookup instead of O(n) array.includes()
 const RESIDENTIAL_BUILDING_TYPES = new Set<BuildingType>([
@@ -192,6 +193,31 @@ export function findEnterableBuildings(
   return buildings;
 }
 
+/**
+ * Find finished buildings that can host a date (cafés, parks, waterfronts, etc.)
+ */
+export function findDateVenues(
+  grid: Tile[][],
+  gridSize: number
+): VenueTile[] {
+  if (!grid || gridSize <= 0) return [];
+
+  const venues: VenueTile[] = [];
+  for (let y = 0; y < gridSize; y++) {
+    for (let x = 0; x < gridSize; x++) {
+      const building = grid[y][x].building;
+      if (
+        isDateVenueType(building.type) &&
+        building.constructionProgress >= 100 &&
+        !building.abandoned
+      ) {
+        venues.push({ x, y, buildingType: building.type });
+      }
+    }
+  }
+  return venues;
+}
+
 /**
  * Check if a building type is a sports facility
  */
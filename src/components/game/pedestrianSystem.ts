@@ -235,6 +235,9 @@ export function createPedestrianFromUser(
     pantsColor: string;
     hasHat: boolean;
     hatColor: string | null;
+    hairColor?: string;
+    hasGlasses?: boolean;
+    hasBag?: boolean;
   },
   homeX: number,
   homeY: number,
@@ -261,6 +264,8 @@ export function createPedestrianFromUser(
     pantsColor: userProfile.pantsColor,
     hasHat: userProfile.hasHat,
     hatColor: userProfile.hatColor || '#000000',
+    hairColor: userProfile.hairColor,
+    hasGlasses: userProfile.hasGlasses ?? false,
     walkOffset: Math.random() * Math.PI * 2,
     sidewalkSide: Math.random() < 0.5 ? 'left' : 'right',
     destType,
@@ -282,7 +287,7 @@ export function createPedestrianFromUser(
     activityAnimTimer: Math.random() * Math.PI * 2,
     hasBall: false,
     hasDog: false,
-    hasBag: false,
+    hasBag: userProfile.hasBag ?? false,
     hasBeachMat: false,
     matColor: PEDESTRIAN_MAT_COLORS[Math.floor(Math.random() * PEDESTRIAN_MAT_COLORS.length)],
     beachTileX: -1,
@@ -305,6 +310,15 @@ export function handleArrivalAtDestination(
   const tile = grid[ped.destY]?.[ped.destX];
   if (!tile) return;
   
+  // User characters on a date wait at the venue until the date ends
+  if (ped.dateId) {
+    ped.state = 'idle';
+    ped.activity = 'none';
+    ped.activityProgress = 0;
+    ped.activityDuration = Infinity;
+    return;
+  }
+  
   const buildingType = tile.building.type;
   
   // Check if this is a recreational area
@@ -428,7 +442,7 @@ function updateWalkingState(
   // This spreads the checks across frames instead of all at once
   const checkFrame = (ped.id + Math.floor(ped.age * 10)) % 60 === 0;
   
-  if (checkFrame) {
+  if (checkFrame && !ped.dateId) {
     // Check if we should stop to socialize (very rare)
     if (Math.random() < PEDESTRIAN_SOCIAL_CHANCE) {
       const nearbyPed = findNearbyPedestrianFast(ped, allPedestrians);
@@ -256,6 +256,8 @@ export type Pedestrian = {
   pantsColor: string;        // NEW: pants/shorts color
   hasHat: boolean;           // NEW: wearing a hat
   hatColor: string;          // NEW: hat color
+  hairColor?: string;        // Hair color of a user character (others pick one by ID)
+  hasGlasses?: boolean;      // Wearing glasses
   walkOffset: number;        // For walking animation
   sidewalkSide: 'left' | 'right';
   destType: PedestrianDestType;
@@ -290,6 +292,7 @@ export type Pedestrian = {
   beachEdge: 'north' | 'east' | 'south' | 'west' | null; // Which edge of water tile is beach
   name: string;              // Pedestrian name for display
   userId?: string;           // User ID if spawned from user profile
+  dateId?: string;           // Date session a user character is heading to or attending
   spawnProgress?: number;    // 0-1 progress for spawn animation (only for user characters)
 };
 
@@ -3,6 +3,7 @@
 import { RefreshCw, Bookmark } from 'lucide-react';
 
 interface Option {
+  id?: string;
   name: string;
   percentage: number;
 }
@@ -11,12 +12,16 @@ interface MultiOptionCardProps {
   title: string;
   options: Option[];
   volume: string;
+  disabled?: boolean;
+  onYes?: (optionId: string) => void;
 }
 
 export const MultiOptionCard = ({
   title,
   options,
   volume,
+  disabled = false,
+  onYes,
 }: MultiOptionCardProps) => {
   return (
     <div className="pm-card group">
@@ -40,7 +45,10 @@ export const MultiOptionCard = ({
               <span className="text-foreground font-medium text-sm transition-all duration-200">
                 {option.percentage}%
               </span>
-              <button className="text-[hsl(152,82%,45%)] text-xs font-medium px-2 py-1 border border-[hsl(152,82%,45%)] rounded hover:bg-[hsl(152,82%,45%)] hover:text-white transition-all duration-150 active:scale-95">
+              <button
+                disabled={disabled}
+                onClick={() => onYes?.(option.id ?? option.name)}
+                className="text-[hsl(152,82%,45%)] text-xs font-medium px-2 py-1 border border-[hsl(152,82%,45%)] rounded hover:bg-[hsl(152,82%,45%)] hover:text-white transition-all duration-150 active:scale-95">
                 Yes
               </button>
               <button className="text-[hsl(0,72%,60%)] text-xs font-medium px-2 py-1 border border-[hsl(0,72%,60%)] rounded hover:bg-[hsl(0,72%,60%)] hover:text-white transition-all duration-150 active:scale-95">
@@ -8,6 +8,9 @@ interface PredictionCardProps {
   percentage: number;
   volume: string;
   showCircularProgress?: boolean;
+  disabled?: boolean;
+  onYes?: () => void;
+  onNo?: () => void;
 }
 
 export const PredictionCard = ({
@@ -15,6 +18,9 @@ export const PredictionCard = ({
   percentage,
   volume,
   showCircularProgress = true,
+  disabled = false,
+  onYes,
+  onNo,
 }: PredictionCardProps) => {
   return (
     <div className="pm-card group">
@@ -28,8 +34,8 @@ export const PredictionCard = ({
       </div>
 
       <div className="flex gap-2 mb-4">
-        <button className="pm-btn-yes pm-btn-micro flex-1">Yes</button>
-        <button className="pm-btn-no pm-btn-micro flex-1">No</button>
+        <button className="pm-btn-yes pm-btn-micro flex-1" disabled={disabled} onClick={onYes}>Yes</button>
+        <button className="pm-btn-no pm-btn-micro flex-1" disabled={disabled} onClick={onNo}>No</button>
       </div>
 
       <div className="flex items-center justify-between text-muted-foreground text-xs">
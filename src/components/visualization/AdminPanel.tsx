@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import type { NumberRange, SimulationConfig } from '@/lib/dating/simulationConfig';
+import type { UsageBudgetStatus } from '@/lib/dating/usageMeter';
+
+interface AdminState {
+  config: SimulationConfig;
+  status: {
+    paused: boolean;
+    pausedBy: 'manual' | 'budget' | null;
+    budget: UsageBudgetStatus;
+    activeCount: number;
+    scheduledCount: number;
+    queuedMatchRequests: number;
+  };
+  users: Array<{ id: string; name: string; enabled: boolean }>;
+  dates: Array<{ id: string; user1Name: string; user2Name: string; status: string; endTime: string }>;
+  models: { provider: string; available: string[] };
+}
+
+// Ranges are edited in seconds and stored in milliseconds
+const RANGE_FIELDS: Array<{ key: 'dateDurationMs' | 'openingDelayMs' | 'replyDelayMs'; label: string }> = [
+  { key: 'dateDurationMs', label: 'Date length' },
+  { key: 'openingDelayMs', label: 'Delay before opening line' },
+  { key: 'replyDelayMs', label: 'Delay between replies' },
+];
+
+const toSeconds = (ms: number) => Math.round(ms / 1000);
+
+async function postAdmin(payload: Record<string, unknown>): Promise<string | null> {
+  const response = await fetch('/api/dating/admin', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  if (response.ok) return null;
+  const data = await response.json().catch(() => ({}));
+  return data.error || 'Request failed';
+}
+
+export function AdminPanel() {
+  const [state, setState] = useState<AdminState | null>(null);
+  const [draft, setDraft] = useState<SimulationConfig | null>(null);
+  const [pairIds, setPairIds] = useState<[string, string]>(['', '']);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchState = useCallback(async (resetDraft: boolean = false) => {
+    try {
+      const response = await fetch('/api/dating/admin');
+      const data: AdminState = await response.json();
+      setState(data);
+      if (resetDraft) setDraft(data.config);
+    } catch (fetchError) {
+      console.error('Failed to load admin state:', fetchError);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => fetchState(true), 0);
+    const eventSource = new EventSource('/api/dating/stream');
+    eventSource.onmessage = (event) => {
+      if (event.data === 'keepalive') return;
+      try {
+        const payload = JSON.parse(event.data);
+        if (['dateScheduled', 'dateStarted', 'dateCompleted', 'dateCancelled'].includes(payload.type)) {
+          fetchState();
+        }
+      } catch {
+        fetchState();
+      }
+    };
+    return () => {
+      clearTimeout(timeoutId);
+      eventSource.close();
+    };
+  }, [fetchState]);
+
+  const runAction = async (payload: Record<string, unknown>, resetDraft: boolean = false) => {
+    setError(null);
+    try {
+      const actionError = await postAdmin(payload);
+      if (actionError) setError(actionError);
+    } catch (actionError) {
+      console.error('Admin action failed:', actionError);
+      setError('Request failed');
+    }
+    await fetchState(resetDraft);
+  };
+
+  const updateRange = (key: typeof RANGE_FIELDS[number]['key'], bound: keyof NumberRange, seconds: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, [key]: { ...draft[key], [bound]: Math.max(0, Math.round(seconds * 1000)) } });
+  };
+
+  const toggleModel = (model: string, included: boolean) => {
+    if (!draft || !state) return;
+    const provider = state.models.provider as keyof SimulationConfig['modelPools'];
+    const current = draft.modelPools[provider]?.length ? draft.modelPools[provider]! : state.models.available;
+    const pool = included ? [...current, model] : current.filter(item => item !== model);
+    setDraft({ ...draft, modelPools: { ...draft.modelPools, [provider]: pool } });
+  };
+
+  if (!state || !draft) {
+    return <div className="w-full p-6 text-sm text-muted-foreground">Loading simulation settings...</div>;
+  }
+
+  const provider = state.models.provider as keyof SimulationConfig['modelPools'];
+  const modelPool = draft.modelPools[provider]?.length ? draft.modelPools[provider]! : state.models.available;
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold mb-1">Simulation Controls</h2>
+        <p className="text-sm text-muted-foreground">
+          {state.status.pausedBy === 'budget' ? 'Scheduling paused: daily budget reached' : state.status.paused ? 'Scheduling paused' : 'Scheduling running'} • {state.status.activeCount} active • {state.status.scheduledCount} scheduled • {state.status.queuedMatchRequests} match requests waiting
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Model spend today: ${state.status.budget.spentUsd.toFixed(4)}
+          {state.status.budget.dailyBudgetUsd !== null && ` of $${state.status.budget.dailyBudgetUsd.toFixed(2)}`}
+        </p>
+        {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-lg">Pacing</h3>
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-56">Max concurrent dates</span>
+          <Input
+            type="number"
+            min={0}
+            max={20}
+            value={draft.maxConcurrentDates}
+            onChange={(event) => setDraft({ ...draft, maxConcurrentDates: Math.max(0, Number(event.target.value) || 0) })}
+            className="w-24 h-8"
+          />
+        </label>
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-56">Daily model budget (USD)</span>
+          <Input
+            type="number"
+            min={0}
+            step={0.5}
+            placeholder="No limit"
+            value={draft.dailyBudgetUsd ?? ''}
+            onChange={(event) => setDraft({
+              ...draft,
+              dailyBudgetUsd: event.target.value === '' ? null : Math.max(0, Number(event.target.value) || 0)
+            })}
+            className="w-24 h-8"
+          />
+        </label>
+        {RANGE_FIELDS.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-3 text-sm">
+            <span className="w-56">{label} (seconds)</span>
+            <Input
+              type="number"
+              min={0}
+              value={toSeconds(draft[key].min)}
+              onChange={(event) => updateRange(key, 'min', Number(event.target.value) || 0)}
+              className="w-24 h-8"
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="number"
+              min={0}
+              value={toSeconds(draft[key].max)}
+              onChange={(event) => updateRange(key, 'max', Number(event.target.value) || 0)}
+              className="w-24 h-8"
+            />
+          </div>
+        ))}
+
+        <div className="text-sm">
+          <div className="mb-2">Models for {state.models.provider} agents</div>
+          <div className="flex flex-wrap gap-4">
+            {state.models.available.map(model => (
+              <label key={model} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={modelPool.includes(model)}
+                  onChange={(event) => toggleModel(model, event.target.checked)}
+                />
+                <span className="font-mono text-xs">{model}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => runAction({ action: 'updateConfig', config: draft }, true)}>
+            Save settings
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setDraft(state.config)}>
+            Reset
+          </Button>
+        </div>
+      </section>
+
+      <Separator />
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-lg">Running Dates</h3>
+        {state.dates.map(date => (
+          <div key={date.id} className="flex items-center justify-between border border-border rounded-md px-3 py-2 text-sm">
+            <span>
+              {date.user1Name} × {date.user2Name}
+              <span className="ml-2 text-xs text-muted-foreground capitalize">{date.status}</span>
+            </span>
+            {(date.status === 'active' || date.status === 'scheduled') && (
+              <Button size="sm" variant="destructive" onClick={() => runAction({ action: 'cancel', dateId: date.id })}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        ))}
+        {state.dates.length === 0 && <div className="text-sm text-muted-foreground">No dates running</div>}
+
+        <div className="flex items-center gap-2 text-sm">
+          {[0, 1].map(index => (
+            <select
+              key={index}
+              value={pairIds[index]}
+              onChange={(event) => {
+                const next: [string, string] = [...pairIds];
+                next[index] = event.target.value;
+                setPairIds(next);
+              }}
+              className="h-8 rounded-md border border-border bg-background px-2"
+            >
+              <option value="">Pick a user</option>
+              {state.users.map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+          ))}
+          <Button
+            size="sm"
+            disabled={!pairIds[0] || !pairIds[1]}
+            onClick={() => runAction({ action: 'pair', user1Id: pairIds[0], user2Id: pairIds[1] })}
+          >
+            Start date
+          </Button>
+        </div>
+      </section>
+
+      <Separator />
+
+      <section className="space-y-2">
+        <h3 className="font-semibold text-lg">Users</h3>
+        <p className="text-xs text-muted-foreground">Disabled users are left out of automatic scheduling and match requests</p>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {state.users.map(user => (
+            <label key={user.id} className="flex items-center justify-between border border-border rounded-md px-3 py-2 text-sm">
+              <span>{user.name}</span>
+              <Switch
+                checked={user.enabled}
+                onCheckedChange={(enabled) => runAction({ action: 'setUserEnabled', userId: user.id, enabled })}
+              />
+            </label>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
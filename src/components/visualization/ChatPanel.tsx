@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { DateEvent } from '@/lib/dating/dateEvents';
 
 interface DateMessage {
   sender: string;
@@ -18,7 +19,7 @@ interface DateSession {
   startTime: string;
   endTime: string;
   messages: DateMessage[];
-  status: 'scheduled' | 'active' | 'summarizing' | 'completed';
+  status: 'scheduled' | 'active' | 'summarizing' | 'completed' | 'cancelled';
   summary?: string;
 }
 
@@ -115,37 +116,111 @@ function DateCard({ date }: { date: DateSession }) {
   );
 }
 
+/**
+ * Fold one stream event into the visible dates. Only active and summarizing
+ * dates are shown, so completed ones drop out.
+ */
+function applyDateEvent(dates: DateSession[], event: DateEvent): DateSession[] {
+  switch (event.type) {
+    case 'dateStarted':
+      if (dates.some(date => date.id === event.date.id)) return dates;
+      return [...dates, event.date];
+    case 'messageStarted':
+      return dates.map(date => {
+        if (date.id !== event.dateId || date.messages.length > event.messageIndex) return date;
+        return {
+          ...date,
+          messages: [...date.messages, {
+            sender: event.sender,
+            senderName: event.senderName,
+            message: '',
+            timestamp: event.timestamp
+          }]
+        };
+      });
+    case 'tokenDelta':
+    case 'messageCompleted':
+      return dates.map(date => {
+        const existing = date.id === event.dateId ? date.messages[event.messageIndex] : undefined;
+        if (!existing) return date;
+        const messages = [...date.messages];
+        messages[event.messageIndex] = {
+          ...existing,
+          message: event.type === 'tokenDelta' ? existing.message + event.delta : event.message
+        };
+        return { ...date, messages };
+      });
+    case 'messageRetrying':
+      return dates.map(date => {
+        const existing = date.id === event.dateId ? date.messages[event.messageIndex] : undefined;
+        if (!existing) return date;
+        const messages = [...date.messages];
+        messages[event.messageIndex] = { ...existing, message: '' };
+        return { ...date, messages };
+      });
+    case 'messageFailed':
+      return dates.map(date => date.id === event.dateId && date.messages.length > event.messageIndex
+        ? { ...date, messages: date.messages.filter((_, index) => index !== event.messageIndex) }
+        : date);
+    case 'dateSummarizing':
+      return dates.map(date => date.id === event.dateId ? { ...date, status: 'summarizing' } : date);
+    case 'dateCompleted':
+    case 'dateCancelled':
+      return dates.filter(date => date.id !== event.dateId);
+    default:
+      return dates;
+  }
+}
+
 export function ChatPanel() {
   const [activeDates, setActiveDates] = useState<DateSession[]>([]);
+  const activeDatesRef = useRef<DateSession[]>([]);
   const initRef = useRef(false);
+  // Sequence number the current snapshot reflects; older events are already in it
+  const snapshotSeqRef = useRef(0);
+  // Events that arrive while a snapshot is loading, applied once it lands
+  const pendingEventsRef = useRef<DateEvent[] | null>(null);
+
+  const updateDates = useCallback((update: (dates: DateSession[]) => DateSession[]) => {
+    activeDatesRef.current = update(activeDatesRef.current);
+    setActiveDates(activeDatesRef.current);
+  }, []);
 
   const fetchData = useCallback(async () => {
+    pendingEventsRef.current = pendingEventsRef.current || [];
     try {
       const response = await fetch('/api/dating?action=active');
       const data = await response.json();
-      const visibleDates = (data.dates || []).filter((date: DateSession) => date.status === 'active' || date.status === 'summarizing');
-      setActiveDates(visibleDates);
-      return visibleDates.filter((d: DateSession) => d.status === 'active').length;
+      const visibleDates: DateSession[] = (data.dates || []).filter((date: DateSession) => date.status === 'active' || date.status === 'summarizing');
+      snapshotSeqRef.current = data.seq || 0;
+      const pending = (pendingEventsRef.current || []).filter(event => event.seq > snapshotSeqRef.current);
+      updateDates(() => pending.reduce(applyDateEvent, visibleDates));
     } catch (error) {
       console.error('Failed to fetch dating data:', error);
-      return 0;
+    } finally {
+      pendingEventsRef.current = null;
     }
+  }, [updateDates]);
+
+  const autoSchedule = useCallback(async () => {
+    await fetch('/api/dating', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // The server fills up to its configured number of concurrent dates
+      body: JSON.stringify({ action: 'autoSchedule' })
+    });
   }, []);
 
   const initializeAutoSchedule = useCallback(async () => {
     if (initRef.current) return;
     initRef.current = true;
     try {
-      await fetch('/api/dating', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'autoSchedule', maxDates: 3 })
-      });
+      await autoSchedule();
       await fetchData();
     } catch (error) {
       console.error('Failed to auto-schedule:', error);
     }
-  }, [fetchData]);
+  }, [autoSchedule, fetchData]);
 
   useEffect(() => {
     fetch('/api/dating', {
@@ -172,34 +247,35 @@ export function ChatPanel() {
   }, [initializeAutoSchedule]);
 
   useEffect(() => {
+    // The browser reconnects on its own and sends Last-Event-ID, so the
+    // server can replay what was missed instead of a full refetch
     const eventSource = new EventSource('/api/dating/stream');
-    eventSource.onmessage = async (event) => {
-      if (event.data === 'keepalive') return;
+    eventSource.onmessage = async (message) => {
+      if (message.data === 'keepalive') return;
       try {
-        const payload = JSON.parse(event.data);
+        const payload = JSON.parse(message.data);
         if (payload.type === 'connected') {
-          await fetchData();
+          if (!payload.resumed) await fetchData();
+          return;
         }
-        if (payload.type === 'datesUpdated') {
-          const activeCount = await fetchData();
-          if (activeCount < 3) {
-            await fetch('/api/dating', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ action: 'autoSchedule', maxDates: 3 })
-            });
-            await fetchData();
-          }
+
+        const event = payload as DateEvent;
+        if (pendingEventsRef.current) {
+          pendingEventsRef.current.push(event);
+          return;
+        }
+        if (event.seq <= snapshotSeqRef.current) return;
+        updateDates(dates => applyDateEvent(dates, event));
+
+        if (event.type === 'dateCompleted' || event.type === 'dateCancelled') {
+          await autoSchedule();
         }
       } catch {
         await fetchData();
       }
     };
-    eventSource.onerror = () => {
-      eventSource.close();
-    };
     return () => eventSource.close();
-  }, [fetchData]);
+  }, [fetchData, updateDates, autoSchedule]);
 
   return (
     <div className="w-full p-6">
@@ -211,7 +287,7 @@ export function ChatPanel() {
       </div>
 
       <div className="grid grid-cols-3 gap-4 pb-4">
-        {activeDates.slice(0, 3).map((date) => (
+        {activeDates.map((date) => (
           <div key={date.id} className="h-[600px]">
             <DateCard date={date} />
           </div>
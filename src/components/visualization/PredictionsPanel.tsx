@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { Search } from 'lucide-react';
 import { 
   PredictionCard, 
@@ -8,7 +8,18 @@ import {
   DateOptionCard, 
   TopicFilters 
 } from '@/components/predictions';
-import { mockPredictionMarkets, type PredictionMarket } from '@/lib/dating/predictionMarketData';
+import type { BettorAccount, PredictionMarket } from '@/lib/dating/predictionMarketData';
+
+const BETTOR_ID_KEY = 'dating-markets-bettor-id';
+
+function getBettorId(): string {
+  let bettorId = localStorage.getItem(BETTOR_ID_KEY);
+  if (!bettorId) {
+    bettorId = `viewer-${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(BETTOR_ID_KEY, bettorId);
+  }
+  return bettorId;
+}
 
 const PolymarketLogo = () => (
   <svg width="34" height="34" viewBox="0 0 32 40" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -22,7 +33,7 @@ const PolymarketLogo = () => (
 const formatVolume = (volume: number): string => {
   if (volume >= 1000000) return `$${(volume / 1000000).toFixed(1)}m`;
   if (volume >= 1000) return `$${(volume / 1000).toFixed(0)}k`;
-  return `$${volume}`;
+  return `$${Math.round(volume)}`;
 };
 
 const topics = [
@@ -36,9 +47,61 @@ const topics = [
 export function PredictionsPanel() {
   const [activeFilter, setActiveFilter] = useState('All');
   const [searchQuery, setSearchQuery] = useState('');
+  const [allMarkets, setAllMarkets] = useState<PredictionMarket[]>([]);
+  const [account, setAccount] = useState<BettorAccount | null>(null);
+  const [stake, setStake] = useState(10);
+  const [betError, setBetError] = useState<string | null>(null);
+
+  const fetchMarkets = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/dating/markets?bettorId=${encodeURIComponent(getBettorId())}`);
+      const data = await res.json();
+      setAllMarkets(data.markets || []);
+      if (data.account) setAccount(data.account);
+    } catch (error) {
+      console.error('Error fetching prediction markets:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const eventSource = new EventSource('/api/dating/stream');
+    eventSource.onmessage = async (event) => {
+      if (event.data === 'keepalive') return;
+      try {
+        const payload = JSON.parse(event.data);
+        if (payload.type === 'connected' || payload.type === 'marketsUpdated') {
+          await fetchMarkets();
+        }
+      } catch {
+        await fetchMarkets();
+      }
+    };
+    return () => eventSource.close();
+  }, [fetchMarkets]);
+
+  const placeBet = useCallback(async (marketId: string, outcomeId: string) => {
+    setBetError(null);
+    try {
+      const res = await fetch('/api/dating/markets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'bet', marketId, outcomeId, bettorId: getBettorId(), amount: stake })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setBetError(data.error || 'Bet failed');
+        return;
+      }
+      setAccount(data.account);
+      setAllMarkets(prev => prev.map(m => (m.id === marketId ? data.market : m)));
+    } catch (error) {
+      console.error('Error placing bet:', error);
+      setBetError('Bet failed');
+    }
+  }, [stake]);
 
   const filteredMarkets = useMemo(() => {
-    let markets = mockPredictionMarkets;
+    let markets = allMarkets;
     
     if (activeFilter !== 'All') {
       const filterMap: Record<string, PredictionMarket['type'][]> = {
@@ -63,10 +126,14 @@ export function PredictionsPanel() {
     }
     
     return markets;
-  }, [activeFilter, searchQuery]);
+  }, [allMarkets, activeFilter, searchQuery]);
 
   const renderCard = (market: PredictionMarket) => {
     const volume = formatVolume(market.marketData.totalVolume);
+    const disabled = market.status !== 'active';
+    const title = market.status === 'resolved'
+      ? `${market.title} (resolved: ${market.currentOdds?.find(odd => odd.outcomeId === market.resolvedOutcomeId)?.option ?? market.resolvedOutcomeId})`
+      : market.title;
 
     if (market.type === 'compatibility_probability' && 
         market.currentOdds?.length === 2 && 
@@ -75,39 +142,51 @@ export function PredictionsPanel() {
       return (
         <PredictionCard
           key={market.id}
-          title={market.title}
+          title={title}
           percentage={yesProb}
           volume={volume}
+          disabled={disabled}
+          onYes={() => placeBet(market.id, market.currentOdds![0].outcomeId)}
+          onNo={() => placeBet(market.id, market.currentOdds![1].outcomeId)}
         />
       );
     }
 
     if (market.type === 'first_match_timing') {
       const options = market.currentOdds?.map(odd => ({
+        id: odd.outcomeId,
         date: odd.option,
         percentage: Math.round(odd.probability * 100),
       })) || [];
       return (
         <DateOptionCard
           key={market.id}
-          title={market.title}
-          options={options.slice(0, 2)}
+          title={title}
+          options={options}
           volume={volume}
+          disabled={disabled}
+          onYes={outcomeId => placeBet(market.id, outcomeId)}
         />
       );
     }
 
-    const options = market.currentOdds?.map(odd => ({
-      name: odd.option,
-      percentage: Math.round(odd.probability * 100),
-    })) || [];
+    // Show the favourites first; long partner lists only need the top few
+    const options = [...(market.currentOdds || [])]
+      .sort((a, b) => b.probability - a.probability)
+      .map(odd => ({
+        id: odd.outcomeId,
+        name: odd.option,
+        percentage: Math.round(odd.probability * 100),
+      }));
     
     return (
       <MultiOptionCard
         key={market.id}
-        title={market.title}
-        options={options.slice(0, 2)}
+        title={title}
+        options={options.slice(0, market.type === 'dates_to_match' ? 4 : 3)}
         volume={volume}
+        disabled={disabled}
+        onYes={outcomeId => placeBet(market.id, outcomeId)}
       />
     );
   };
@@ -138,6 +217,20 @@ export function PredictionsPanel() {
           </div>
 
           <div className="flex items-center gap-3 text-sm">
+            {account && (
+              <span className="text-foreground">{Math.round(account.balance)} credits</span>
+            )}
+            <label className="flex items-center gap-1 text-muted-foreground">
+              Stake
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={stake}
+                onChange={(e) => setStake(Math.max(1, Number(e.target.value) || 1))}
+                className="w-16 bg-transparent border border-border rounded px-1 text-foreground"
+              />
+            </label>
             <span className="text-muted-foreground">{filteredMarkets.length} markets</span>
           </div>
         </div>
@@ -149,6 +242,9 @@ export function PredictionsPanel() {
       />
 
       <div className="flex-1 overflow-y-auto px-4 pb-6">
+        {betError && (
+          <div className="mb-3 text-sm text-[hsl(0,72%,60%)]">{betError}</div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
           {filteredMarkets.map(market => renderCard(market))}
         </div>
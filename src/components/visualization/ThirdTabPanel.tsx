@@ -6,6 +6,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
 import { ConfidenceGraph } from './ConfidenceGraph';
+import type { DateAnalytics, DateListing } from '@/lib/dating/transcriptSearch';
 
 // Helper function to shuffle array randomly
 const shuffleArray = <T,>(array: T[]): T[] => {
@@ -20,12 +21,14 @@ const shuffleArray = <T,>(array: T[]): T[] => {
 interface UserProfile {
   id: string;
   name: string;
-  gender: 'male' | 'female';
+  gender: string;
   skinColor: string;
   shirtColor: string;
   pantsColor: string;
   hasHat: boolean;
   hatColor: string | null;
+  hairColor?: string;
+  hasGlasses?: boolean;
   compatibilityInsight: string;
 }
 
@@ -44,7 +47,7 @@ interface UserDate {
   user2Name: string;
   startTime: string;
   endTime: string;
-  status: 'scheduled' | 'active' | 'summarizing' | 'completed';
+  status: 'scheduled' | 'active' | 'summarizing' | 'completed' | 'cancelled';
   summary?: string;
   sentiment?: string;
   compatibilityRating?: number;
@@ -52,6 +55,7 @@ interface UserDate {
   messages?: DateMessage[];
   isMock?: boolean;
   confidence?: number;
+  messageCount?: number;
 }
 
 
@@ -81,7 +85,7 @@ function UserAvatar({ profile, size = 80 }: { profile: UserProfile; size?: numbe
 
     // Draw hair (simple top arc)
     if (!profile.hasHat) {
-      ctx.fillStyle = '#2c1810'; // Dark hair color
+      ctx.fillStyle = profile.hairColor || '#2c1810'; // Dark hair unless the photo showed otherwise
       ctx.beginPath();
       ctx.arc(centerX, centerY - 6 * scale, 3.3 * scale, Math.PI, 0);
       ctx.fill();
@@ -95,6 +99,16 @@ function UserAvatar({ profile, size = 80 }: { profile: UserProfile; size?: numbe
       ctx.fill();
     }
 
+    // Draw glasses (a bar across the eyes)
+    if (profile.hasGlasses) {
+      ctx.strokeStyle = '#111827';
+      ctx.lineWidth = 0.6 * scale;
+      ctx.beginPath();
+      ctx.moveTo(centerX - 2.6 * scale, centerY - 6 * scale);
+      ctx.lineTo(centerX + 2.6 * scale, centerY - 6 * scale);
+      ctx.stroke();
+    }
+
     // Draw body (ellipse)
     ctx.fillStyle = profile.shirtColor;
     ctx.beginPath();
@@ -167,6 +181,9 @@ export function ThirdTabPanel() {
   const [confidenceData, setConfidenceData] = useState<Array<{ dateId: string; confidence: number; timestamp: string }>>([]);
   const [compatibilityInsight, setCompatibilityInsight] = useState<string | null>(null);
   const [bestMatchName, setBestMatchName] = useState<string | null>(null);
+  const [dateAnalytics, setDateAnalytics] = useState<DateAnalytics | null>(null);
+  const [transcriptQuery, setTranscriptQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<DateListing[] | null>(null);
   
   useEffect(() => {
     const fetchUsers = async () => {
@@ -204,6 +221,26 @@ export function ThirdTabPanel() {
       }
     };
 
+    eventSource.addEventListener('userUpdated', (event) => {
+      try {
+        const updatedUser = JSON.parse((event as MessageEvent).data);
+        setProfiles(prev => prev.map(u => u.id === updatedUser.id ? { ...u, ...updatedUser } : u));
+        setSelectedProfile(prev => prev?.id === updatedUser.id ? { ...prev, ...updatedUser } : prev);
+      } catch (error) {
+        console.error('Error processing SSE event:', error);
+      }
+    });
+
+    eventSource.addEventListener('userDeleted', (event) => {
+      try {
+        const { userId } = JSON.parse((event as MessageEvent).data);
+        setProfiles(prev => prev.filter(u => u.id !== userId));
+        setSelectedProfile(prev => prev?.id === userId ? null : prev);
+      } catch (error) {
+        console.error('Error processing SSE event:', error);
+      }
+    });
+
     eventSource.onerror = () => {
       eventSource.close();
     };
@@ -217,13 +254,24 @@ export function ThirdTabPanel() {
     if (!selectedProfile) return;
     const fetchDates = async () => {
       try {
-        const response = await fetch(`/api/dating?action=userDates&userId=${selectedProfile.id}`);
+        // Listings only; transcripts are loaded when a date is opened
+        const response = await fetch(`/api/dating/transcripts?userId=${selectedProfile.id}&limit=100`);
         const data = await response.json();
         setUserDates(data.dates || []);
       } catch (error) {
         setUserDates([]);
       }
     };
+
+    const fetchAnalytics = async () => {
+      try {
+        const response = await fetch(`/api/dating/transcripts?action=analytics&userId=${selectedProfile.id}`);
+        const data = await response.json();
+        setDateAnalytics(data.analytics || null);
+      } catch (error) {
+        setDateAnalytics(null);
+      }
+    };
     
     const fetchConfidenceData = async () => {
       try {
@@ -237,16 +285,18 @@ export function ThirdTabPanel() {
     
     fetchDates();
     fetchConfidenceData();
+    fetchAnalytics();
     const eventSource = new EventSource('/api/dating/stream');
     eventSource.onmessage = (event) => {
       if (event.data === 'keepalive') return;
       try {
         const payload = JSON.parse(event.data);
-        if (payload.type === 'datesUpdated' || payload.type === 'bestMatch') {
+        if (payload.type === 'dateCompleted' || payload.type === 'bestMatchFound') {
           fetchDates();
           fetchConfidenceData();
+          fetchAnalytics();
           // If best match event, also refresh best match
-          if (payload.type === 'bestMatch' && payload.agentId === selectedProfile?.id) {
+          if (payload.type === 'bestMatchFound' && payload.agentId === selectedProfile?.id) {
             fetch(`/api/dating?action=bestMatch&userId=${selectedProfile.id}`)
               .then(res => res.json())
               .then(data => {
@@ -260,11 +310,9 @@ export function ThirdTabPanel() {
       } catch (error) {
         fetchDates();
         fetchConfidenceData();
+        fetchAnalytics();
       }
     };
-    eventSource.onerror = () => {
-      eventSource.close();
-    };
     return () => eventSource.close();
   }, [selectedProfile]);
 
@@ -356,8 +404,42 @@ export function ThirdTabPanel() {
     return date.conversationHistory || date.messages || [];
   };
 
-  const openChat = (date: UserDate) => {
+  const openChat = async (date: UserDate) => {
     setSelectedDate(date);
+    if (getChatMessages(date).length > 0) return;
+    try {
+      const response = await fetch(`/api/dating?action=date&dateId=${date.id}`);
+      const data = await response.json();
+      if (data.date) {
+        setSelectedDate(current => current?.id === date.id ? { ...date, ...data.date } : current);
+      }
+    } catch (error) {
+      console.error('Error loading transcript:', error);
+    }
+  };
+
+  const searchTranscripts = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selectedProfile || !transcriptQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    try {
+      const params = new URLSearchParams({ userId: selectedProfile.id, q: transcriptQuery.trim(), limit: '20' });
+      const response = await fetch(`/api/dating/transcripts?${params}`);
+      const data = await response.json();
+      setSearchResults(data.dates || []);
+    } catch (error) {
+      console.error('Error searching transcripts:', error);
+      setSearchResults([]);
+    }
+  };
+
+  const selectProfile = (profile: UserProfile | null) => {
+    setSelectedProfile(profile);
+    setDateAnalytics(null);
+    setTranscriptQuery('');
+    setSearchResults(null);
   };
 
   const closeChat = () => setSelectedDate(null);
@@ -378,7 +460,7 @@ export function ThirdTabPanel() {
               <ProfileCard
                 key={profile.id}
                 profile={profile}
-                onClick={() => setSelectedProfile(profile)}
+                onClick={() => selectProfile(profile)}
               />
             ))}
           </div>
@@ -386,7 +468,7 @@ export function ThirdTabPanel() {
       </div>
 
       {/* Detailed Profile Dialog */}
-      <Dialog open={!!selectedProfile} onOpenChange={(open) => !open && setSelectedProfile(null)}>
+      <Dialog open={!!selectedProfile} onOpenChange={(open) => !open && selectProfile(null)}>
         <DialogContent className="max-w-[95vw] max-h-[95vh] w-[95vw] h-[95vh] overflow-y-auto overflow-x-hidden">
           {selectedProfile && (
             <>
@@ -446,6 +528,75 @@ export function ThirdTabPanel() {
 
                 <Separator />
 
+                {/* Date Stats */}
+                <div className="w-full">
+                  <h3 className="font-semibold text-lg mb-2">Date Stats</h3>
+                  {dateAnalytics && dateAnalytics.completedDates > 0 ? (
+                    <div className="space-y-2 text-sm text-muted-foreground">
+                      <div className="flex flex-wrap gap-x-6 gap-y-1">
+                        <span>{dateAnalytics.completedDates} completed</span>
+                        {dateAnalytics.averageDurationMs !== null && (
+                          <span>Avg length {Math.max(1, Math.round(dateAnalytics.averageDurationMs / 60000))} min</span>
+                        )}
+                        {dateAnalytics.averageMessagesPerDate !== null && (
+                          <span>{dateAnalytics.averageMessagesPerDate.toFixed(1)} messages per date</span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {Object.entries(dateAnalytics.sentimentDistribution)
+                          .sort((a, b) => b[1] - a[1])
+                          .map(([sentiment, count]) => (
+                            <span key={sentiment} className="px-2 py-0.5 rounded bg-muted text-xs capitalize">
+                              {sentiment} × {count}
+                            </span>
+                          ))}
+                      </div>
+                      {(dateAnalytics.topicsByUser[selectedProfile.id]?.topics.length ?? 0) > 0 && (
+                        <div>
+                          Talks most about:{' '}
+                          {dateAnalytics.topicsByUser[selectedProfile.id].topics.map(topic => topic.term).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">Stats appear after the first completed date</div>
+                  )}
+
+                  <form onSubmit={searchTranscripts} className="mt-4 flex gap-2">
+                    <input
+                      type="search"
+                      value={transcriptQuery}
+                      onChange={(event) => setTranscriptQuery(event.target.value)}
+                      placeholder="Search this user's date transcripts"
+                      className="flex-1 h-8 rounded-md border border-border bg-background px-3 text-sm"
+                    />
+                  </form>
+                  {searchResults && (
+                    <div className="mt-2 space-y-2">
+                      {searchResults.map(result => (
+                        <button
+                          key={result.id}
+                          type="button"
+                          onClick={() => openChat(result)}
+                          className="block w-full text-left border border-border rounded-md px-3 py-2 hover:bg-muted/40"
+                        >
+                          <div className="text-xs font-medium">{getOtherName(result)} • {getDateTimeText(result)}</div>
+                          {result.matches.map(match => (
+                            <div key={match.messageIndex} className="text-xs text-muted-foreground truncate">
+                              {match.senderName}: {match.snippet}
+                            </div>
+                          ))}
+                        </button>
+                      ))}
+                      {searchResults.length === 0 && (
+                        <div className="text-sm text-muted-foreground">No transcripts mention that</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
                 {/* Confidence Graph */}
                 <div className="w-full">
                   <h3 className="font-semibold text-lg mb-4">Confidence Trajectory</h3>
@@ -6,6 +6,7 @@ import { SpeedControls } from './SpeedControls';
 import { ChatPanel } from './ChatPanel';
 import { ThirdTabPanel } from './ThirdTabPanel';
 import { PredictionsPanel } from './PredictionsPanel';
+import { AdminPanel } from './AdminPanel';
 import { WeatherDisplay } from './WeatherDisplay';
 
 interface VisualizationContainerProps {
@@ -50,6 +51,12 @@ export function VisualizationContainer({ children }: VisualizationContainerProps
               >
                 Predictions
               </TabsTrigger>
+              <TabsTrigger 
+                value="admin"
+                className="rounded-t-lg rounded-b-none border-2 border-b-0 border-l-0 border-border bg-muted/30 data-[state=active]:bg-card data-[state=active]:border-b-2 data-[state=active]:border-b-card data-[state=active]:mb-[-2px] data-[state=active]:shadow-none px-4 py-2 relative z-10"
+              >
+                Admin
+              </TabsTrigger>
             </TabsList>
           </div>
           
@@ -79,6 +86,10 @@ export function VisualizationContainer({ children }: VisualizationContainerProps
             <TabsContent value="predictions" className="absolute inset-0 m-0 border-2 border-border rounded-lg shadow-lg bg-card overflow-y-auto">
               <PredictionsPanel />
             </TabsContent>
+            
+            <TabsContent value="admin" className="absolute inset-0 m-0 border-2 border-border rounded-lg shadow-lg bg-card overflow-y-auto">
+              <AdminPanel />
+            </TabsContent>
           </div>
           
           {/* Right side bar */}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { formatWeather, type WorldContext } from '@/lib/dating/worldContext';
 
 // Simple weather icons as SVG
 const WeatherIcons = {
@@ -23,36 +24,60 @@ const WeatherIcons = {
       <path d="M7 10a2 2 0 1 1 0 4 2 2 0 0 1 0-4zm10 0a2 2 0 1 1 0 4 2 2 0 0 1 0-4z" fill="currentColor" />
     </svg>
   ),
+  rain: (
+    <svg className="w-5 h-5 text-blue-400" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M7 13a4 4 0 0 1 .5-8 5 5 0 0 1 9.5 1.5A3.5 3.5 0 0 1 17 13z" opacity="0.5" />
+      <path d="M8 16l-1 3M12 16l-1 3M16 16l-1 3" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" fill="none" />
+    </svg>
+  ),
+  storm: (
+    <svg className="w-5 h-5 text-slate-500" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M7 13a4 4 0 0 1 .5-8 5 5 0 0 1 9.5 1.5A3.5 3.5 0 0 1 17 13z" />
+      <path d="M12 14l-2 4h3l-2 4" stroke="#eab308" strokeWidth="1.5" strokeLinejoin="round" fill="none" />
+    </svg>
+  ),
+  snow: (
+    <svg className="w-5 h-5 text-sky-300" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M7 13a4 4 0 0 1 .5-8 5 5 0 0 1 9.5 1.5A3.5 3.5 0 0 1 17 13z" opacity="0.6" />
+      <circle cx="8" cy="17" r="1" />
+      <circle cx="12" cy="19" r="1" />
+      <circle cx="16" cy="17" r="1" />
+    </svg>
+  ),
 };
 
-type WeatherType = 'sunny' | 'partlyCloudy' | 'cloudy';
-
-function getRandomWeather(): { type: WeatherType; temp: number } {
-  const types: WeatherType[] = ['sunny', 'partlyCloudy', 'cloudy'];
-  const type = types[Math.floor(Math.random() * types.length)];
-  // Spring/summer temperatures: 65-85°F
-  const temp = Math.floor(Math.random() * 21) + 65;
-  return { type, temp };
-}
+// Refresh from the simulation clock reported by the game
+const REFRESH_INTERVAL_MS = 30000;
 
 export function WeatherDisplay() {
-  const [weather, setWeather] = useState(getRandomWeather());
+  const [context, setContext] = useState<WorldContext | null>(null);
 
-  // Update weather every 30 seconds (optional, for demo purposes)
   useEffect(() => {
-    const interval = setInterval(() => {
-      setWeather(getRandomWeather());
-    }, 30000);
+    const fetchContext = async () => {
+      try {
+        const response = await fetch('/api/dating/world');
+        if (!response.ok) return;
+        const data = await response.json();
+        setContext(data.context);
+      } catch (error) {
+        console.error('Error fetching weather:', error);
+      }
+    };
+
+    fetchContext();
+    const interval = setInterval(fetchContext, REFRESH_INTERVAL_MS);
     return () => clearInterval(interval);
   }, []);
 
+  if (!context) return null;
+
   return (
-    <div className="flex items-center gap-2">
-      {WeatherIcons[weather.type]}
-      <span className="text-sm font-medium text-foreground">{weather.temp}°F</span>
+    <div
+      className="flex items-center gap-2"
+      title={`${context.season} ${context.timeOfDay}, ${formatWeather(context.weather)}`}
+    >
+      {WeatherIcons[context.weather.condition]}
+      <span className="text-sm font-medium text-foreground">{context.weather.temperatureF}°F</span>
     </div>
   );
 }
-
-
-
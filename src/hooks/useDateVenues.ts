@@ -0,0 +1,321 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { Pedestrian, WorldRenderState, TILE_WIDTH, TILE_HEIGHT } from '@/components/game/types';
+import { Tile } from '@/types/game';
+import { createPedestrianFromUser } from '@/components/game/pedestrianSystem';
+import { findDateVenues, findResidentialBuildings } from '@/components/game/gridFinders';
+import { findPathOnRoads, getDirectionToTile, gridToScreen } from '@/components/game/utils';
+import { UserProfile } from '@/lib/userDatabase';
+import type { DateVenue } from '@/lib/dating/venues';
+import type { DateEventType } from '@/lib/dating/dateEvents';
+
+interface VenueDate {
+  dateId: string;
+  status: string;
+  user1Id: string;
+  user2Id: string;
+  user1Name: string;
+  user2Name: string;
+  venue: DateVenue;
+}
+
+// Pixels between a couple standing together at the venue
+const COUPLE_SPACING = 8;
+// Stream events that change which couples should be at a venue
+const VENUE_SYNC_EVENTS = new Set<DateEventType | 'connected'>(['connected', 'dateScheduled', 'dateStarted', 'dateSummarizing', 'dateCompleted', 'dateCancelled']);
+
+function setPedestrianPath(ped: Pedestrian, path: { x: number; y: number }[]) {
+  ped.path = path;
+  ped.pathIndex = 0;
+  ped.progress = 0;
+  ped.tileX = path[0].x;
+  ped.tileY = path[0].y;
+  if (path.length > 1) {
+    const dir = getDirectionToTile(path[0].x, path[0].y, path[1].x, path[1].y);
+    if (dir) ped.direction = dir;
+  }
+}
+
+function resetActivity(ped: Pedestrian) {
+  ped.activity = 'none';
+  ped.activityProgress = 0;
+  ped.activityOffsetX = 0;
+  ped.activityOffsetY = 0;
+  ped.socialTarget = null;
+  ped.buildingEntryProgress = 0;
+  ped.hasBall = false;
+}
+
+/**
+ * Dates happen at real buildings: report the city's venues to the dating
+ * service, walk both user characters to their date's venue, keep them
+ * together there until it ends, and mark the venue on the map.
+ */
+export function useDateVenues(
+  worldStateRef: React.MutableRefObject<WorldRenderState>,
+  pedestriansRef: React.MutableRefObject<Pedestrian[]>,
+  pedestrianIdRef: React.MutableRefObject<number>,
+  grid: Tile[][] | null,
+  gridSize: number
+) {
+  const datesRef = useRef<Map<string, VenueDate>>(new Map());
+  const usersRef = useRef<Map<string, UserProfile>>(new Map());
+  const reportedVenuesRef = useRef<string>('');
+  const animTimeRef = useRef(0);
+
+  // Report venue buildings whenever the set of them changes
+  useEffect(() => {
+    if (!grid || gridSize <= 0) return;
+
+    const venues = findDateVenues(grid, gridSize);
+    const signature = venues.map(v => `${v.x},${v.y},${v.buildingType}`).join('|');
+    if (signature === reportedVenuesRef.current) return;
+    reportedVenuesRef.current = signature;
+
+    fetch('/api/dating/venues', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ venues })
+    }).catch(error => {
+      console.error('Error reporting date venues:', error);
+      reportedVenuesRef.current = '';
+    });
+  }, [grid, gridSize]);
+
+  const getUser = useCallback(async (userId: string): Promise<UserProfile | null> => {
+    if (!usersRef.current.has(userId)) {
+      try {
+        const response = await fetch('/api/users/active');
+        if (response.ok) {
+          const users: UserProfile[] = await response.json();
+          users.forEach(user => usersRef.current.set(user.id, user));
+        }
+      } catch (error) {
+        console.error('Error loading users for date venues:', error);
+      }
+    }
+    return usersRef.current.get(userId) || null;
+  }, []);
+
+  const routeToVenue = useCallback(async (userId: string, date: VenueDate) => {
+    const { grid: currentGrid, gridSize: currentGridSize } = worldStateRef.current;
+    if (!currentGrid || currentGridSize <= 0) return;
+
+    const { venue } = date;
+    const ped = pedestriansRef.current.find(p => p.userId === userId);
+    if (ped?.dateId === date.dateId) return;
+
+    if (ped) {
+      const path = findPathOnRoads(currentGrid, currentGridSize, ped.tileX, ped.tileY, venue.x, venue.y);
+      if (!path || path.length === 0) return;
+
+      resetActivity(ped);
+      setPedestrianPath(ped, path);
+      ped.destX = venue.x;
+      ped.destY = venue.y;
+      ped.returningHome = false;
+      ped.dateId = date.dateId;
+      if (ped.state !== 'spawning') {
+        ped.state = 'walking';
+      }
+      return;
+    }
+
+    // The character already went home, so send them out again
+    const user = await getUser(userId);
+    const residentials = findResidentialBuildings(currentGrid, currentGridSize);
+    if (!user || residentials.length === 0) return;
+    if (pedestriansRef.current.some(p => p.userId === userId)) return;
+
+    const home = residentials[Math.floor(Math.random() * residentials.length)];
+    const path = findPathOnRoads(currentGrid, currentGridSize, home.x, home.y, venue.x, venue.y);
+    if (!path || path.length === 0) return;
+
+    const direction = path.length > 1 ? getDirectionToTile(path[0].x, path[0].y, path[1].x, path[1].y) : null;
+    const newPed = createPedestrianFromUser(
+      pedestrianIdRef.current++,
+      user.id,
+      user,
+      home.x,
+      home.y,
+      venue.x,
+      venue.y,
+      venue.category === 'park' || venue.category === 'waterfront' ? 'park' : 'commercial',
+      path,
+      0,
+      direction || 'south'
+    );
+    newPed.state = 'walking';
+    newPed.spawnProgress = undefined;
+    newPed.dateId = date.dateId;
+    pedestriansRef.current.push(newPed);
+  }, [worldStateRef, pedestriansRef, pedestrianIdRef, getUser]);
+
+  const releasePedestrian = useCallback((ped: Pedestrian) => {
+    const { grid: currentGrid, gridSize: currentGridSize } = worldStateRef.current;
+    ped.dateId = undefined;
+    resetActivity(ped);
+    ped.returningHome = true;
+    ped.state = 'walking';
+
+    const path = currentGrid && currentGridSize > 0
+      ? findPathOnRoads(currentGrid, currentGridSize, ped.tileX, ped.tileY, ped.homeX, ped.homeY)
+      : null;
+    setPedestrianPath(ped, path && path.length > 0 ? path : [{ x: ped.tileX, y: ped.tileY }]);
+  }, [worldStateRef]);
+
+  // Once both partners are waiting at the venue, stand them together
+  const seatArrivedCouples = useCallback(() => {
+    for (const date of datesRef.current.values()) {
+      const ped1 = pedestriansRef.current.find(p => p.userId === date.user1Id && p.dateId === date.dateId);
+      const ped2 = pedestriansRef.current.find(p => p.userId === date.user2Id && p.dateId === date.dateId);
+      if (!ped1 || !ped2 || ped1.state !== 'idle' || ped2.state !== 'idle') continue;
+
+      // Meet on one side of the venue even if they came from different roads
+      ped2.tileX = ped1.tileX;
+      ped2.tileY = ped1.tileY;
+      ped2.progress = ped1.progress;
+      ped2.direction = ped1.direction;
+      for (const [ped, partner, side] of [[ped1, ped2, -1], [ped2, ped1, 1]] as const) {
+        ped.state = 'socializing';
+        ped.socialTarget = partner.id;
+        ped.activityProgress = 0;
+        ped.activityDuration = Infinity;
+        ped.activityOffsetX = side * COUPLE_SPACING;
+        ped.activityOffsetY = 0;
+      }
+    }
+  }, [pedestriansRef]);
+
+  const syncDates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/dating/venues');
+      if (!response.ok) return;
+      const data: { dates: VenueDate[] } = await response.json();
+
+      const activeDates = new Map(
+        data.dates.filter(date => date.status === 'active').map(date => [date.dateId, date])
+      );
+      for (const ped of pedestriansRef.current) {
+        if (ped.dateId && !activeDates.has(ped.dateId)) {
+          releasePedestrian(ped);
+        }
+      }
+      datesRef.current = activeDates;
+
+      for (const date of activeDates.values()) {
+        await routeToVenue(date.user1Id, date);
+        await routeToVenue(date.user2Id, date);
+      }
+    } catch (error) {
+      console.error('Error syncing date venues:', error);
+    }
+  }, [pedestriansRef, releasePedestrian, routeToVenue]);
+
+  useEffect(() => {
+    let syncing = false;
+    let syncAgain = false;
+    const requestSync = async () => {
+      // Date updates arrive with every message; coalesce them
+      if (syncing) {
+        syncAgain = true;
+        return;
+      }
+      syncing = true;
+      do {
+        syncAgain = false;
+        await syncDates();
+      } while (syncAgain);
+      syncing = false;
+    };
+
+    requestSync();
+
+    const eventSource = new EventSource('/api/dating/stream');
+    eventSource.onmessage = (event) => {
+      if (event.data === 'keepalive') return;
+      try {
+        const payload = JSON.parse(event.data);
+        if (VENUE_SYNC_EVENTS.has(payload.type)) {
+          requestSync();
+        }
+      } catch (error) {
+        console.error('Error parsing dating update:', error);
+      }
+    };
+
+    const seatInterval = setInterval(seatArrivedCouples, 1000);
+
+    return () => {
+      eventSource.close();
+      clearInterval(seatInterval);
+    };
+  }, [syncDates, seatArrivedCouples]);
+
+  /**
+   * Draw a heart and the couple's names over every venue hosting a date
+   */
+  const drawDateVenues = useCallback((ctx: CanvasRenderingContext2D, delta: number) => {
+    const { offset: currentOffset, zoom: currentZoom } = worldStateRef.current;
+    if (datesRef.current.size === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    animTimeRef.current += delta;
+    const pulse = Math.sin(animTimeRef.current * 3) * 0.15 + 0.85;
+
+    ctx.save();
+    ctx.scale(dpr * currentZoom, dpr * currentZoom);
+    ctx.translate(currentOffset.x / currentZoom, currentOffset.y / currentZoom);
+
+    for (const date of datesRef.current.values()) {
+      const { screenX, screenY } = gridToScreen(date.venue.x, date.venue.y, 0, 0);
+      const centerX = screenX + TILE_WIDTH / 2;
+      const centerY = screenY + TILE_HEIGHT / 2;
+
+      // Highlight the venue tile
+      ctx.beginPath();
+      ctx.moveTo(centerX, screenY);
+      ctx.lineTo(screenX + TILE_WIDTH, centerY);
+      ctx.lineTo(centerX, screenY + TILE_HEIGHT);
+      ctx.lineTo(screenX, centerY);
+      ctx.closePath();
+      ctx.fillStyle = `rgba(236, 72, 153, ${0.2 * pulse})`;
+      ctx.fill();
+      ctx.strokeStyle = `rgba(236, 72, 153, ${0.8 * pulse})`;
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+
+      // Heart above the venue
+      const heartY = centerY - 30;
+      const size = 7 * pulse;
+      ctx.beginPath();
+      ctx.moveTo(centerX, heartY + size);
+      ctx.bezierCurveTo(centerX - size * 1.6, heartY - size * 0.2, centerX - size * 0.8, heartY - size * 1.4, centerX, heartY - size * 0.5);
+      ctx.bezierCurveTo(centerX + size * 0.8, heartY - size * 1.4, centerX + size * 1.6, heartY - size * 0.2, centerX, heartY + size);
+      ctx.fillStyle = '#ec4899';
+      ctx.fill();
+
+      // Speech bubble with the couple and the venue
+      const label = `${date.user1Name} & ${date.user2Name} · ${date.venue.name}`;
+      ctx.font = '6px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      const labelWidth = ctx.measureText(label).width + 8;
+      const labelY = heartY - 14;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+      ctx.beginPath();
+      ctx.roundRect(centerX - labelWidth / 2, labelY - 5, labelWidth, 10, 3);
+      ctx.fill();
+      ctx.beginPath();
+      ctx.moveTo(centerX - 3, labelY + 5);
+      ctx.lineTo(centerX, labelY + 8);
+      ctx.lineTo(centerX + 3, labelY + 5);
+      ctx.fill();
+      ctx.fillStyle = '#831843';
+      ctx.fillText(label, centerX, labelY);
+    }
+
+    ctx.restore();
+  }, [worldStateRef]);
+
+  return { drawDateVenues };
+}
@@ -179,6 +179,37 @@ export function useUserCharacters(
       }
     };
 
+    // Profile edits and photo analysis change how a character looks; keep the
+    // one walking around the city in step
+    eventSource.addEventListener('userUpdated', (event) => {
+      try {
+        const user: UserProfile = JSON.parse((event as MessageEvent).data);
+        const ped = pedestriansRef.current.find(p => p.userId === user.id);
+        if (!ped) return;
+        ped.name = user.name;
+        ped.skinColor = user.skinColor;
+        ped.shirtColor = user.shirtColor;
+        ped.pantsColor = user.pantsColor;
+        ped.hasHat = user.hasHat;
+        ped.hatColor = user.hatColor || '#000000';
+        ped.hairColor = user.hairColor;
+        ped.hasGlasses = user.hasGlasses ?? false;
+        ped.hasBag = user.hasBag ?? false;
+      } catch (error) {
+        console.error('[SSE] Error processing user update:', error);
+      }
+    });
+
+    eventSource.addEventListener('userDeleted', (event) => {
+      try {
+        const { userId } = JSON.parse((event as MessageEvent).data) as { userId: string };
+        pedestriansRef.current = pedestriansRef.current.filter(p => p.userId !== userId);
+        spawnedUserIdsRef.current.delete(userId);
+      } catch (error) {
+        console.error('[SSE] Error processing user deletion:', error);
+      }
+    });
+
     eventSource.onerror = (error) => {
       console.error('SSE connection error:', error);
       console.log('SSE readyState:', eventSource.readyState);
@@ -187,7 +218,7 @@ export function useUserCharacters(
     return () => {
       eventSource.close();
     };
-  }, [grid, gridSize, spawnUserCharacter]);
+  }, [grid, gridSize, spawnUserCharacter, pedestriansRef]);
 }
 
 
@@ -0,0 +1,80 @@
+import { useEffect } from 'react';
+import { GameState } from '@/types/game';
+import { findDateVenues } from '@/components/game/gridFinders';
+import type { NeighborhoodStats } from '@/lib/dating/worldContext';
+
+// How often the simulation clock and neighborhood stats are sent to the dating service
+const REPORT_INTERVAL_MS = 15000;
+// Tiles in each direction that count as a venue's neighborhood
+const NEIGHBORHOOD_RADIUS = 2;
+
+/**
+ * Average land value, crime and pollution around a tile. Tiles don't track
+ * crime directly, so it follows police coverage the same way crime incidents do.
+ */
+function getNeighborhoodStats(state: GameState, centerX: number, centerY: number): NeighborhoodStats {
+  let landValue = 0;
+  let crime = 0;
+  let pollution = 0;
+  let count = 0;
+
+  for (let y = centerY - NEIGHBORHOOD_RADIUS; y <= centerY + NEIGHBORHOOD_RADIUS; y++) {
+    for (let x = centerX - NEIGHBORHOOD_RADIUS; x <= centerX + NEIGHBORHOOD_RADIUS; x++) {
+      const tile = state.grid[y]?.[x];
+      if (!tile) continue;
+      const policeCoverage = state.services.police[y]?.[x] || 0;
+      landValue += tile.landValue;
+      crime += Math.max(tile.crime, 100 - policeCoverage);
+      pollution += tile.pollution;
+      count++;
+    }
+  }
+
+  const average = (total: number) => Math.round(Math.max(0, Math.min(100, total / Math.max(1, count))));
+  return {
+    landValue: average(landValue),
+    crime: average(crime),
+    pollution: average(pollution)
+  };
+}
+
+/**
+ * Keep the dating service's view of the city (clock, weather inputs and
+ * venue neighborhoods) in step with the running simulation.
+ */
+export function useWorldContextSync(latestStateRef: React.RefObject<GameState>) {
+  useEffect(() => {
+    const report = async () => {
+      const state = latestStateRef.current;
+      if (!state || !state.grid || state.gridSize <= 0) return;
+
+      const neighborhoods: Record<string, NeighborhoodStats> = {};
+      for (const venue of findDateVenues(state.grid, state.gridSize)) {
+        neighborhoods[`${venue.x},${venue.y}`] = getNeighborhoodStats(state, venue.x, venue.y);
+      }
+
+      try {
+        await fetch('/api/dating/world', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            clock: {
+              cityName: state.cityName,
+              year: state.year,
+              month: state.month,
+              day: state.day,
+              hour: state.hour
+            },
+            neighborhoods
+          })
+        });
+      } catch (error) {
+        console.error('Error reporting world context:', error);
+      }
+    };
+
+    report();
+    const interval = setInterval(report, REPORT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [latestStateRef]);
+}
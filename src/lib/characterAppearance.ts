@@ -0,0 +1,249 @@
+/**
+ * How a user's character looks in the city. The look generated at sign-up is
+ * the base, colors and accessories read from their photo replace it, and
+ * anything the user sets on their profile wins over both.
+ */
+
+export interface CharacterAppearance {
+  skinColor: string;
+  shirtColor: string;
+  pantsColor: string;
+  hasHat: boolean;
+  hatColor: string | null;
+  hairColor?: string;
+  hasGlasses?: boolean;
+  hasBag?: boolean;
+}
+
+/**
+ * Appearance the user picked themselves
+ */
+export interface AppearanceOverrides {
+  skinColor?: string;
+  shirtColor?: string;
+  pantsColor?: string;
+  hairColor?: string;
+  hasHat?: boolean;
+  hatColor?: string;
+  hasGlasses?: boolean;
+  hasBag?: boolean;
+}
+
+// A change to the overrides; null clears a field back to the photo or generated look
+export type AppearanceOverridesPatch = { [K in keyof AppearanceOverrides]?: AppearanceOverrides[K] | null };
+
+/**
+ * What a vision backend saw of the person's look
+ */
+export interface PhotoAppearance {
+  hairColor?: string;
+  shirtColor?: string;
+  pantsColor?: string;
+  // Color of a hat or other headwear; null when they aren't wearing one
+  hatColor?: string | null;
+  accessories?: string[];
+}
+
+const COLOR_FIELDS = ['skinColor', 'shirtColor', 'pantsColor', 'hairColor', 'hatColor'] as const;
+const FLAG_FIELDS = ['hasHat', 'hasGlasses', 'hasBag'] as const;
+
+export const APPEARANCE_OVERRIDE_FIELDS: Array<keyof AppearanceOverrides> = [...COLOR_FIELDS, ...FLAG_FIELDS];
+
+// Color words vision models and users tend to use, clothing and hair alike
+const NAMED_COLORS: Record<string, string> = {
+  'black': '#1a1a1a',
+  'white': '#f5f5f5',
+  'gray': '#6b7280',
+  'grey': '#6b7280',
+  'charcoal': '#36454f',
+  'silver': '#c0c0c0',
+  'red': '#dc2626',
+  'maroon': '#7f1d1d',
+  'burgundy': '#800020',
+  'orange': '#f97316',
+  'yellow': '#eab308',
+  'gold': '#d4a017',
+  'green': '#16a34a',
+  'olive': '#556b2f',
+  'teal': '#0d9488',
+  'blue': '#2563eb',
+  'light blue': '#93c5fd',
+  'navy': '#1e3a8a',
+  'denim': '#3b5b8c',
+  'purple': '#7c3aed',
+  'pink': '#ec4899',
+  'brown': '#6b4226',
+  'dark brown': '#3b2416',
+  'light brown': '#8b6b4a',
+  'tan': '#d2b48c',
+  'beige': '#d6c6a5',
+  'khaki': '#c3b091',
+  'cream': '#f5ecd7',
+  'blonde': '#e6c78a',
+  'blond': '#e6c78a',
+  'platinum': '#e5e4e2',
+  'auburn': '#922724',
+  'ginger': '#b0502a',
+};
+
+const HAT_WORDS = ['hat', 'cap', 'beanie', 'beret', 'fedora', 'headwear'];
+const GLASSES_WORDS = ['glasses', 'sunglasses', 'spectacles', 'eyewear'];
+const BAG_WORDS = ['bag', 'backpack', 'purse', 'handbag', 'tote', 'briefcase'];
+
+// Hat color when a photo shows a hat without saying what color it is
+const DEFAULT_HAT_COLOR = '#1f2937';
+
+/**
+ * A #rrggbb color from a hex string or a common color name, or null when
+ * the value isn't recognizable as a color
+ */
+export function normalizeColor(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+
+  const hex = text.match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return `#${digits}`;
+  }
+
+  const name = text.replace(/\bhair\b/g, '').replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (NAMED_COLORS[name]) return NAMED_COLORS[name];
+  // "dark navy", "faded denim": fall back to the last word
+  const lastWord = name.split(' ').pop() || '';
+  return NAMED_COLORS[lastWord] || null;
+}
+
+function mentions(accessories: string[], words: string[]): boolean {
+  return accessories.some(accessory => words.some(word => accessory.includes(word)));
+}
+
+/**
+ * Read the appearance block of a vision model's answer. Unrecognizable
+ * colors are dropped; undefined when nothing usable is left.
+ */
+export function parsePhotoAppearance(raw: unknown): PhotoAppearance | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const record = raw as Record<string, unknown>;
+
+  const appearance: PhotoAppearance = {};
+  for (const field of ['hairColor', 'shirtColor', 'pantsColor'] as const) {
+    const color = normalizeColor(record[field]);
+    if (color) appearance[field] = color;
+  }
+  if (record.hatColor === null || record.hatColor === 'none') {
+    appearance.hatColor = null;
+  } else {
+    const hatColor = normalizeColor(record.hatColor);
+    if (hatColor) appearance.hatColor = hatColor;
+  }
+  if (Array.isArray(record.accessories)) {
+    const accessories = record.accessories
+      .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+      .map(item => item.trim().toLowerCase());
+    if (accessories.length > 0) appearance.accessories = accessories;
+  }
+
+  return Object.keys(appearance).length > 0 ? appearance : undefined;
+}
+
+/**
+ * Check a requested change to a user's appearance overrides. Colors may be
+ * hex or common color names and come back as hex.
+ */
+export function validateAppearanceOverrides(value: unknown): { patch: AppearanceOverridesPatch } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Invalid appearance. Must be an object' };
+  }
+  const record = value as Record<string, unknown>;
+  const unknownFields = Object.keys(record).filter(field => !APPEARANCE_OVERRIDE_FIELDS.includes(field as keyof AppearanceOverrides));
+  if (unknownFields.length > 0) {
+    return { error: `Unknown appearance fields: ${unknownFields.join(', ')}. Allowed: ${APPEARANCE_OVERRIDE_FIELDS.join(', ')}` };
+  }
+
+  const patch: AppearanceOverridesPatch = {};
+  for (const field of COLOR_FIELDS) {
+    if (record[field] === undefined) continue;
+    if (record[field] === null) {
+      patch[field] = null;
+      continue;
+    }
+    const color = normalizeColor(record[field]);
+    if (!color) {
+      return { error: `Invalid appearance.${field}. Must be a hex color like #3b82f6 or a color name` };
+    }
+    patch[field] = color;
+  }
+  for (const field of FLAG_FIELDS) {
+    if (record[field] === undefined) continue;
+    if (record[field] !== null && typeof record[field] !== 'boolean') {
+      return { error: `Invalid appearance.${field}. Must be true, false or null` };
+    }
+    patch[field] = record[field] as boolean | null;
+  }
+  return { patch };
+}
+
+/**
+ * Apply a patch to stored overrides. Returns undefined once none are left.
+ */
+export function mergeAppearanceOverrides(
+  overrides: AppearanceOverrides | undefined,
+  patch: AppearanceOverridesPatch
+): AppearanceOverrides | undefined {
+  const merged: Record<string, unknown> = { ...overrides };
+  for (const [field, value] of Object.entries(patch)) {
+    if (value === null) delete merged[field];
+    else if (value !== undefined) merged[field] = value;
+  }
+  return Object.keys(merged).length > 0 ? merged as AppearanceOverrides : undefined;
+}
+
+/**
+ * Layer the photo's colors and accessories, then the user's overrides, over
+ * the generated look
+ */
+export function resolveAppearance(
+  base: CharacterAppearance,
+  photo?: PhotoAppearance,
+  overrides?: AppearanceOverrides
+): CharacterAppearance {
+  const appearance: CharacterAppearance = { ...base };
+
+  if (photo) {
+    const accessories = photo.accessories || [];
+    if (photo.hairColor) appearance.hairColor = photo.hairColor;
+    if (photo.shirtColor) appearance.shirtColor = photo.shirtColor;
+    if (photo.pantsColor) appearance.pantsColor = photo.pantsColor;
+    if (typeof photo.hatColor === 'string') {
+      appearance.hasHat = true;
+      appearance.hatColor = photo.hatColor;
+    } else if (mentions(accessories, HAT_WORDS)) {
+      appearance.hasHat = true;
+      appearance.hatColor = appearance.hatColor || DEFAULT_HAT_COLOR;
+    } else if (photo.hatColor === null) {
+      appearance.hasHat = false;
+      appearance.hatColor = null;
+    }
+    if (mentions(accessories, GLASSES_WORDS)) appearance.hasGlasses = true;
+    if (mentions(accessories, BAG_WORDS)) appearance.hasBag = true;
+  }
+
+  if (overrides) {
+    for (const field of ['skinColor', 'shirtColor', 'pantsColor', 'hairColor'] as const) {
+      if (overrides[field]) appearance[field] = overrides[field];
+    }
+    if (overrides.hasGlasses !== undefined) appearance.hasGlasses = overrides.hasGlasses;
+    if (overrides.hasBag !== undefined) appearance.hasBag = overrides.hasBag;
+    if (overrides.hatColor) {
+      appearance.hatColor = overrides.hatColor;
+      appearance.hasHat = overrides.hasHat ?? true;
+    } else if (overrides.hasHat !== undefined) {
+      appearance.hasHat = overrides.hasHat;
+      appearance.hatColor = overrides.hasHat ? appearance.hatColor || DEFAULT_HAT_COLOR : null;
+    }
+  }
+
+  if (!appearance.hasHat) appearance.hatColor = null;
+  return appearance;
+}
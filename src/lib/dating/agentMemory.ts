@@ -0,0 +1,292 @@
+import path from 'path';
+import type { DateSession } from './orchestrator';
+import { JsonFileStore } from './storage/jsonFileStore';
+import { getUserById } from '@/lib/userDatabase';
+
+/**
+ * Persistent per-agent memory stored in data/dating/memories/<userId>.json.
+ * Updated after every completed date and condensed into the system prompt
+ * so agents carry what they learned into their next dates.
+ */
+
+export interface AgentPersonality {
+  traits: string[];
+  speakingStyle: string;
+  interests: string[];
+  quirks: string[];
+  catchphrases: string[];
+}
+
+export type DateOutcome = 'positive' | 'neutral' | 'negative';
+
+export interface RelationshipHistoryEntry {
+  dateId: string;
+  partnerId: string;
+  partnerName: string;
+  date: string;
+  outcome: DateOutcome;
+  sentiment?: string;
+  compatibilityRating?: number;
+  confidence?: number;
+  summary?: string;
+  whatWorked: string[];
+}
+
+export interface AgentExperience {
+  totalDates: number;
+  relationshipHistory: RelationshipHistoryEntry[];
+  // Partner trait -> running score (+1 per good date, -1 per bad one)
+  learnedPreferences: Record<string, number>;
+  // Lines of this agent's that landed well with a partner
+  conversationPatterns: string[];
+  // Sentiment label -> number of dates that ended that way
+  emotionalResponses: Record<string, number>;
+  // Partner id -> stage label
+  relationshipStage: Record<string, string>;
+}
+
+export interface AgentMemory {
+  userId: string;
+  userName: string;
+  personality: AgentPersonality;
+  experience: AgentExperience;
+  updatedAt: string;
+}
+
+const MAX_HISTORY_ENTRIES = 50;
+const MAX_CONVERSATION_PATTERNS = 10;
+const PROMPT_RECENT_DATES = 3;
+const PROMPT_PREFERENCES = 4;
+
+const POSITIVE_REACTION = /\b(love|haha|ha|lol|amazing|fascinating|same|agree|exactly|fun|wow|great|nice)\b|!/i;
+
+function createEmptyMemory(userId: string, userName: string): AgentMemory {
+  return {
+    userId,
+    userName,
+    personality: {
+      traits: [],
+      speakingStyle: '',
+      interests: [],
+      quirks: [],
+      catchphrases: []
+    },
+    experience: {
+      totalDates: 0,
+      relationshipHistory: [],
+      learnedPreferences: {},
+      conversationPatterns: [],
+      emotionalResponses: {},
+      relationshipStage: {}
+    },
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Fill in any fields missing from hand-written or older memory files
+ */
+function normalizeMemory(raw: Partial<AgentMemory>, userId: string, userName: string): AgentMemory {
+  const empty = createEmptyMemory(userId, raw.userName || userName);
+  return {
+    ...empty,
+    ...raw,
+    userId,
+    personality: { ...empty.personality, ...raw.personality },
+    experience: {
+      ...empty.experience,
+      ...raw.experience,
+      relationshipHistory: Array.isArray(raw.experience?.relationshipHistory) ? raw.experience.relationshipHistory : [],
+      conversationPatterns: Array.isArray(raw.experience?.conversationPatterns) ? raw.experience.conversationPatterns : []
+    }
+  };
+}
+
+function classifyOutcome(dateSession: DateSession): DateOutcome {
+  const confidence = dateSession.confidence
+    ?? (dateSession.compatibilityRating !== undefined ? dateSession.compatibilityRating / 10 : 0.5);
+  if (confidence >= 0.65) return 'positive';
+  if (confidence <= 0.4) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Own messages that the partner reacted warmly to in their next reply
+ */
+function findWhatWorked(dateSession: DateSession, userId: string): string[] {
+  const lines: string[] = [];
+  const messages = dateSession.messages;
+  for (let i = 0; i < messages.length - 1; i++) {
+    const own = messages[i];
+    const reply = messages[i + 1];
+    if (own.sender !== userId || reply.sender === userId) continue;
+    if (!own.message.trim() || !POSITIVE_REACTION.test(reply.message)) continue;
+    lines.push(own.message.length > 140 ? `${own.message.slice(0, 137)}...` : own.message);
+  }
+  return lines.slice(0, 2);
+}
+
+class AgentMemoryStore {
+  private memoryDir = path.join(process.cwd(), 'data', 'dating', 'memories');
+  private cache: Map<string, AgentMemory> = new Map();
+  // One store per agent so saves and deletes of the same file stay in order
+  private stores: Map<string, JsonFileStore<AgentMemory>> = new Map();
+
+  private getStore(userId: string): JsonFileStore<AgentMemory> {
+    let store = this.stores.get(userId);
+    if (!store) {
+      store = new JsonFileStore<AgentMemory>(path.join(this.memoryDir, `${path.basename(userId)}.json`), `memory for ${userId}`);
+      this.stores.set(userId, store);
+    }
+    return store;
+  }
+
+  /**
+   * Load an agent's memory, creating an empty one if no file exists yet
+   */
+  getMemory(userId: string, userName: string = userId): AgentMemory {
+    const cached = this.cache.get(userId);
+    if (cached) return cached;
+
+    const raw = this.getStore(userId).read();
+    const memory = raw ? normalizeMemory(raw, userId, userName) : createEmptyMemory(userId, userName);
+    this.cache.set(userId, memory);
+    return memory;
+  }
+
+  async saveMemory(memory: AgentMemory): Promise<void> {
+    memory.updatedAt = new Date().toISOString();
+    this.cache.set(memory.userId, memory);
+    await this.getStore(memory.userId).write(memory);
+  }
+
+  /**
+   * Forget an agent entirely, e.g. when its user deletes their profile
+   */
+  async deleteMemory(userId: string): Promise<void> {
+    this.cache.delete(userId);
+    await this.getStore(userId).remove();
+  }
+
+  /**
+   * Update both participants' memories from a completed date
+   */
+  async recordDate(dateSession: DateSession): Promise<void> {
+    if (dateSession.status !== 'completed') return;
+
+    const participants = [
+      { userId: dateSession.user1Id, userName: dateSession.user1Name, partnerId: dateSession.user2Id, partnerName: dateSession.user2Name },
+      { userId: dateSession.user2Id, userName: dateSession.user2Name, partnerId: dateSession.user1Id, partnerName: dateSession.user1Name }
+    ];
+
+    for (const participant of participants) {
+      try {
+        await this.recordDateForParticipant(dateSession, participant);
+      } catch (error) {
+        console.error(`Failed to update memory for ${participant.userId}:`, error);
+      }
+    }
+  }
+
+  private async recordDateForParticipant(
+    dateSession: DateSession,
+    participant: { userId: string; userName: string; partnerId: string; partnerName: string }
+  ) {
+    const memory = this.getMemory(participant.userId, participant.userName);
+    const { experience } = memory;
+
+    if (experience.relationshipHistory.some(entry => entry.dateId === dateSession.id)) return;
+
+    const outcome = classifyOutcome(dateSession);
+    const whatWorked = findWhatWorked(dateSession, participant.userId);
+
+    experience.totalDates += 1;
+    if (dateSession.stageTransition) {
+      experience.relationshipStage[participant.partnerId] = dateSession.stageTransition.to;
+    }
+    experience.relationshipHistory.push({
+      dateId: dateSession.id,
+      partnerId: participant.partnerId,
+      partnerName: participant.partnerName,
+      date: dateSession.endTime.toISOString(),
+      outcome,
+      sentiment: dateSession.sentiment,
+      compatibilityRating: dateSession.compatibilityRating,
+      confidence: dateSession.confidence,
+      summary: dateSession.summary,
+      whatWorked
+    });
+    experience.relationshipHistory = experience.relationshipHistory.slice(-MAX_HISTORY_ENTRIES);
+
+    if (outcome !== 'negative' && whatWorked.length > 0) {
+      experience.conversationPatterns = [
+        ...experience.conversationPatterns.filter(line => !whatWorked.includes(line)),
+        ...whatWorked
+      ].slice(-MAX_CONVERSATION_PATTERNS);
+    }
+
+    const sentiment = dateSession.sentiment || 'Neutral';
+    experience.emotionalResponses[sentiment] = (experience.emotionalResponses[sentiment] || 0) + 1;
+
+    const delta = outcome === 'positive' ? 1 : outcome === 'negative' ? -1 : 0;
+    if (delta !== 0) {
+      for (const trait of await this.getPartnerTraits(participant.partnerId, participant.partnerName)) {
+        experience.learnedPreferences[trait] = (experience.learnedPreferences[trait] || 0) + delta;
+      }
+    }
+
+    // Deleted while the partner's traits were being looked up
+    if (this.cache.get(participant.userId) !== memory) return;
+    await this.saveMemory(memory);
+  }
+
+  private async getPartnerTraits(partnerId: string, partnerName: string): Promise<string[]> {
+    const partnerMemory = this.getMemory(partnerId, partnerName);
+    const partner = await getUserById(partnerId);
+    const traits = [
+      ...partnerMemory.personality.traits,
+      ...(partner?.photoAnalysis?.combinedTraits || [])
+    ];
+    return [...new Set(traits.map(trait => trait.toLowerCase().trim()).filter(Boolean))];
+  }
+}
+
+/**
+ * Condense an agent's memory into a short prompt block. Returns an empty
+ * string for agents with no dating history yet.
+ */
+export function buildMemoryPromptBlock(memory: AgentMemory, partnerId?: string): string {
+  const { experience } = memory;
+  if (experience.totalDates === 0) return '';
+
+  const lines: string[] = [`- You've been on ${experience.totalDates} date${experience.totalDates === 1 ? '' : 's'} so far.`];
+
+  const recent = experience.relationshipHistory.slice(-PROMPT_RECENT_DATES).reverse();
+  for (const entry of recent) {
+    const feeling = entry.outcome === 'positive' ? 'went well' : entry.outcome === 'negative' ? 'did not go well' : 'was so-so';
+    lines.push(`- Your date with ${entry.partnerName} ${feeling}${entry.summary ? `: ${entry.summary}` : '.'}`);
+  }
+
+  if (partnerId) {
+    const previous = experience.relationshipHistory.filter(entry => entry.partnerId === partnerId);
+    if (previous.length > 0) {
+      const last = previous[previous.length - 1];
+      lines.push(`- You have met today's date before (${previous.length} time${previous.length === 1 ? '' : 's'}); last time it ${last.outcome === 'positive' ? 'went well' : last.outcome === 'negative' ? 'did not go well' : 'was so-so'}. Pick up where you left off rather than re-introducing yourself.`);
+    }
+  }
+
+  const preferences = Object.entries(experience.learnedPreferences).sort((a, b) => b[1] - a[1]);
+  const liked = preferences.filter(([, score]) => score > 0).slice(0, PROMPT_PREFERENCES).map(([trait]) => trait);
+  const disliked = preferences.filter(([, score]) => score < 0).slice(-PROMPT_PREFERENCES).map(([trait]) => trait);
+  if (liked.length > 0) lines.push(`- You tend to click with people who are ${liked.join(', ')}.`);
+  if (disliked.length > 0) lines.push(`- You've struggled with people who are ${disliked.join(', ')}.`);
+
+  const patterns = experience.conversationPatterns.slice(-2);
+  if (patterns.length > 0) {
+    lines.push(`- Things you've said that landed well: ${patterns.map(line => `"${line}"`).join(' ')}`);
+  }
+
+  return `YOUR DATING MEMORIES (private - let them shape you, never recite them):\n${lines.join('\n')}`;
+}
+
+export const agentMemoryStore = new AgentMemoryStore();
@@ -1,4 +1,21 @@
 import { datingEventBus, DateSession } from './orchestrator';
+import type { RelationshipStage } from './relationshipProgression';
+import { dateEventLog } from './dateEvents';
+
+// The relationship stage is read from the dates themselves (where the last
+// test date left the pair), so a match found once stays found however the
+// relationship moves on
+export interface BestMatchResult {
+  isBestMatch: boolean;
+  consecutiveStable: number;
+  testDates: number;
+  stableRange?: { min: number; max: number };
+  relationshipStage?: RelationshipStage;
+}
+
+function stageAfter(date: DateSession): RelationshipStage | undefined {
+  return date.stageTransition?.to || date.relationshipStage;
+}
 
 /**
  * Detects perfect match based on stable confidence pattern:
@@ -20,7 +37,7 @@ export class BestMatchDetector {
     agentId: string,
     partnerId: string,
     dates: DateSession[]
-  ): { isBestMatch: boolean; consecutiveStable: number; testDates: number; stableRange?: { min: number; max: number } } {
+  ): BestMatchResult {
     // Filter dates with this partner and sort by time
     const partnerDates = dates
       .filter(d => 
@@ -86,7 +103,8 @@ export class BestMatchDetector {
               isBestMatch: true, 
               consecutiveStable: this.CONSECUTIVE_STABLE_DATES_REQUIRED, 
               testDates: testDates.length,
-              stableRange: { min: minStable, max: maxStable }
+              stableRange: { min: minStable, max: maxStable },
+              relationshipStage: stageAfter(testDates[testDates.length - 1])
             };
           }
         }
@@ -122,6 +140,8 @@ export class BestMatchDetector {
           ? partnerDates[0].user2Name 
           : partnerDates[0].user1Name;
 
+        const message = `Perfect Match Found! After 5 consecutive dates with stable confidence around ${result.stableRange ? ((result.stableRange.min + result.stableRange.max) / 2 * 100).toFixed(0) : 'high'}%, followed by 3 test dates that maintained high compatibility, ${partnerName} has been identified as the best match.`;
+
         datingEventBus.emit('bestMatch', {
           agentId: userId,
           partnerId: partnerId,
@@ -130,7 +150,16 @@ export class BestMatchDetector {
           consecutiveStable: result.consecutiveStable,
           testDates: result.testDates,
           stableRange: result.stableRange,
-          message: `Perfect Match Found! After 5 consecutive dates with stable confidence around ${result.stableRange ? ((result.stableRange.min + result.stableRange.max) / 2 * 100).toFixed(0) : 'high'}%, followed by 3 test dates that maintained high compatibility, ${partnerName} has been identified as the best match.`
+          relationshipStage: result.relationshipStage,
+          message
+        });
+        dateEventLog.publish({
+          type: 'bestMatchFound',
+          agentId: userId,
+          partnerId,
+          partnerName,
+          relationshipStage: result.relationshipStage,
+          message
         });
       }
     }
@@ -1,6 +1,7 @@
 import type { DateSession } from './orchestrator';
 import type { UserProfile } from '@/lib/userDatabase';
 import { getUserById } from '@/lib/userDatabase';
+import { formatStage, relationshipProgression } from './relationshipProgression';
 
 interface CompatibilityAnalysis {
   insight: string;
@@ -39,7 +40,7 @@ export async function generateCompatibilityInsight(
     return {
       insight: 'No dates completed yet. The relationship is just beginning to unfold.',
       confidenceTrend: 'stable',
-      relationshipStage: 'Initial Stage',
+      relationshipStage: formatStage('first_date'),
       overallFeeling: 'Uncertain'
     };
   }
@@ -139,22 +140,19 @@ export async function generateCompatibilityInsight(
     }
   }
 
-  // Determine relationship stage
-  let relationshipStage = '';
+  // Relationship stage comes from the pair's recorded progression
+  const stage = relationshipProgression.getStage(agentId, partnerId);
+  const relationshipStage = formatStage(stage);
   let overallFeeling = '';
   
-  if (partnerDates.length <= 3) {
-    relationshipStage = 'Early Exploration';
+  if (stage === 'first_date') {
     overallFeeling = avgConfidence > 0.7 ? 'Optimistic' : avgConfidence > 0.5 ? 'Cautiously Positive' : 'Uncertain';
-  } else if (partnerDates.length <= 7) {
-    relationshipStage = 'Getting to Know Each Other';
+  } else if (stage === 'second_date') {
     overallFeeling = avgConfidence > 0.7 ? 'Growing Comfort' : avgConfidence > 0.5 ? 'Mixed Feelings' : 'Reservations';
-  } else if (partnerDates.length <= 12) {
-    relationshipStage = 'Deepening Connection';
-    overallFeeling = avgConfidence > 0.7 ? 'Strong Bond Developing' : avgConfidence > 0.5 ? 'Finding Balance' : 'Questioning Compatibility';
-  } else {
-    relationshipStage = 'Established Relationship';
+  } else if (stage === 'exclusive') {
     overallFeeling = avgConfidence > 0.7 ? 'Solid Foundation' : avgConfidence > 0.5 ? 'Stable but Uncertain' : 'Struggling';
+  } else {
+    overallFeeling = 'Parted Ways';
   }
 
   // Generate comprehensive insight text - MEGA SUMMARY
@@ -225,7 +223,7 @@ export async function generateCompatibilityInsight(
   }
 
   // Add relationship stage context
-  insight += `At this ${relationshipStage.toLowerCase()} phase, ${overallFeeling.toLowerCase()} best describes how things are progressing. `;
+  insight += `At the ${relationshipStage.toLowerCase()} stage, ${overallFeeling.toLowerCase()} best describes how things are progressing. `;
 
   // Add feeling/emotion context based on all data
   if (avgConfidence > 0.75 && positiveEmotions > negativeEmotions * 2 && compatibilitySignals > conflictSignals * 2) {
@@ -0,0 +1,218 @@
+import type { DateSession } from './orchestrator';
+import type { VenueCategory } from './venues';
+
+/**
+ * Watches a date's transcript between turns and decides how it should
+ * continue: add a scene beat, nudge a repetitive or stalled conversation,
+ * wrap up, end, or give an engaged pair more time. The director keeps no
+ * state of its own; everything it needs is in the session's intervention
+ * log, so it picks up where it left off on resumed dates.
+ */
+
+export type DirectorInterventionType = 'scene' | 'nudge' | 'wrap_up' | 'farewell' | 'extend' | 'end';
+
+export interface DirectorIntervention {
+  type: DirectorInterventionType;
+  reason: string;
+  prompt?: string;
+  extendedByMs?: number;
+  afterMessage: number; // transcript length when the director stepped in
+  timestamp: string; // ISO date string
+}
+
+export type DirectorDecision =
+  | { type: 'continue' }
+  | { type: 'direct'; intervention: DirectorIntervention }
+  | { type: 'extend'; intervention: DirectorIntervention; extendByMs: number }
+  | { type: 'end'; intervention: DirectorIntervention };
+
+interface TranscriptSignals {
+  repetitive: boolean;
+  stalled: boolean;
+  mutualGoodbye: boolean;
+  lastWasGoodbye: boolean;
+  engagement: number; // 0-1
+}
+
+interface ScenePrompt {
+  reason: string;
+  prompt: string;
+}
+
+// Beats that could happen anywhere, and all a date without a venue gets
+const NEUTRAL_SCENE_PROMPTS: ScenePrompt[] = [
+  { reason: 'awkward_pause', prompt: 'There is a slightly awkward pause in the conversation. Break the silence in your own way.' },
+  { reason: 'reminder', prompt: 'Something around you reminds you of a story from your own life. Share it briefly with your date.' },
+];
+
+const SCENE_PROMPTS: Record<VenueCategory, ScenePrompt[]> = {
+  cafe: [
+    { reason: 'order_drinks', prompt: 'The barista calls out your order. Mention what you got and ask your date what they usually drink.' },
+    { reason: 'pastry_case', prompt: 'You both notice the pastry case by the counter. Suggest splitting something or ask what they would pick.' },
+  ],
+  restaurant: [
+    { reason: 'order_food', prompt: 'It is time to order. Mention what you are having and ask your date what looks good to them.' },
+    { reason: 'dessert', prompt: 'You both spot the desserts. Suggest sharing something or ask what they would pick.' },
+  ],
+  park: [
+    { reason: 'street_performer', prompt: 'A street performer starts playing nearby. React to it naturally with your date.' },
+    { reason: 'find_a_spot', prompt: 'You come across a quiet spot to sit for a bit. Suggest it and point out something you notice around you.' },
+  ],
+  waterfront: [
+    { reason: 'boat_passes', prompt: 'A boat passes close by on the water. React to it naturally with your date.' },
+    { reason: 'view', prompt: 'The light over the water changes and the view is suddenly striking. Point it out to your date.' },
+  ],
+  entertainment: [
+    { reason: 'venue_event', prompt: 'The crowd around you suddenly erupts in a loud cheer. React to it naturally with your date.' },
+    { reason: 'friendly_competition', prompt: 'There is a game you could play together here. Playfully challenge your date to it.' },
+  ],
+  culture: [
+    { reason: 'exhibit', prompt: 'You stop in front of a piece that catches your eye. Tell your date what you make of it and ask what they see.' },
+    { reason: 'gift_shop', prompt: 'You pass the gift shop on the way through. Joke about what you would buy or ask what they would pick.' },
+  ],
+};
+
+/**
+ * Scene beats that fit where the date is taking place
+ */
+function getScenePrompts(dateSession: DateSession): ScenePrompt[] {
+  const category = dateSession.venue?.category;
+  return category ? [...SCENE_PROMPTS[category], ...NEUTRAL_SCENE_PROMPTS] : NEUTRAL_SCENE_PROMPTS;
+}
+
+const NUDGE_PROMPTS: Record<'repetition' | 'stall', string> = {
+  repetition: 'You have been circling the same topic. Change the subject to something new you are curious about.',
+  stall: 'The conversation is losing steam. Share a short personal story or ask an open question about something they care about.',
+};
+
+const WRAP_UP_PROMPT = 'The date is coming to an end. Wrap up warmly and say goodbye in your own words.';
+const FAREWELL_PROMPT = 'Your date is saying goodbye. Reply with your own goodbye.';
+
+const FAREWELL_PATTERN = /\b(good ?bye|bye|goodnight|good night|take care|see you|nice (meeting|to meet) you|have a (great|good|lovely) (night|evening|day)|until next time|catch you later)\b/i;
+
+const RECENT_WINDOW = 4;
+const REPETITION_SIMILARITY = 0.5;
+const STALL_AVG_WORDS = 7;
+const SCENE_INTERVAL = 6;
+const MIN_MESSAGES_BEFORE_EARLY_END = 6;
+const WRAP_UP_WINDOW_MS = 25000;
+const EXTENSION_MS = 60000;
+const MAX_EXTENSIONS = 2;
+const EXTEND_ENGAGEMENT = 0.6;
+
+function getWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9'\s]/g, ' ').split(/\s+/).filter(word => word.length > 2);
+}
+
+function getSimilarity(a: string, b: string): number {
+  const wordsA = new Set(getWords(a));
+  const wordsB = new Set(getWords(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / new Set([...wordsA, ...wordsB]).size;
+}
+
+export function analyzeTranscript(messages: DateSession['messages']): TranscriptSignals {
+  const recent = messages.slice(-RECENT_WINDOW);
+  const last = messages[messages.length - 1];
+  const previous = messages[messages.length - 2];
+
+  const repetitive = !!last && messages
+    .slice(-RECENT_WINDOW - 1, -1)
+    .some(message => getSimilarity(message.message, last.message) >= REPETITION_SIMILARITY);
+
+  const wordCounts = recent.map(message => getWords(message.message).length);
+  const avgWords = wordCounts.length > 0 ? wordCounts.reduce((a, b) => a + b, 0) / wordCounts.length : 0;
+  const questionRate = recent.length > 0 ? recent.filter(message => message.message.includes('?')).length / recent.length : 0;
+  const stalled = recent.length >= RECENT_WINDOW &&
+    (avgWords < STALL_AVG_WORDS || (questionRate === 0 && avgWords < STALL_AVG_WORDS * 2));
+
+  const lastWasGoodbye = !!last && FAREWELL_PATTERN.test(last.message);
+  const mutualGoodbye = lastWasGoodbye && !!previous && previous.sender !== last.sender && FAREWELL_PATTERN.test(previous.message);
+
+  return {
+    repetitive,
+    stalled,
+    mutualGoodbye,
+    lastWasGoodbye,
+    engagement: Math.min(1, avgWords / 25) * 0.6 + questionRate * 0.4
+  };
+}
+
+export class ConversationDirector {
+  /**
+   * Decide what happens before the next turn
+   */
+  review(dateSession: DateSession, now: number = Date.now()): DirectorDecision {
+    const log = dateSession.directorInterventions || [];
+    const messageCount = dateSession.messages.length;
+    const signals = analyzeTranscript(dateSession.messages);
+    const count = (type: DirectorInterventionType, reason?: string) =>
+      log.filter(entry => entry.type === type && (!reason || entry.reason === reason)).length;
+    const make = (type: DirectorInterventionType, reason: string, prompt?: string): DirectorIntervention => ({
+      type,
+      reason,
+      prompt,
+      afterMessage: messageCount,
+      timestamp: new Date(now).toISOString()
+    });
+
+    if (signals.mutualGoodbye) {
+      return { type: 'end', intervention: make('end', 'mutual_goodbye') };
+    }
+
+    const wrapUp = [...log].reverse().find(entry => entry.type === 'wrap_up');
+    if (wrapUp) {
+      // Give the partner one turn to answer the goodbye, then close
+      if (messageCount - wrapUp.afterMessage >= 2) {
+        return { type: 'end', intervention: make('end', `wrap_up_${wrapUp.reason}`) };
+      }
+      if (messageCount - wrapUp.afterMessage === 1) {
+        return { type: 'direct', intervention: make('farewell', wrapUp.reason, FAREWELL_PROMPT) };
+      }
+      return { type: 'continue' };
+    }
+
+    if (signals.lastWasGoodbye && messageCount >= MIN_MESSAGES_BEFORE_EARLY_END) {
+      return { type: 'direct', intervention: make('farewell', 'partner_goodbye', FAREWELL_PROMPT) };
+    }
+
+    const lastIntervention = log[log.length - 1];
+    const recentlyDirected = !!lastIntervention && messageCount - lastIntervention.afterMessage < 2;
+
+    if (signals.repetitive && !recentlyDirected) {
+      if (count('nudge', 'repetition') > 0 && messageCount >= MIN_MESSAGES_BEFORE_EARLY_END) {
+        return { type: 'direct', intervention: make('wrap_up', 'repetition', WRAP_UP_PROMPT) };
+      }
+      return { type: 'direct', intervention: make('nudge', 'repetition', NUDGE_PROMPTS.repetition) };
+    }
+
+    if (signals.stalled && !recentlyDirected) {
+      if (count('nudge', 'stall') > 0 && messageCount >= MIN_MESSAGES_BEFORE_EARLY_END) {
+        return { type: 'direct', intervention: make('wrap_up', 'stalled', WRAP_UP_PROMPT) };
+      }
+      return { type: 'direct', intervention: make('nudge', 'stall', NUDGE_PROMPTS.stall) };
+    }
+
+    const remainingMs = dateSession.endTime.getTime() - now;
+    if (remainingMs <= WRAP_UP_WINDOW_MS) {
+      if (signals.engagement >= EXTEND_ENGAGEMENT && count('extend') < MAX_EXTENSIONS) {
+        const intervention = make('extend', 'engaged');
+        intervention.extendedByMs = EXTENSION_MS;
+        return { type: 'extend', intervention, extendByMs: EXTENSION_MS };
+      }
+      return { type: 'direct', intervention: make('wrap_up', 'time', WRAP_UP_PROMPT) };
+    }
+
+    const lastSceneAt = [...log].reverse().find(entry => entry.type === 'scene')?.afterMessage ?? 0;
+    if (messageCount - lastSceneAt >= SCENE_INTERVAL && !recentlyDirected) {
+      const scenes = getScenePrompts(dateSession);
+      const scene = scenes[count('scene') % scenes.length];
+      return { type: 'direct', intervention: make('scene', scene.reason, scene.prompt) };
+    }
+
+    return { type: 'continue' };
+  }
+}
+
+export const conversationDirector = new ConversationDirector();
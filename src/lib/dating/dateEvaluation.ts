@@ -0,0 +1,144 @@
+import type { DateSession } from './orchestrator';
+import type { LLMProvider } from './llm';
+import { summarizeSetting } from './worldContext';
+
+/**
+ * Structured, per-participant grading of a completed date. Each side is
+ * scored from their own perspective on a fixed set of dimensions and the
+ * session's confidence is derived from those scores.
+ */
+
+export type EvaluationDimension = 'chemistry' | 'sharedValues' | 'communication' | 'humor' | 'redFlags';
+
+export const EVALUATION_DIMENSIONS: EvaluationDimension[] = ['chemistry', 'sharedValues', 'communication', 'humor', 'redFlags'];
+
+export interface ParticipantEvaluation {
+  userId: string;
+  userName: string;
+  // 0-10 each; for redFlags higher means more concerning
+  scores: Record<EvaluationDimension, number>;
+  wouldDateAgain: boolean;
+  reasoning: string;
+}
+
+export interface DateEvaluation {
+  participants: [ParticipantEvaluation, ParticipantEvaluation];
+  evaluatedAt: string;
+  provider: string;
+}
+
+// How much each dimension contributes to a participant's overall score
+const DIMENSION_WEIGHTS: Record<EvaluationDimension, number> = {
+  chemistry: 0.3,
+  sharedValues: 0.25,
+  communication: 0.2,
+  humor: 0.15,
+  redFlags: 0.1,
+};
+
+function buildEvaluationPrompt(dateSession: DateSession, perspectiveName: string, partnerName: string): string {
+  const conversationText = dateSession.messages
+    .map(m => `${m.senderName}: ${m.message}`)
+    .join('\n');
+  const settingText = dateSession.worldContext
+    ? `\nSetting: ${summarizeSetting(dateSession.worldContext, dateSession.venue?.name)}. Let the setting count where it plausibly helped or hurt the mood.\n`
+    : '';
+
+  return `You are evaluating a date from ${perspectiveName}'s perspective. Judge only how ${perspectiveName} would honestly feel about ${partnerName} based on the transcript.
+${settingText}
+Return valid JSON only with keys:
+chemistry: number 0-10, attraction and spark
+sharedValues: number 0-10, overlap in values and life goals
+communication: number 0-10, how easily the conversation flowed
+humor: number 0-10, whether the humor landed
+redFlags: number 0-10, how concerning ${partnerName}'s behavior was (0 = none)
+wouldDateAgain: boolean
+reasoning: one sentence
+
+Conversation:
+${conversationText}`;
+}
+
+function clampScore(value: unknown): number | null {
+  if (typeof value !== 'number' || Number.isNaN(value)) return null;
+  return Math.max(0, Math.min(10, value));
+}
+
+function parseParticipantEvaluation(text: string, userId: string, userName: string): ParticipantEvaluation {
+  const parsed = JSON.parse(text);
+  const scores = {} as Record<EvaluationDimension, number>;
+  for (const dimension of EVALUATION_DIMENSIONS) {
+    const score = clampScore(parsed[dimension]);
+    if (score === null) {
+      throw new Error(`Evaluation for ${userName} is missing a numeric "${dimension}" score`);
+    }
+    scores[dimension] = score;
+  }
+
+  return {
+    userId,
+    userName,
+    scores,
+    wouldDateAgain: typeof parsed.wouldDateAgain === 'boolean' ? parsed.wouldDateAgain : scores.chemistry >= 6,
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning : ''
+  };
+}
+
+/**
+ * Grade a date from both participants' perspectives. Returns null when the
+ * provider is unavailable or returns something unusable, so callers can fall
+ * back to the keyword heuristic.
+ */
+export async function evaluateDate(dateSession: DateSession, provider: LLMProvider): Promise<DateEvaluation | null> {
+  if (dateSession.messages.length === 0) return null;
+
+  const sides = [
+    { userId: dateSession.user1Id, userName: dateSession.user1Name, partnerName: dateSession.user2Name },
+    { userId: dateSession.user2Id, userName: dateSession.user2Name, partnerName: dateSession.user1Name }
+  ];
+
+  try {
+    const participants = await Promise.all(sides.map(async side => {
+      const text = await provider.complete({
+        purpose: 'evaluation',
+        responseFormat: 'json',
+        temperature: 0.2,
+        maxTokens: 250,
+        context: { dateId: dateSession.id, userId: side.userId },
+        messages: [{ role: 'user', content: buildEvaluationPrompt(dateSession, side.userName, side.partnerName) }]
+      });
+      return parseParticipantEvaluation(text, side.userId, side.userName);
+    }));
+
+    return {
+      participants: [participants[0], participants[1]],
+      evaluatedAt: new Date().toISOString(),
+      provider: provider.name
+    };
+  } catch (error) {
+    console.error(`Date evaluation error (${provider.name}):`, error);
+    return null;
+  }
+}
+
+/**
+ * Weighted 0-1 score for one participant's view of the date
+ */
+export function getParticipantScore(evaluation: ParticipantEvaluation): number {
+  let score = 0;
+  for (const dimension of EVALUATION_DIMENSIONS) {
+    const value = dimension === 'redFlags' ? 10 - evaluation.scores[dimension] : evaluation.scores[dimension];
+    score += (value / 10) * DIMENSION_WEIGHTS[dimension];
+  }
+  return score;
+}
+
+/**
+ * Confidence is the mean of both sides' scores, pulled down when the two
+ * participants saw the date very differently.
+ */
+export function deriveConfidenceFromEvaluation(evaluation: DateEvaluation): number {
+  const [a, b] = evaluation.participants.map(getParticipantScore);
+  const mismatchPenalty = Math.abs(a - b) * 0.25;
+  return Math.max(0, Math.min(1, (a + b) / 2 - mismatchPenalty));
+}
@@ -0,0 +1,167 @@
+import { datingEventBus, type DateSession } from './orchestrator';
+import type { RelationshipStage } from './relationshipProgression';
+
+/**
+ * Versioned real-time protocol for /api/dating/stream. Every event carries a
+ * sequence number so clients can apply updates incrementally and resume
+ * with Last-Event-ID after a reconnect instead of refetching everything.
+ *
+ * Event ids are "<streamId>:<seq>". The stream id changes when the server
+ * restarts, which tells a reconnecting client its history is gone and it
+ * needs a fresh snapshot.
+ */
+
+export const DATE_EVENT_PROTOCOL_VERSION = 1;
+
+// Events kept in memory for replay; token deltas make up most of them
+const MAX_BUFFERED_EVENTS = 5000;
+
+export interface DateSnapshotMessage {
+  sender: string;
+  senderName: string;
+  message: string;
+  timestamp: string; // ISO date string
+}
+
+/**
+ * A date as sent to clients, without agent internals
+ */
+export interface DateSnapshot {
+  id: string;
+  user1Id: string;
+  user2Id: string;
+  user1Name: string;
+  user2Name: string;
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+  status: DateSession['status'];
+  messages: DateSnapshotMessage[];
+  venue?: DateSession['venue'];
+  summary?: string;
+}
+
+export type DateEventPayload =
+  | { type: 'dateScheduled'; date: DateSnapshot }
+  | { type: 'dateStarted'; date: DateSnapshot }
+  | { type: 'messageStarted'; dateId: string; messageIndex: number; sender: string; senderName: string; timestamp: string }
+  | { type: 'tokenDelta'; dateId: string; messageIndex: number; delta: string }
+  | { type: 'messageCompleted'; dateId: string; messageIndex: number; message: string }
+  // The model call behind a streaming message failed and is being retried; drop the text streamed so far
+  | { type: 'messageRetrying'; dateId: string; messageIndex: number; attempt: number; error: string }
+  // The agent gave up on a message; it's removed from the transcript
+  | { type: 'messageFailed'; dateId: string; messageIndex: number; error: string }
+  | { type: 'dateSummarizing'; dateId: string }
+  | { type: 'dateCompleted'; dateId: string; summary?: string; sentiment?: string; confidence?: number }
+  | { type: 'dateCancelled'; dateId: string }
+  | { type: 'bestMatchFound'; agentId: string; partnerId: string; partnerName: string; relationshipStage?: RelationshipStage; message: string }
+  | { type: 'marketsUpdated'; marketId?: string };
+
+export type DateEventType = DateEventPayload['type'];
+
+export type DateEvent = DateEventPayload & {
+  v: typeof DATE_EVENT_PROTOCOL_VERSION;
+  id: string;
+  seq: number;
+  at: string; // ISO date string
+};
+
+export function toDateSnapshot(dateSession: DateSession): DateSnapshot {
+  return {
+    id: dateSession.id,
+    user1Id: dateSession.user1Id,
+    user2Id: dateSession.user2Id,
+    user1Name: dateSession.user1Name,
+    user2Name: dateSession.user2Name,
+    startTime: dateSession.startTime.toISOString(),
+    endTime: dateSession.endTime.toISOString(),
+    status: dateSession.status,
+    messages: dateSession.messages.map(message => ({
+      sender: message.sender,
+      senderName: message.senderName,
+      message: message.message,
+      timestamp: message.timestamp.toISOString()
+    })),
+    venue: dateSession.venue,
+    summary: dateSession.summary
+  };
+}
+
+/**
+ * A date with its outcome, evaluation and agent setup, as returned by the
+ * dating API. Like snapshots, it never includes the agents themselves.
+ */
+export interface DateDetails extends DateSnapshot {
+  sentiment?: string;
+  compatibilityRating?: number;
+  confidence?: number;
+  evaluation?: DateSession['evaluation'];
+  matchmakingStrategy?: string;
+  directorInterventions?: DateSession['directorInterventions'];
+  relationshipStage?: DateSession['relationshipStage'];
+  stageTransition?: DateSession['stageTransition'];
+  worldContext?: DateSession['worldContext'];
+  agentAssignments?: DateSession['agentAssignments'];
+  agentFailures?: DateSession['agentFailures'];
+}
+
+export function toDateDetails(dateSession: DateSession): DateDetails {
+  return {
+    ...toDateSnapshot(dateSession),
+    sentiment: dateSession.sentiment,
+    compatibilityRating: dateSession.compatibilityRating,
+    confidence: dateSession.confidence,
+    evaluation: dateSession.evaluation,
+    matchmakingStrategy: dateSession.matchmakingStrategy,
+    directorInterventions: dateSession.directorInterventions,
+    relationshipStage: dateSession.relationshipStage,
+    stageTransition: dateSession.stageTransition,
+    worldContext: dateSession.worldContext,
+    agentAssignments: dateSession.agentAssignments,
+    agentFailures: dateSession.agentFailures
+  };
+}
+
+class DateEventLog {
+  readonly streamId = Date.now().toString(36);
+  private seq = 0;
+  private events: DateEvent[] = [];
+
+  getLastSeq(): number {
+    return this.seq;
+  }
+
+  publish(payload: DateEventPayload): DateEvent {
+    this.seq += 1;
+    const event = {
+      ...payload,
+      v: DATE_EVENT_PROTOCOL_VERSION,
+      id: `${this.streamId}:${this.seq}`,
+      seq: this.seq,
+      at: new Date().toISOString()
+    } as DateEvent;
+
+    this.events.push(event);
+    if (this.events.length > MAX_BUFFERED_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_BUFFERED_EVENTS);
+    }
+    datingEventBus.emit('dateEvent', event);
+    return event;
+  }
+
+  /**
+   * Events after a Last-Event-ID, or null when they can't all be replayed
+   * (different server run, or too old) and the client has to resync
+   */
+  getEventsSince(lastEventId: string): DateEvent[] | null {
+    const [streamId, seqText] = lastEventId.split(':');
+    const seq = Number(seqText);
+    if (streamId !== this.streamId || !Number.isInteger(seq) || seq > this.seq) return null;
+    if (seq === this.seq) return [];
+
+    const oldest = this.events[0];
+    if (!oldest || oldest.seq > seq + 1) return null;
+    return this.events.filter(event => event.seq > seq);
+  }
+}
+
+export const dateEventLog = new DateEventLog();
@@ -1,137 +1,228 @@
 import type { UserProfile } from '@/lib/userDatabase';
+import {
+  describeLLMError,
+  getLLMProvider,
+  isRetryableLLMError,
+  LLMTimeoutError,
+  type ChatMessage,
+  type LLMProvider,
+  type StreamTokenHandler
+} from './llm';
+import { simulationConfig } from './simulationConfig';
 
-interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+type Message = ChatMessage;
+
+// How long one model call may take before it's abandoned
+const MESSAGE_TIMEOUT_MS = Number(process.env.DATING_MESSAGE_TIMEOUT_MS) || 45000;
+// Calls to the agent's own model before falling back to another one
+const ATTEMPTS_PER_MODEL = 3;
+// Other models from the pool tried once each after that
+const MAX_FALLBACK_MODELS = 2;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 8000;
+
+/**
+ * A failed model call that the agent is about to retry
+ */
+export interface AgentRetry {
+  attempt: number; // 1-based, counted across models
+  model?: string;
+  nextModel?: string;
+  error: string;
+  delayMs: number;
 }
 
-interface OpenRouterChunk {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    delta: {
-      role?: string;
-      content?: string;
-    };
-    finish_reason: string | null;
-  }>;
+/**
+ * A problem an agent ran into during a date, kept on the session
+ */
+export interface AgentFailure {
+  // Missing when the date failed outside any agent's turn
+  userId?: string;
+  // retry: same model again, fallback: switched model, gave_up: the turn was
+  // skipped, ended: the date was ended because of repeated failures
+  kind: 'retry' | 'fallback' | 'gave_up' | 'ended';
+  model?: string;
+  attempt?: number;
+  error: string;
+  afterMessage: number; // transcript length when it happened
+  timestamp: string; // ISO date string
+}
+
+export interface RespondOptions {
+  onToken?: StreamTokenHandler;
+  // Scene or pacing note from the conversation director
+  direction?: string;
+  // Called before each retry; tokens streamed by the failed call should be discarded
+  onRetry?: (retry: AgentRetry) => void;
 }
 
-type StreamTokenHandler = (token: string) => void;
+export class AgentResponseError extends Error {
+  public readonly attempts: number;
+  public readonly models: Array<string | undefined>;
+
+  constructor(message: string, attempts: number, models: Array<string | undefined>) {
+    super(message);
+    this.name = 'AgentResponseError';
+    this.attempts = attempts;
+    this.models = models;
+  }
+}
 
 export class DatingAgent {
   private userId: string;
   private userName: string;
   private systemPrompt: string;
   private conversationHistory: Message[] = [];
-  private apiKey: string;
-  private model: string;
+  // Non-enumerable (see constructor): providers wrap SDK clients that are
+  // circular and hold API keys, so they must never be serialized
+  declare private provider: LLMProvider;
+  private model: string | undefined;
+  private dateId: string | undefined;
 
-  constructor(user: UserProfile, systemPrompt: string, apiKey?: string, model?: string) {
+  constructor(user: UserProfile, systemPrompt: string, provider?: LLMProvider, model?: string, dateId?: string) {
     this.userId = user.id;
     this.userName = user.name;
     this.systemPrompt = systemPrompt;
-    this.apiKey = apiKey || process.env.OPENROUTER_API_KEY || '';
-    this.model = model || process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini';
+    Object.defineProperty(this, 'provider', { value: provider || getLLMProvider('agent', user.id), enumerable: false });
+    this.model = model;
+    this.dateId = dateId;
     this.conversationHistory.push({ role: 'system', content: systemPrompt });
   }
 
-  async respondToMessage(incomingMessage: string, onToken?: StreamTokenHandler): Promise<string> {
-    this.conversationHistory.push({ role: 'user', content: incomingMessage });
-
-    const response = await this.streamOpenRouterChat(onToken);
-    const cleanedResponse = this.cleanResponse(response);
+  /**
+   * Reply to the partner's last line. Throws AgentResponseError once retries
+   * and fallback models are used up, leaving the history as it was.
+   */
+  async respondToMessage(incomingMessage: string, options: RespondOptions = {}): Promise<string> {
+    const content = options.direction ? `${incomingMessage}\n\n[Direction: ${options.direction}]` : incomingMessage;
+    return this.takeTurn({ role: 'user', content }, options);
+  }
 
-    this.conversationHistory.push({ role: 'assistant', content: cleanedResponse });
-    return cleanedResponse;
+  async initiateConversation(options: RespondOptions = {}): Promise<string> {
+    return this.takeTurn(this.getOpeningInstruction(), options);
   }
 
-  async initiateConversation(onToken?: StreamTokenHandler): Promise<string> {
-    const initMessage: Message = {
-      role: 'user',
-      content: `Start the date with a friendly greeting and introduction. IMPORTANT: Only write what ${this.userName} says. Do NOT write your name before speaking. Do NOT write stage directions or actions.`
-    };
-    this.conversationHistory.push(initMessage);
+  private async takeTurn(prompt: Message, options: RespondOptions): Promise<string> {
+    this.conversationHistory.push(prompt);
+    let response: string;
+    try {
+      response = await this.streamChat(options);
+    } catch (error) {
+      // Drop the prompt so the turn can be taken again cleanly
+      this.conversationHistory.pop();
+      throw error;
+    }
 
-    const response = await this.streamOpenRouterChat(onToken);
     const cleanedResponse = this.cleanResponse(response);
     this.conversationHistory.push({ role: 'assistant', content: cleanedResponse });
     return cleanedResponse;
   }
 
-  private async streamOpenRouterChat(onToken?: StreamTokenHandler): Promise<string> {
-    if (!this.apiKey) {
-      throw new Error('OpenRouter API key is not configured. Set OPENROUTER_API_KEY environment variable.');
+  /**
+   * Rebuild the chat history from a saved transcript so a date can continue
+   * after a restart. Lines spoken by this agent become assistant turns. When
+   * the partner spoke last, their line is left out: it's this agent's turn,
+   * and respondToMessage adds it as the prompt.
+   */
+  restoreConversation(transcript: Array<{ sender: string; message: string }>): void {
+    this.conversationHistory = [{ role: 'system', content: this.systemPrompt }];
+    if (transcript.length > 0 && transcript[0].sender === this.userId) {
+      this.conversationHistory.push(this.getOpeningInstruction());
     }
-
-    const messages = this.conversationHistory.map(msg => ({
-      role: msg.role === 'system' ? 'system' : msg.role === 'assistant' ? 'assistant' : 'user',
-      content: msg.content
-    }));
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-        'HTTP-Referer': process.env.OPENROUTER_HTTP_REFERER || 'http://localhost:3000',
-        'X-Title': process.env.OPENROUTER_APP_NAME || 'Isometric City Dating'
-      },
-      body: JSON.stringify({
-        model: this.model,
-        messages,
-        stream: true,
-        temperature: 0.7,
-        max_tokens: 150
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter request failed: ${response.statusText} - ${errorText}`);
+    const last = transcript[transcript.length - 1];
+    const restored = last && last.sender !== this.userId ? transcript.slice(0, -1) : transcript;
+    for (const entry of restored) {
+      this.conversationHistory.push({
+        role: entry.sender === this.userId ? 'assistant' : 'user',
+        content: entry.message
+      });
     }
-
-    return await this.processStreamResponse(response, onToken);
   }
 
-  private async processStreamResponse(response: Response, onToken?: StreamTokenHandler): Promise<string> {
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullResponse = '';
-
-    if (!reader) throw new Error('No response body');
+  private getOpeningInstruction(): Message {
+    return {
+      role: 'user',
+      content: `Start the date with a friendly greeting and introduction. IMPORTANT: Only write what ${this.userName} says. Do NOT write your name before speaking. Do NOT write stage directions or actions.`
+    };
+  }
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  /**
+   * Stream a reply, retrying transient failures with backoff and then falling
+   * back to other models from the pool. The agent keeps its own model for
+   * later turns.
+   */
+  private async streamChat(options: RespondOptions): Promise<string> {
+    const fallbacks = simulationConfig.getModelPool(this.provider.name, this.provider.listModels())
+      .filter(model => model !== this.model)
+      .slice(0, MAX_FALLBACK_MODELS);
+    const models = [this.model, ...fallbacks];
+    let attempt = 0;
+    let lastError: unknown;
 
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n').filter(line => line.trim() && line.startsWith('data: '));
+    for (let modelIndex = 0; modelIndex < models.length; modelIndex++) {
+      const model = models[modelIndex];
+      const tries = modelIndex === 0 ? ATTEMPTS_PER_MODEL : 1;
 
-      for (const line of lines) {
-        if (line === 'data: [DONE]') continue;
-        
+      for (let tryIndex = 0; tryIndex < tries; tryIndex++) {
+        attempt++;
         try {
-          const jsonStr = line.replace('data: ', '');
-          const json: OpenRouterChunk = JSON.parse(jsonStr);
-          
-          const content = json.choices?.[0]?.delta?.content;
-          if (content) {
-            fullResponse += content;
-            onToken?.(content);
+          return await this.callModel(model, options.onToken);
+        } catch (error) {
+          lastError = error;
+          const retrySameModel = tryIndex < tries - 1 && isRetryableLLMError(error);
+          const nextModel = retrySameModel ? model : models[modelIndex + 1];
+          if (!retrySameModel && modelIndex === models.length - 1) break;
+
+          const delayMs = retrySameModel ? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** tryIndex) : 0;
+          options.onRetry?.({ attempt, model, nextModel, error: describeLLMError(error), delayMs });
+          if (delayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, delayMs + Math.random() * delayMs * 0.2));
           }
-        } catch (e) {
-          continue;
+          if (!retrySameModel) break;
         }
       }
     }
 
-    return fullResponse.trim();
+    throw new AgentResponseError(
+      `${this.userName} couldn't respond after ${attempt} attempt(s): ${describeLLMError(lastError)}`,
+      attempt,
+      models
+    );
   }
 
+  /**
+   * One model call, abandoned after MESSAGE_TIMEOUT_MS. Tokens that arrive
+   * after the timeout are ignored.
+   */
+  private async callModel(model: string | undefined, onToken?: StreamTokenHandler): Promise<string> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMTimeoutError(MESSAGE_TIMEOUT_MS));
+      }, MESSAGE_TIMEOUT_MS);
+    });
+
+    try {
+      return await Promise.race([
+        this.provider.streamChat({
+          purpose: 'chat',
+          model,
+          messages: this.conversationHistory,
+          temperature: 0.7,
+          maxTokens: 150,
+          context: { dateId: this.dateId, userId: this.userId },
+          signal: controller.signal
+        }, token => {
+          if (!controller.signal.aborted) onToken?.(token);
+        }),
+        timeout
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
   private cleanResponse(response: string): string {
     let cleaned = response.trim();
@@ -154,8 +245,20 @@ export class DatingAgent {
     return [...this.conversationHistory];
   }
 
+  getSystemPrompt(): string {
+    return this.systemPrompt;
+  }
+
   getUserId(): string {
     return this.userId;
   }
+
+  getModel(): string | undefined {
+    return this.model;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
 }
 
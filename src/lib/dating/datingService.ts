@@ -1,44 +1,101 @@
-import { DateOrchestrator, DateSession } from './orchestrator';
-import type { UserProfile } from '@/lib/userDatabase';
+import { DateOrchestrator, DateSession, isDateClosed } from './orchestrator';
+import { userRepository, type UserProfile } from '@/lib/userDatabase';
+import { userEventEmitter } from '@/lib/userEventEmitter';
 import { generateCompatibilityInsight } from './compatibilityInsight';
 import { calculateConfidenceFromSummary } from './confidenceFromSummary';
-import { sseConnectionManager } from './sseConnectionManager';
-import fs from 'fs';
-import path from 'path';
-
-interface PendingMatch {
-  partnerName: string;
-  compatibilityPercentage: number;
-  locationImageUrl?: string;
-  restaurantName?: string;
-  bookingId?: string;
-  bookingTime?: string;
+import { notificationInbox } from './notificationInbox';
+import { bestMatchDetector } from './bestMatchDetector';
+import {
+  createMatchmakingStrategy,
+  getPairKey,
+  MATCHMAKING_STRATEGY_NAMES,
+  type CandidatePair,
+  type MatchmakingStrategy,
+  type MatchmakingStrategyName,
+  type PairingExplanation,
+  explainPairing,
+  pickPartnerFor,
+} from './matchmaking';
+import { areMutuallyCompatible } from './pairingConstraints';
+import { predictionMarketEngine } from './predictionMarketEngine';
+import { relationshipProgression } from './relationshipProgression';
+import { dateVenueRegistry } from './venueRegistry';
+import { DateTranscriptSearch, type DateQuery } from './transcriptSearch';
+import { randomInRange, simulationConfig, SimulationControlError } from './simulationConfig';
+import { usageMeter } from './usageMeter';
+import { agentMemoryStore } from './agentMemory';
+import { photoAnalysisQueue } from './photoAnalysisQueue';
+import { collectOutcomes, experimentRegistry, ExperimentError, type ExperimentResults } from './experiments';
+
+export type MatchRequestStatus = 'queued' | 'scheduled' | 'expired';
+
+/**
+ * An on-demand request for one user to be matched. Requests that can't be
+ * met right away (the user is busy, or nobody compatible is free) stay
+ * queued and are served ahead of regular scheduling.
+ */
+export interface MatchRequest {
+  id: string;
+  userId: string;
+  requestedAt: Date;
+  status: MatchRequestStatus;
+  dateId?: string;
+  partnerId?: string;
+  partnerName?: string;
+  compatibility?: PairingExplanation;
+  // Why a queued request hasn't been served yet
+  waitingReason?: string;
 }
 
+// Queued requests are dropped after this long
+const MATCH_REQUEST_TTL_MS = 10 * 60 * 1000;
+
 class DatingService {
   private orchestrator: DateOrchestrator;
-  private users: UserProfile[] = [];
-  private maleIndex: number = 0;
-  private femaleIndex: number = 0;
+  private strategies: Map<MatchmakingStrategyName, MatchmakingStrategy> = new Map();
+  private matchmakingStrategy: MatchmakingStrategyName = 'round-robin';
   private dateDurationMs: number = 120000;
   private isScheduling: boolean = false;
   private isPaused: boolean = true;
-  private pendingMatches: Map<string, PendingMatch> = new Map();
+  private matchRequests: Map<string, MatchRequest> = new Map();
+  private transcriptSearch: DateTranscriptSearch;
+  // Cascades from user edits and deletions, applied in order
+  private userChangeChain: Promise<void> = Promise.resolve();
 
   constructor() {
     this.orchestrator = new DateOrchestrator();
-    this.loadUsers();
+    this.transcriptSearch = new DateTranscriptSearch({
+      getDates: () => this.getAllDates(),
+      withTranscript: dateSession => this.orchestrator.withTranscript(dateSession)
+    });
+    this.subscribeToUserChanges();
+    this.orchestrator.whenReady().then(() => {
+      predictionMarketEngine.attach(this);
+      notificationInbox.attach(this);
+      return this.orchestrator.resumeInterruptedDates(userId => this.getUserById(userId));
+    }).catch(error => console.error('Failed to resume interrupted dates:', error));
   }
 
-  private loadUsers() {
-    try {
-      const usersPath = path.join(process.cwd(), 'data', 'users.json');
-      const data = fs.readFileSync(usersPath, 'utf-8');
-      this.users = JSON.parse(data);
-    } catch (e) {
-      console.error('Failed to load users:', e);
-      this.users = [];
-    }
+  private subscribeToUserChanges() {
+    const enqueue = (task: () => Promise<void>) => {
+      this.userChangeChain = this.userChangeChain
+        .then(task)
+        .catch(error => console.error('Failed to apply user change:', error));
+    };
+    userEventEmitter.on('userUpdated', (user: UserProfile) => enqueue(() => this.applyUserUpdate(user)));
+    userEventEmitter.on('userDeleted', (userId: string) => enqueue(() => this.removeUser(userId)));
+  }
+
+  /**
+   * Resolves once every user change seen so far has been applied
+   */
+  whenUserChangesApplied(): Promise<void> {
+    return this.userChangeChain;
+  }
+
+  // The user store is the source of truth, so new and edited users are seen right away
+  private get users(): UserProfile[] {
+    return userRepository.list();
   }
 
   getUsers(): UserProfile[] {
@@ -46,77 +103,246 @@ class DatingService {
   }
 
   getUserById(userId: string): UserProfile | undefined {
-    return this.users.find(u => u.id === userId);
+    return userRepository.get(userId) || undefined;
   }
 
-  private getMales(): UserProfile[] {
-    return this.users.filter(u => u.gender === 'male');
+  private getStrategy(name: MatchmakingStrategyName): MatchmakingStrategy {
+    // Strategies keep rotation state, so reuse one instance per name
+    let strategy = this.strategies.get(name);
+    if (!strategy) {
+      strategy = createMatchmakingStrategy(name);
+      this.strategies.set(name, strategy);
+    }
+    return strategy;
   }
 
-  private getFemales(): UserProfile[] {
-    return this.users.filter(u => u.gender === 'female');
+  getMatchmakingStrategy(): MatchmakingStrategyName {
+    return this.matchmakingStrategy;
   }
 
-  scheduleRoundRobinDate(): DateSession | null {
-    const males = this.getMales();
-    const females = this.getFemales();
-    
-    if (males.length === 0 || females.length === 0) return null;
+  setMatchmakingStrategy(name: MatchmakingStrategyName) {
+    this.matchmakingStrategy = name;
+  }
 
+  getAvailableStrategies() {
+    return MATCHMAKING_STRATEGY_NAMES.map(name => ({
+      name,
+      description: this.getStrategy(name).description,
+      active: name === this.matchmakingStrategy
+    }));
+  }
+
+  /**
+   * Whether either user is exclusive with someone other than the other
+   */
+  private isCommittedElsewhere(userA: UserProfile, userB: UserProfile): boolean {
+    const partnerOfA = relationshipProgression.getExclusivePartner(userA.id);
+    const partnerOfB = relationshipProgression.getExclusivePartner(userB.id);
+    return (!!partnerOfA && partnerOfA !== userB.id) || (!!partnerOfB && partnerOfB !== userA.id);
+  }
+
+  /**
+   * All pairs of currently free users who could go on a date together.
+   * Users who are exclusive only date their partner.
+   */
+  private getCandidatePairs(): CandidatePair[] {
     const activeUserIds = this.orchestrator.getActiveUserIds();
-    
-    let maleCandidate: UserProfile | null = null;
-    let femaleCandidate: UserProfile | null = null;
-    
-    for (let i = 0; i < males.length; i++) {
-      const idx = (this.maleIndex + i) % males.length;
-      if (!activeUserIds.has(males[idx].id)) {
-        maleCandidate = males[idx];
-        this.maleIndex = (idx + 1) % males.length;
-        break;
+    const freeUsers = this.users.filter(u => !activeUserIds.has(u.id) && !u.deactivatedAt && simulationConfig.isUserEnabled(u.id));
+
+    const pairs: CandidatePair[] = [];
+    for (let i = 0; i < freeUsers.length; i++) {
+      for (let j = i + 1; j < freeUsers.length; j++) {
+        if (
+          areMutuallyCompatible(freeUsers[i], freeUsers[j]) &&
+          relationshipProgression.getStage(freeUsers[i].id, freeUsers[j].id) !== 'broken_up' &&
+          !this.isCommittedElsewhere(freeUsers[i], freeUsers[j])
+        ) {
+          pairs.push([freeUsers[i], freeUsers[j]]);
+        }
       }
     }
-    
-    for (let i = 0; i < females.length; i++) {
-      const idx = (this.femaleIndex + i) % females.length;
-      if (!activeUserIds.has(females[idx].id)) {
-        femaleCandidate = females[idx];
-        this.femaleIndex = (idx + 1) % females.length;
-        break;
+    return pairs;
+  }
+
+  scheduleNextDate(): DateSession | null {
+    const candidatePairs = this.getCandidatePairs();
+    if (candidatePairs.length === 0) return null;
+
+    const strategy = this.getStrategy(this.matchmakingStrategy);
+    const pair = strategy.selectPair({
+      users: this.users,
+      candidatePairs,
+      completedDates: this.orchestrator.getCompletedDates()
+    });
+    if (!pair) return null;
+
+    return this.schedulePair(pair, strategy.name);
+  }
+
+  private schedulePair(pair: CandidatePair, matchmakingStrategy: string): DateSession {
+    const busyVenueIds = new Set(
+      [...this.orchestrator.getActiveDates(), ...this.orchestrator.getScheduledDates()]
+        .map(date => date.venue?.id)
+        .filter((venueId): venueId is string => !!venueId)
+    );
+    const venue = dateVenueRegistry.pickVenue(relationshipProgression.getStage(pair[0].id, pair[1].id), busyVenueIds);
+
+    const durationMs = randomInRange(simulationConfig.get().dateDurationMs);
+    return this.orchestrator.scheduleDate(pair[0], pair[1], durationMs, {
+      matchmakingStrategy,
+      venue: venue || undefined
+    });
+  }
+
+  /**
+   * Queue a match for one user. Returns their open request if they already
+   * have one, or null for an unknown user.
+   */
+  requestMatch(userId: string): MatchRequest | null {
+    if (!this.getUserById(userId)) return null;
+    const existing = this.matchRequests.get(userId);
+    if (existing) return existing;
+
+    const request: MatchRequest = {
+      id: `match-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      requestedAt: new Date(),
+      status: 'queued'
+    };
+    this.matchRequests.set(userId, request);
+    return request;
+  }
+
+  getQueuedMatchRequests(): MatchRequest[] {
+    return Array.from(this.matchRequests.values());
+  }
+
+  /**
+   * Schedule a date for every queued request that can be served now, without
+   * going over maxDates running dates. Served and expired requests leave the
+   * queue; the rest wait for a later pass.
+   */
+  private fulfillMatchRequests(maxDates: number): { date: DateSession; request: MatchRequest }[] {
+    const now = Date.now();
+    const completedDates = this.orchestrator.getCompletedDates();
+    const scheduled: { date: DateSession; request: MatchRequest }[] = [];
+
+    const queued = Array.from(this.matchRequests.values())
+      .sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime());
+    for (const request of queued) {
+      if (now - request.requestedAt.getTime() > MATCH_REQUEST_TTL_MS) {
+        request.status = 'expired';
+        this.matchRequests.delete(request.userId);
+        continue;
+      }
+
+      const user = this.getUserById(request.userId);
+      if (!user) {
+        this.matchRequests.delete(request.userId);
+        continue;
+      }
+      if (user.deactivatedAt) {
+        request.waitingReason = 'Profile is deactivated';
+        continue;
+      }
+      if (!simulationConfig.isUserEnabled(user.id)) {
+        request.waitingReason = 'Matching is turned off for this user';
+        continue;
+      }
+      if (this.orchestrator.getActiveUserIds().has(user.id)) {
+        request.waitingReason = 'Already on a date';
+        continue;
+      }
+      if (this.orchestrator.getActiveCount() + scheduled.length >= maxDates) {
+        request.waitingReason = 'The maximum number of dates are running, waiting for one to end';
+        continue;
+      }
+
+      const pick = pickPartnerFor(user, this.getCandidatePairs(), completedDates);
+      if (!pick) {
+        const exclusivePartner = relationshipProgression.getExclusivePartner(user.id);
+        request.waitingReason = exclusivePartner
+          ? `Exclusive with ${this.getUserById(exclusivePartner)?.name || 'someone'}, waiting for them to be free`
+          : 'No compatible partner is free right now';
+        continue;
       }
-    }
 
-    if (!maleCandidate || !femaleCandidate) return null;
+      const date = this.schedulePair(pick.pair, 'on-demand');
+      const partner = pick.pair[0].id === user.id ? pick.pair[1] : pick.pair[0];
+      Object.assign(request, {
+        status: 'scheduled',
+        dateId: date.id,
+        partnerId: partner.id,
+        partnerName: partner.name,
+        compatibility: pick.explanation,
+        waitingReason: undefined
+      });
+      this.matchRequests.delete(request.userId);
+      scheduled.push({ date, request });
+    }
+    return scheduled;
+  }
 
-    const randomDurationMs = 60000 + Math.floor(Math.random() * 120001);
-    const dateSession = this.orchestrator.scheduleDate(maleCandidate, femaleCandidate, randomDurationMs);
-    return dateSession;
+  /**
+   * Serve queued match requests right away, even while automatic scheduling
+   * is paused, and start the resulting dates without waiting for their
+   * opening lines. Requests stay queued while today's model budget is spent
+   * or the concurrent date limit is reached.
+   */
+  async processMatchRequests(): Promise<DateSession[]> {
+    await this.orchestrator.whenReady();
+    if (usageMeter.isOverDailyBudget()) {
+      this.getQueuedMatchRequests().forEach(request => {
+        request.waitingReason = 'Daily model budget reached, try again tomorrow';
+      });
+      return [];
+    }
+    const scheduled = this.fulfillMatchRequests(simulationConfig.get().maxConcurrentDates);
+    for (const { date, request } of scheduled) {
+      await this.createMatchForUsers(date, request.compatibility);
+      this.startInBackground(date);
+    }
+    return scheduled.map(({ date }) => date);
   }
 
-  async autoScheduleAndStart(maxDates: number = 3): Promise<DateSession[]> {
-    if (this.isScheduling || this.isPaused) return [];
+  /**
+   * Schedule and start dates until maxDates are running. Defaults to the
+   * configured maxConcurrentDates.
+   */
+  async autoScheduleAndStart(maxDates: number = simulationConfig.get().maxConcurrentDates, strategy?: MatchmakingStrategyName): Promise<DateSession[]> {
+    if (strategy) {
+      this.setMatchmakingStrategy(strategy);
+    }
+    if (this.isScheduling || this.isSchedulingPaused()) return [];
     this.isScheduling = true;
 
     try {
+      // Stored dates decide who is already busy
+      await this.orchestrator.whenReady();
       const activeCount = this.orchestrator.getActiveCount();
       if (activeCount >= maxDates) return [];
 
       const newDates: DateSession[] = [];
       const toSchedule = maxDates - activeCount;
+
+      // Explicit match requests go before the strategy's picks
+      for (const { date, request } of this.fulfillMatchRequests(maxDates)) {
+        newDates.push(date);
+        await this.createMatchForUsers(date, request.compatibility);
+        this.startInBackground(date);
+      }
       
-      for (let i = 0; i < toSchedule; i++) {
+      for (let i = newDates.length; i < toSchedule; i++) {
         if (this.orchestrator.getActiveCount() >= maxDates) break;
         
-        const date = this.scheduleRoundRobinDate();
+        const date = this.scheduleNextDate();
         if (date) {
           newDates.push(date);
           
           await this.createMatchForUsers(date);
+          this.startInBackground(date);
         }
       }
- 
-      const startPromises = newDates.map(date => this.orchestrator.startDate(date.id));
-      await Promise.all(startPromises);
 
       return newDates;
     } finally {
@@ -124,54 +350,167 @@ class DatingService {
     }
   }
 
-  private async createMatchForUsers(date: DateSession): Promise<void> {
-    const compatibilityPercentage = date.compatibilityRating 
-      ? Math.round(date.compatibilityRating * 10) 
-      : 85;
+  private async createMatchForUsers(date: DateSession, compatibility?: PairingExplanation): Promise<void> {
+    const completedDates = this.orchestrator.getCompletedDates();
+    const user1 = this.getUserById(date.user1Id);
+    const user2 = this.getUserById(date.user2Id);
+    const estimate = compatibility || (user1 && user2 ? explainPairing(user1, user2, completedDates) : undefined);
+    const compatibilityPercentage = estimate?.compatibilityPercentage ?? 85;
 
-    const restaurantName = 'The Romantic Bistro';
-    const bookingId = `booking-${date.id}`;
-    const bookingTime = date.startTime.toISOString();
-    const locationImageUrl = undefined;
-
-    const matchData1: PendingMatch = {
-      partnerName: date.user2Name,
+    const booking = {
       compatibilityPercentage,
-      locationImageUrl,
-      restaurantName,
-      bookingId,
-      bookingTime,
+      locationImageUrl: undefined,
+      restaurantName: date.venue?.name || 'The Romantic Bistro',
+      bookingId: `booking-${date.id}`,
+      bookingTime: date.startTime.toISOString(),
+      explanation: estimate?.reasons.join('; '),
     };
 
-    const matchData2: PendingMatch = {
-      partnerName: date.user1Name,
-      compatibilityPercentage,
-      locationImageUrl,
-      restaurantName,
-      bookingId,
-      bookingTime,
-    };
+    await Promise.all([
+      notificationInbox.notifyMatch(date.user1Id, { ...booking, partnerId: date.user2Id, partnerName: date.user2Name }),
+      notificationInbox.notifyMatch(date.user2Id, { ...booking, partnerId: date.user1Id, partnerName: date.user1Name }),
+    ]);
+  }
 
-    this.pendingMatches.set(date.user1Id, matchData1);
-    this.pendingMatches.set(date.user2Id, matchData2);
+  /**
+   * Put two specific users on a date right away. Skips the pairing
+   * constraints, but both users must exist and be free.
+   */
+  async pairUsers(user1Id: string, user2Id: string): Promise<DateSession> {
+    await this.orchestrator.whenReady();
+    if (user1Id === user2Id) {
+      throw new SimulationControlError('Pick two different users');
+    }
+    const user1 = this.getUserById(user1Id);
+    const user2 = this.getUserById(user2Id);
+    if (!user1 || !user2) {
+      throw new SimulationControlError('User not found', 404);
+    }
+    const deactivated = [user1, user2].filter(user => user.deactivatedAt);
+    if (deactivated.length > 0) {
+      throw new SimulationControlError(`${deactivated.map(user => user.name).join(' and ')} deactivated their profile`, 409);
+    }
+    const busyUserIds = this.orchestrator.getActiveUserIds();
+    const busy = [user1, user2].filter(user => busyUserIds.has(user.id));
+    if (busy.length > 0) {
+      throw new SimulationControlError(`${busy.map(user => user.name).join(' and ')} already on a date`, 409);
+    }
 
-    if (sseConnectionManager.hasConnection(date.user1Id)) {
-      sseConnectionManager.sendMatch(date.user1Id, matchData1);
-      this.pendingMatches.delete(date.user1Id);
+    const date = this.schedulePair([user1, user2], 'manual');
+    await this.createMatchForUsers(date);
+    this.startInBackground(date);
+    return date;
+  }
+
+  /**
+   * Starting waits for the opening line, so don't hold the caller on it. The
+   * date counts as active as soon as this returns.
+   */
+  private startInBackground(date: DateSession) {
+    this.orchestrator.startDate(date.id).catch(error => console.error(`Failed to start date ${date.id}:`, error));
+  }
+
+  async cancelDate(dateId: string): Promise<DateSession> {
+    await this.orchestrator.whenReady();
+    const date = this.orchestrator.getDateById(dateId);
+    if (!date) {
+      throw new SimulationControlError('Date not found', 404);
+    }
+    const cancelled = await this.orchestrator.cancelDate(dateId);
+    if (!cancelled) {
+      throw new SimulationControlError(`Can't cancel a date that is ${date.status}`, 409);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Cancel a user's scheduled and running dates. Dates already being
+   * summarized are left to finish.
+   */
+  private async cancelDatesForUser(userId: string): Promise<void> {
+    await this.orchestrator.whenReady();
+    const openDates = [...this.orchestrator.getScheduledDates(), ...this.orchestrator.getActiveDates()]
+      .filter(date => date.user1Id === userId || date.user2Id === userId);
+    for (const date of openDates) {
+      await this.orchestrator.cancelDate(date.id);
     }
+  }
 
-    if (sseConnectionManager.hasConnection(date.user2Id)) {
-      sseConnectionManager.sendMatch(date.user2Id, matchData2);
-      this.pendingMatches.delete(date.user2Id);
+  /**
+   * React to an edited profile. A deactivated user's upcoming dates and
+   * pending match request are dropped.
+   */
+  private async applyUserUpdate(user: UserProfile): Promise<void> {
+    if (user.deactivatedAt) {
+      this.matchRequests.delete(user.id);
+      await this.cancelDatesForUser(user.id);
     }
   }
 
-  getPendingMatchForUser(userId: string): PendingMatch | null {
-    return this.pendingMatches.get(userId) || null;
+  /**
+   * Forget a deleted user: cancel their open dates, drop their match request
+   * and remove their agent memory, notifications and photo analysis jobs. Completed dates stay in
+   * their partners' history.
+   */
+  private async removeUser(userId: string): Promise<void> {
+    this.matchRequests.delete(userId);
+    await this.cancelDatesForUser(userId);
+
+    await Promise.all([
+      agentMemoryStore.deleteMemory(userId),
+      notificationInbox.deleteInbox(userId),
+      photoAnalysisQueue.deleteJobsForUser(userId),
+      simulationConfig.isUserEnabled(userId) ? Promise.resolve() : simulationConfig.setUserEnabled(userId, true)
+    ]);
   }
 
-  clearPendingMatchForUser(userId: string): void {
-    this.pendingMatches.delete(userId);
+  /**
+   * Everything the dating simulation stores about a user
+   */
+  async exportUserData(userId: string) {
+    await this.orchestrator.whenReady();
+    const dates = await this.getDatesForUserWithTranscripts(userId);
+
+    return {
+      memory: agentMemoryStore.getMemory(userId),
+      dates: dates.map(date => {
+        const isUser1 = date.user1Id === userId;
+        return {
+          id: date.id,
+          partnerId: isUser1 ? date.user2Id : date.user1Id,
+          partnerName: isUser1 ? date.user2Name : date.user1Name,
+          status: date.status,
+          startTime: date.startTime,
+          endTime: date.endTime,
+          venue: date.venue?.name,
+          relationshipStage: date.relationshipStage,
+          summary: date.summary,
+          sentiment: date.sentiment,
+          compatibilityRating: date.compatibilityRating,
+          confidence: date.confidence,
+          evaluation: date.evaluation,
+          messages: date.messages
+        };
+      }),
+      relationships: relationshipProgression.getRelationshipsForUser(userId),
+      notifications: notificationInbox.exportInbox(userId),
+      matchRequest: this.matchRequests.get(userId) || null,
+      usage: usageMeter.getUsageFor({ userId })
+    };
+  }
+
+  /**
+   * Why automatic scheduling is paused: switched off, or today's model
+   * budget is spent. Null while it's running.
+   */
+  getSchedulingPauseReason(): 'manual' | 'budget' | null {
+    if (this.isPaused) return 'manual';
+    if (usageMeter.isOverDailyBudget()) return 'budget';
+    return null;
+  }
+
+  isSchedulingPaused(): boolean {
+    return this.getSchedulingPauseReason() !== null;
   }
 
   pauseScheduling() {
@@ -202,16 +541,64 @@ class DatingService {
     return this.orchestrator.getCompletedDates();
   }
 
+  getAllDates(): DateSession[] {
+    return [
+      ...this.orchestrator.getScheduledDates(),
+      ...this.orchestrator.getActiveDates(),
+      ...this.orchestrator.getClosedDates()
+    ];
+  }
+
+  async searchDates(query: DateQuery) {
+    await this.orchestrator.whenReady();
+    return this.transcriptSearch.search(query);
+  }
+
+  async getDateAnalytics(query: DateQuery) {
+    await this.orchestrator.whenReady();
+    return this.transcriptSearch.analyze(query);
+  }
+
+  /**
+   * Outcome metrics per arm for an experiment's completed dates
+   */
+  async getExperimentResults(experimentId: string): Promise<ExperimentResults> {
+    const experiment = experimentRegistry.get(experimentId);
+    if (!experiment) {
+      throw new ExperimentError('Experiment not found', 404);
+    }
+    const enrolled = this.orchestrator.getCompletedDates()
+      .filter(date => date.agentAssignments?.some(assignment => assignment.experimentId === experimentId));
+    // Message counts need the transcripts, which completed dates don't keep in memory
+    const dates = await Promise.all(enrolled.map(date => this.orchestrator.withTranscript(date)));
+    return experimentRegistry.summarizeResults(experiment, collectOutcomes(experimentId, dates));
+  }
+
   getDatesForUser(userId: string) {
-    const completed = this.orchestrator.getCompletedDates().filter(date => date.user1Id === userId || date.user2Id === userId);
-    const active = this.orchestrator.getActiveDates().filter(date => date.user1Id === userId || date.user2Id === userId);
-    return [...active, ...completed];
+    const dates = this.orchestrator.getDatesForUser(userId);
+    return [
+      ...dates.filter(date => !isDateClosed(date)),
+      ...dates.filter(date => isDateClosed(date))
+    ];
+  }
+
+  /**
+   * Same as getDatesForUser, with transcripts loaded for completed dates
+   */
+  async getDatesForUserWithTranscripts(userId: string) {
+    await this.orchestrator.whenReady();
+    return Promise.all(this.getDatesForUser(userId).map(date => this.orchestrator.withTranscript(date)));
   }
 
   getDateById(dateId: string) {
     return this.orchestrator.getDateById(dateId);
   }
 
+  async getDateWithTranscript(dateId: string) {
+    await this.orchestrator.whenReady();
+    return this.orchestrator.getDateWithTranscript(dateId);
+  }
+
   getActiveCount(): number {
     return this.orchestrator.getActiveCount();
   }
@@ -246,6 +633,44 @@ class DatingService {
     return await generateCompatibilityInsight(userId, partnerId, allDates);
   }
 
+  /**
+   * Compare strategies by how many of their dates it took until a pair
+   * first qualified as a best match
+   */
+  getStrategyStats() {
+    const completed = this.orchestrator.getCompletedDates()
+      .filter(d => d.status === 'completed')
+      .sort((a, b) => a.endTime.getTime() - b.endTime.getTime());
+
+    return MATCHMAKING_STRATEGY_NAMES.map(name => {
+      const dates = completed.filter(d => (d.matchmakingStrategy || 'round-robin') === name);
+      const seen: DateSession[] = [];
+      const bestMatchPairs = new Set<string>();
+      let datesUntilFirstBestMatch: number | null = null;
+
+      for (const date of dates) {
+        seen.push(date);
+        const key = getPairKey(date.user1Id, date.user2Id);
+        if (bestMatchPairs.has(key)) continue;
+        if (bestMatchDetector.checkBestMatch(date.user1Id, date.user2Id, seen).isBestMatch) {
+          bestMatchPairs.add(key);
+          if (datesUntilFirstBestMatch === null) datesUntilFirstBestMatch = seen.length;
+        }
+      }
+
+      const withConfidence = dates.filter(d => d.confidence !== undefined);
+      return {
+        strategy: name,
+        totalDates: dates.length,
+        averageConfidence: withConfidence.length > 0
+          ? withConfidence.reduce((sum, d) => sum + d.confidence!, 0) / withConfidence.length
+          : null,
+        bestMatchesFound: bestMatchPairs.size,
+        datesUntilFirstBestMatch
+      };
+    });
+  }
+
   getBestMatchForUser(userId: string): { partnerId: string; partnerName: string; avgConfidence: number } | null {
     const allDates = this.orchestrator.getCompletedDates();
     
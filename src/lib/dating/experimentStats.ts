@@ -0,0 +1,136 @@
+/**
+ * Small statistics helpers for comparing experiment arms. Samples are tiny
+ * (tens of dates), so results are a rough guide rather than proof.
+ */
+
+export interface SampleSummary {
+  n: number;
+  mean: number | null;
+  stdDev: number | null;
+}
+
+export interface SignificanceTest {
+  test: 'welch-t' | 'two-proportion-z';
+  statistic: number;
+  pValue: number;
+  significant: boolean; // p < 0.05
+}
+
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export function summarize(values: number[]): SampleSummary {
+  const n = values.length;
+  if (n === 0) return { n, mean: null, stdDev: null };
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  if (n === 1) return { n, mean, stdDev: null };
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1);
+  return { n, mean, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * Continued fraction for the regularized incomplete beta function
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let term = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + term * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + term / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    term = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + term * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + term / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+  return result;
+}
+
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(x, a, b) / a
+    : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+/**
+ * Two-sided p-value for a t statistic with df degrees of freedom
+ */
+function studentTPValue(t: number, df: number): number {
+  return regularizedBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Two-sided p-value for a standard normal z statistic
+ */
+function normalPValue(z: number): number {
+  // Abramowitz and Stegun 7.1.26 approximation of erf
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return 1 - erf;
+}
+
+/**
+ * Welch's t-test for a difference in means. Null when either sample is too
+ * small or has no variance to test against.
+ */
+export function welchTTest(a: number[], b: number[]): SignificanceTest | null {
+  const sa = summarize(a);
+  const sb = summarize(b);
+  if (sa.n < 2 || sb.n < 2 || sa.stdDev === null || sb.stdDev === null) return null;
+
+  const va = sa.stdDev ** 2 / sa.n;
+  const vb = sb.stdDev ** 2 / sb.n;
+  if (va + vb === 0) return null;
+
+  const statistic = (sa.mean! - sb.mean!) / Math.sqrt(va + vb);
+  const df = (va + vb) ** 2 / (va ** 2 / (sa.n - 1) + vb ** 2 / (sb.n - 1));
+  const pValue = studentTPValue(statistic, df);
+  return { test: 'welch-t', statistic, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+/**
+ * Two-proportion z-test for a difference in rates
+ */
+export function twoProportionZTest(successesA: number, totalA: number, successesB: number, totalB: number): SignificanceTest | null {
+  if (totalA === 0 || totalB === 0) return null;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return null;
+
+  const statistic = (successesA / totalA - successesB / totalB) / standardError;
+  const pValue = normalPValue(statistic);
+  return { test: 'two-proportion-z', statistic, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
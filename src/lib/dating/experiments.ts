@@ -0,0 +1,297 @@
+import path from 'path';
+import type { DateSession } from './orchestrator';
+import { summarize, twoProportionZTest, welchTTest, type SampleSummary, type SignificanceTest } from './experimentStats';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * A/B experiments over date agents. While an experiment is running, every
+ * new agent is assigned one of its arms, which fixes the agent's model and
+ * can add a prompt variant. The assignment is stored on the date, and
+ * completed dates are compared per arm against the first (control) arm.
+ *
+ * The unit of analysis is an agent on a date: a date whose two agents landed
+ * in different arms counts once for each.
+ */
+
+export interface ExperimentArm {
+  id: string;
+  label?: string;
+  // Agent model; agents whose provider doesn't offer it aren't enrolled
+  model?: string;
+  // Instructions appended to the agent's system prompt
+  promptVariant?: string;
+  // Relative share of agents assigned to this arm
+  weight: number;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  description?: string;
+  arms: ExperimentArm[];
+  status: 'running' | 'stopped';
+  createdAt: string; // ISO date string
+  stoppedAt?: string; // ISO date string
+}
+
+/**
+ * How one agent on a date was set up
+ */
+export interface AgentAssignment {
+  userId: string;
+  // Missing on dates stored before assignments were recorded
+  provider?: string;
+  model?: string;
+  experimentId?: string;
+  armId?: string;
+}
+
+export interface ExperimentOutcome {
+  armId: string;
+  dateId: string;
+  confidence?: number;
+  compatibilityRating?: number;
+  messageCount: number;
+  // The director ended the date before its scheduled time ran out
+  endedEarly: boolean;
+}
+
+export interface ArmComparison {
+  confidence: SignificanceTest | null;
+  compatibilityRating: SignificanceTest | null;
+  messageCount: SignificanceTest | null;
+  earlyEndingRate: SignificanceTest | null;
+}
+
+export interface ArmResults {
+  armId: string;
+  label?: string;
+  model?: string;
+  hasPromptVariant: boolean;
+  agents: number;
+  dates: number;
+  confidence: SampleSummary;
+  compatibilityRating: SampleSummary;
+  messageCount: SampleSummary;
+  earlyEndings: { count: number; rate: number | null };
+  // Tests against the control arm; null on the control arm itself
+  vsControl: ArmComparison | null;
+}
+
+export interface ExperimentResults {
+  experiment: Experiment;
+  controlArmId: string;
+  arms: ArmResults[];
+}
+
+export class ExperimentError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'ExperimentError';
+    this.statusCode = statusCode;
+  }
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+function parseArm(value: unknown, index: number): ExperimentArm {
+  const arm = (value || {}) as Record<string, unknown>;
+  const armId = typeof arm.id === 'string' ? arm.id.trim() : '';
+  if (!ID_PATTERN.test(armId)) {
+    throw new ExperimentError(`arms[${index}].id must be a short id of letters, digits, - or _`);
+  }
+  if (arm.model !== undefined && (typeof arm.model !== 'string' || !arm.model.trim())) {
+    throw new ExperimentError(`arms[${index}].model must be a model id`);
+  }
+  if (arm.promptVariant !== undefined && (typeof arm.promptVariant !== 'string' || !arm.promptVariant.trim())) {
+    throw new ExperimentError(`arms[${index}].promptVariant must be non-empty text`);
+  }
+  if (arm.weight !== undefined && (typeof arm.weight !== 'number' || !(arm.weight > 0))) {
+    throw new ExperimentError(`arms[${index}].weight must be a positive number`);
+  }
+  if (!arm.model && !arm.promptVariant && index > 0) {
+    throw new ExperimentError(`arms[${index}] needs a model or promptVariant to differ from the control arm`);
+  }
+
+  return {
+    id: armId,
+    label: typeof arm.label === 'string' && arm.label.trim() ? arm.label.trim() : undefined,
+    model: typeof arm.model === 'string' ? arm.model.trim() : undefined,
+    promptVariant: typeof arm.promptVariant === 'string' ? arm.promptVariant.trim() : undefined,
+    weight: typeof arm.weight === 'number' ? arm.weight : 1
+  };
+}
+
+function isEarlyEnding(dateSession: DateSession): boolean {
+  return (dateSession.directorInterventions || [])
+    .some(intervention => intervention.type === 'end' && intervention.reason !== 'wrap_up_time');
+}
+
+/**
+ * One outcome per enrolled agent on each completed date of the experiment
+ */
+export function collectOutcomes(experimentId: string, dates: DateSession[]): ExperimentOutcome[] {
+  const outcomes: ExperimentOutcome[] = [];
+  for (const dateSession of dates) {
+    if (dateSession.status !== 'completed') continue;
+    for (const assignment of dateSession.agentAssignments || []) {
+      if (assignment.experimentId !== experimentId || !assignment.armId) continue;
+      outcomes.push({
+        armId: assignment.armId,
+        dateId: dateSession.id,
+        confidence: dateSession.confidence,
+        compatibilityRating: dateSession.compatibilityRating,
+        messageCount: dateSession.messages.length,
+        endedEarly: isEarlyEnding(dateSession)
+      });
+    }
+  }
+  return outcomes;
+}
+
+class ExperimentRegistry {
+  private store = new JsonFileStore<Experiment[]>(path.join(process.cwd(), 'data', 'dating', 'experiments.json'), 'experiments');
+  private experiments: Experiment[] | null = null;
+
+  private load(): Experiment[] {
+    if (this.experiments) return this.experiments;
+    this.experiments = this.store.read() || [];
+    return this.experiments!;
+  }
+
+  list(): Experiment[] {
+    return [...this.load()];
+  }
+
+  get(experimentId: string): Experiment | undefined {
+    return this.load().find(experiment => experiment.id === experimentId);
+  }
+
+  getRunning(): Experiment | undefined {
+    return this.load().find(experiment => experiment.status === 'running');
+  }
+
+  /**
+   * Declare and start an experiment. Only one runs at a time.
+   */
+  async create(input: Record<string, unknown>): Promise<Experiment> {
+    const id = typeof input.id === 'string' ? input.id.trim() : '';
+    if (!ID_PATTERN.test(id)) {
+      throw new ExperimentError('id must be a short id of letters, digits, - or _');
+    }
+    if (this.get(id)) {
+      throw new ExperimentError(`Experiment ${id} already exists`, 409);
+    }
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new ExperimentError('name required');
+    }
+    if (!Array.isArray(input.arms) || input.arms.length < 2) {
+      throw new ExperimentError('arms must list at least two arms, the first being the control');
+    }
+    const arms = input.arms.map(parseArm);
+    if (new Set(arms.map(arm => arm.id)).size !== arms.length) {
+      throw new ExperimentError('arm ids must be unique');
+    }
+    const running = this.getRunning();
+    if (running) {
+      throw new ExperimentError(`Stop experiment ${running.id} before starting another`, 409);
+    }
+
+    const experiment: Experiment = {
+      id,
+      name: input.name.trim(),
+      description: typeof input.description === 'string' ? input.description.trim() || undefined : undefined,
+      arms,
+      status: 'running',
+      createdAt: new Date().toISOString()
+    };
+    this.load().push(experiment);
+    await this.persist();
+    return experiment;
+  }
+
+  async stop(experimentId: string): Promise<Experiment> {
+    const experiment = this.get(experimentId);
+    if (!experiment) {
+      throw new ExperimentError('Experiment not found', 404);
+    }
+    if (experiment.status === 'running') {
+      experiment.status = 'stopped';
+      experiment.stoppedAt = new Date().toISOString();
+      await this.persist();
+    }
+    return experiment;
+  }
+
+  /**
+   * Pick an arm of the running experiment for a new agent, weighted by the
+   * arms' shares. Arms pinned to a model the agent's provider doesn't offer
+   * are skipped; null when nothing is running or no arm fits.
+   */
+  assignArm(availableModels: string[]): { experimentId: string; arm: ExperimentArm } | null {
+    const experiment = this.getRunning();
+    if (!experiment) return null;
+
+    const eligible = experiment.arms.filter(arm => !arm.model || availableModels.includes(arm.model));
+    const totalWeight = eligible.reduce((sum, arm) => sum + arm.weight, 0);
+    if (totalWeight === 0) return null;
+
+    let pick = Math.random() * totalWeight;
+    for (const arm of eligible) {
+      pick -= arm.weight;
+      if (pick < 0) return { experimentId: experiment.id, arm };
+    }
+    return { experimentId: experiment.id, arm: eligible[eligible.length - 1] };
+  }
+
+  /**
+   * Per-arm outcome metrics, each compared against the control arm
+   */
+  summarizeResults(experiment: Experiment, outcomes: ExperimentOutcome[]): ExperimentResults {
+    const control = experiment.arms[0];
+    const byArm = new Map<string, ExperimentOutcome[]>(experiment.arms.map(arm => [arm.id, []]));
+    outcomes.forEach(outcome => byArm.get(outcome.armId)?.push(outcome));
+
+    const valuesOf = (armOutcomes: ExperimentOutcome[], metric: 'confidence' | 'compatibilityRating' | 'messageCount') =>
+      armOutcomes.map(outcome => outcome[metric]).filter((value): value is number => typeof value === 'number');
+    const controlOutcomes = byArm.get(control.id) || [];
+
+    const arms = experiment.arms.map(arm => {
+      const armOutcomes = byArm.get(arm.id) || [];
+      const earlyCount = armOutcomes.filter(outcome => outcome.endedEarly).length;
+      const controlEarly = controlOutcomes.filter(outcome => outcome.endedEarly).length;
+
+      return {
+        armId: arm.id,
+        label: arm.label,
+        model: arm.model,
+        hasPromptVariant: !!arm.promptVariant,
+        agents: armOutcomes.length,
+        dates: new Set(armOutcomes.map(outcome => outcome.dateId)).size,
+        confidence: summarize(valuesOf(armOutcomes, 'confidence')),
+        compatibilityRating: summarize(valuesOf(armOutcomes, 'compatibilityRating')),
+        messageCount: summarize(valuesOf(armOutcomes, 'messageCount')),
+        earlyEndings: {
+          count: earlyCount,
+          rate: armOutcomes.length > 0 ? earlyCount / armOutcomes.length : null
+        },
+        vsControl: arm.id === control.id ? null : {
+          confidence: welchTTest(valuesOf(armOutcomes, 'confidence'), valuesOf(controlOutcomes, 'confidence')),
+          compatibilityRating: welchTTest(valuesOf(armOutcomes, 'compatibilityRating'), valuesOf(controlOutcomes, 'compatibilityRating')),
+          messageCount: welchTTest(valuesOf(armOutcomes, 'messageCount'), valuesOf(controlOutcomes, 'messageCount')),
+          earlyEndingRate: twoProportionZTest(earlyCount, armOutcomes.length, controlEarly, controlOutcomes.length)
+        }
+      };
+    });
+
+    return { experiment, controlArmId: control.id, arms };
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(this.load());
+  }
+}
+
+export const experimentRegistry = new ExperimentRegistry();
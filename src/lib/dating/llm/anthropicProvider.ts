@@ -0,0 +1,87 @@
+// Anthropic Messages API provider
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMProvider, LLMRequest, StreamTokenHandler } from './types';
+import { LLMRequestError } from './errors';
+
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-haiku-20240307';
+
+// OpenRouter-style model ids used elsewhere in the dating stack
+const MODEL_ALIASES: Record<string, string> = {
+  'anthropic/claude-3-haiku': 'claude-3-haiku-20240307',
+  'anthropic/claude-3-5-sonnet': 'claude-3-5-sonnet-20241022',
+};
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic | null;
+  private defaultModel: string;
+
+  constructor(apiKey?: string, defaultModel?: string) {
+    const key = apiKey || process.env.ANTHROPIC_API_KEY;
+    this.client = key ? new Anthropic({ apiKey: key }) : null;
+    this.defaultModel = defaultModel || process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL;
+  }
+
+  listModels(): string[] {
+    return Object.keys(MODEL_ALIASES);
+  }
+
+  async streamChat(request: LLMRequest, onToken?: StreamTokenHandler): Promise<string> {
+    const stream = this.getClient().messages.stream(this.buildParams(request), { signal: request.signal });
+    if (onToken) {
+      stream.on('text', onToken);
+    }
+    const message = await stream.finalMessage();
+    this.reportUsage(request, message);
+    const textBlock = message.content.find(block => block.type === 'text');
+    return textBlock && 'text' in textBlock ? textBlock.text.trim() : '';
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await this.getClient().messages.create(this.buildParams(request), { signal: request.signal });
+    this.reportUsage(request, response);
+    const textBlock = response.content.find(block => block.type === 'text');
+    return textBlock && 'text' in textBlock ? textBlock.text.trim() : '';
+  }
+
+  private reportUsage(request: LLMRequest, message: Anthropic.Message) {
+    request.onUsage?.({
+      model: message.model,
+      promptTokens: message.usage.input_tokens,
+      completionTokens: message.usage.output_tokens
+    });
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      throw new LLMRequestError('Anthropic API key is not configured. Set ANTHROPIC_API_KEY environment variable.', undefined, false);
+    }
+    return this.client;
+  }
+
+  private resolveModel(model?: string): string {
+    if (!model) return this.defaultModel;
+    if (MODEL_ALIASES[model]) return MODEL_ALIASES[model];
+    // Non-Anthropic ids (e.g. openai/gpt-4o) fall back to the default model
+    return model.includes('/') ? this.defaultModel : model;
+  }
+
+  private buildParams(request: LLMRequest) {
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    return {
+      model: this.resolveModel(request.model),
+      max_tokens: request.maxTokens ?? 150,
+      temperature: request.temperature ?? 0.7,
+      ...(system ? { system } : {}),
+      messages
+    };
+  }
+}
@@ -0,0 +1,45 @@
+// Errors raised by LLM providers and how callers should treat them
+
+// Worth retrying: timeouts, conflicts, rate limits and server errors
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429]);
+
+function isRetryableStatus(statusCode: number): boolean {
+  return RETRYABLE_STATUS_CODES.has(statusCode) || statusCode >= 500;
+}
+
+export class LLMRequestError extends Error {
+  public readonly statusCode?: number;
+  public readonly retryable: boolean;
+
+  constructor(message: string, statusCode?: number, retryable?: boolean) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.statusCode = statusCode;
+    this.retryable = retryable ?? (statusCode === undefined || isRetryableStatus(statusCode));
+  }
+}
+
+export class LLMTimeoutError extends LLMRequestError {
+  constructor(timeoutMs: number) {
+    super(`Model call timed out after ${timeoutMs}ms`, undefined, true);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * Whether a failed call may succeed if made again: timeouts, rate limits,
+ * server errors and dropped connections. Bad requests and auth failures aren't.
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  if (error instanceof LLMRequestError) return error.retryable;
+  // Anthropic SDK API errors carry the HTTP status
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return isRetryableStatus(status);
+  // fetch reports network failures as TypeError
+  if (error instanceof TypeError) return true;
+  return error instanceof Error && /connection|network|socket|ECONNRESET|ETIMEDOUT|terminated/i.test(error.message);
+}
+
+export function describeLLMError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
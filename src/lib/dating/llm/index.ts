@@ -0,0 +1,99 @@
+// LLM provider selection for the dating stack
+//
+// Provider resolution, most specific first:
+//   DATING_AGENT_PROVIDER_MAP   per-user overrides, e.g. "user-chaos-1=scripted,user-tech-3=anthropic"
+//   DATING_AGENT_LLM_PROVIDER   all date agents
+//   DATING_SUMMARY_LLM_PROVIDER summaries and other one-shot analysis calls
+//   DATING_LLM_PROVIDER         everything
+// When nothing is configured the first provider with an API key wins, and the
+// scripted provider is used when no keys are present at all.
+
+import { OpenRouterProvider } from './openRouterProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { ScriptedProvider } from './scriptedProvider';
+import { MeteredProvider } from './meteredProvider';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export type { ChatMessage, LLMCallContext, LLMProvider, LLMProviderName, LLMPurpose, LLMRequest, LLMTokenUsage, StreamTokenHandler } from './types';
+export { OpenRouterProvider, OPENROUTER_CHAT_MODELS } from './openRouterProvider';
+export { AnthropicProvider } from './anthropicProvider';
+export { ScriptedProvider, registerScriptedResponder } from './scriptedProvider';
+export { MeteredProvider } from './meteredProvider';
+export { LLMRequestError, LLMTimeoutError, isRetryableLLMError, describeLLMError } from './errors';
+export { SSEParser, type SSEMessage } from './sseParser';
+
+export type LLMRole = 'agent' | 'summary';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openrouter', 'anthropic', 'scripted'];
+
+// Providers are stateless apart from their clients, so share one per name.
+// Shared providers are metered so every call shows up in the usage stats.
+const providerCache: Map<LLMProviderName, LLMProvider> = new Map();
+
+function parseProviderName(value: string | undefined): LLMProviderName | null {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return null;
+  if (PROVIDER_NAMES.includes(normalized as LLMProviderName)) {
+    return normalized as LLMProviderName;
+  }
+  console.warn(`Unknown LLM provider "${value}", ignoring`);
+  return null;
+}
+
+function parseAgentProviderMap(): Map<string, LLMProviderName> {
+  const map = new Map<string, LLMProviderName>();
+  const raw = process.env.DATING_AGENT_PROVIDER_MAP || '';
+  for (const pair of raw.split(',')) {
+    const [userId, provider] = pair.split('=').map(part => part?.trim());
+    const name = parseProviderName(provider);
+    if (userId && name) map.set(userId, name);
+  }
+  return map;
+}
+
+function detectDefaultProvider(): LLMProviderName {
+  if (process.env.OPENROUTER_API_KEY) return 'openrouter';
+  if (process.env.ANTHROPIC_API_KEY) return 'anthropic';
+  return 'scripted';
+}
+
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openrouter':
+      return new OpenRouterProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'scripted':
+      return new ScriptedProvider();
+  }
+}
+
+export function getProviderByName(name: LLMProviderName): LLMProvider {
+  let provider = providerCache.get(name);
+  if (!provider) {
+    provider = new MeteredProvider(createLLMProvider(name));
+    providerCache.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Resolve the configured provider for a role, optionally for a specific user's agent
+ */
+export function resolveProviderName(role: LLMRole, userId?: string): LLMProviderName {
+  if (role === 'agent' && userId) {
+    const override = parseAgentProviderMap().get(userId);
+    if (override) return override;
+  }
+  const roleSetting = role === 'agent'
+    ? process.env.DATING_AGENT_LLM_PROVIDER
+    : process.env.DATING_SUMMARY_LLM_PROVIDER;
+
+  return parseProviderName(roleSetting)
+    || parseProviderName(process.env.DATING_LLM_PROVIDER)
+    || detectDefaultProvider();
+}
+
+export function getLLMProvider(role: LLMRole, userId?: string): LLMProvider {
+  return getProviderByName(resolveProviderName(role, userId));
+}
@@ -0,0 +1,73 @@
+// Usage metering wrapper around any LLM provider
+
+import { usageMeter, estimateTokens, estimateMessageTokens } from '../usageMeter';
+import type { LLMProvider, LLMRequest, LLMTokenUsage, StreamTokenHandler } from './types';
+
+/**
+ * Records model, tokens, latency and errors for every call made through the
+ * wrapped provider. Token counts come from the provider when its API reports
+ * them and are estimated from the text otherwise.
+ */
+export class MeteredProvider implements LLMProvider {
+  private inner: LLMProvider;
+
+  constructor(inner: LLMProvider) {
+    this.inner = inner;
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  listModels(): string[] {
+    return this.inner.listModels();
+  }
+
+  streamChat(request: LLMRequest, onToken?: StreamTokenHandler): Promise<string> {
+    return this.measure(request, metered => this.inner.streamChat(metered, onToken));
+  }
+
+  complete(request: LLMRequest): Promise<string> {
+    return this.measure(request, metered => this.inner.complete(metered));
+  }
+
+  private async measure(request: LLMRequest, call: (request: LLMRequest) => Promise<string>): Promise<string> {
+    let reported: LLMTokenUsage | null = null;
+    const metered: LLMRequest = {
+      ...request,
+      onUsage: usage => {
+        reported = usage;
+        request.onUsage?.(usage);
+      }
+    };
+
+    const startedAt = Date.now();
+    try {
+      const text = await call(metered);
+      this.record(request, Date.now() - startedAt, reported, text);
+      return text;
+    } catch (error) {
+      this.record(request, Date.now() - startedAt, reported, '', error);
+      throw error;
+    }
+  }
+
+  private record(request: LLMRequest, latencyMs: number, reported: LLMTokenUsage | null, text: string, error?: unknown) {
+    try {
+      usageMeter.record({
+        provider: this.inner.name,
+        model: reported?.model || request.model || `${this.inner.name}/default`,
+        purpose: request.purpose,
+        dateId: request.context?.dateId,
+        userId: request.context?.userId,
+        promptTokens: reported ? reported.promptTokens : estimateMessageTokens(request.messages),
+        completionTokens: reported ? reported.completionTokens : estimateTokens(text),
+        estimated: !reported,
+        latencyMs,
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error)
+      });
+    } catch (recordError) {
+      console.error('Failed to record LLM usage:', recordError);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+// OpenRouter chat completions provider
+
+import type { LLMProvider, LLMRequest, StreamTokenHandler } from './types';
+import { LLMRequestError } from './errors';
+import { SSEParser } from './sseParser';
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+
+export const OPENROUTER_CHAT_MODELS = [
+  'openai/gpt-4o-mini',
+  'openai/gpt-4o',
+  'anthropic/claude-3-haiku',
+  'anthropic/claude-3-5-sonnet',
+];
+
+interface OpenRouterChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  // Only on the last chunk, when usage was requested
+  usage?: OpenRouterUsage;
+  // Set instead of choices when the upstream model fails mid-stream
+  error?: { message?: string; code?: number | string };
+}
+
+interface OpenRouterUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export class OpenRouterProvider implements LLMProvider {
+  readonly name = 'openrouter' as const;
+  private apiKey: string;
+  private defaultModel: string;
+
+  constructor(apiKey?: string, defaultModel?: string) {
+    this.apiKey = apiKey || process.env.OPENROUTER_API_KEY || '';
+    this.defaultModel = defaultModel || process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini';
+  }
+
+  listModels(): string[] {
+    return [...OPENROUTER_CHAT_MODELS];
+  }
+
+  async streamChat(request: LLMRequest, onToken?: StreamTokenHandler): Promise<string> {
+    const response = await this.post(request, true);
+    return await this.processStreamResponse(response, request, onToken);
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    this.reportUsage(request, data.model, data.usage);
+    return (data.choices?.[0]?.message?.content || '').trim();
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    if (!this.apiKey) {
+      throw new LLMRequestError('OpenRouter API key is not configured. Set OPENROUTER_API_KEY environment variable.', undefined, false);
+    }
+
+    const response = await fetch(OPENROUTER_URL, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        'HTTP-Referer': process.env.OPENROUTER_HTTP_REFERER || 'http://localhost:3000',
+        'X-Title': process.env.OPENROUTER_APP_NAME || 'Isometric City Dating'
+      },
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        messages: request.messages,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? 150
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMRequestError(`OpenRouter request failed: ${response.statusText} - ${errorText}`, response.status);
+    }
+
+    return response;
+  }
+
+  private reportUsage(request: LLMRequest, model: string | undefined, usage: OpenRouterUsage | undefined) {
+    if (!usage) return;
+    request.onUsage?.({
+      model: model || request.model || this.defaultModel,
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0
+    });
+  }
+
+  private async processStreamResponse(response: Response, request: LLMRequest, onToken?: StreamTokenHandler): Promise<string> {
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+    let fullResponse = '';
+
+    if (!reader) throw new LLMRequestError('No response body');
+
+    const handle = (data: string) => {
+      if (data === '[DONE]') return;
+
+      let json: OpenRouterChunk;
+      try {
+        json = JSON.parse(data);
+      } catch {
+        console.warn('Skipping malformed OpenRouter stream event:', data.slice(0, 200));
+        return;
+      }
+
+      if (json.error) {
+        const code = Number(json.error.code);
+        throw new LLMRequestError(
+          `OpenRouter stream error: ${json.error.message || 'unknown error'}`,
+          Number.isFinite(code) ? code : undefined
+        );
+      }
+      const content = json.choices?.[0]?.delta?.content;
+      if (content) {
+        fullResponse += content;
+        onToken?.(content);
+      }
+      if (json.usage) {
+        this.reportUsage(request, json.model, json.usage);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true })).forEach(message => handle(message.data));
+    }
+    [...parser.push(decoder.decode()), ...parser.flush()].forEach(message => handle(message.data));
+
+    return fullResponse.trim();
+  }
+}
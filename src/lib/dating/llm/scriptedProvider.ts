@@ -0,0 +1,220 @@
+// Deterministic offline provider for CI and demos
+//
+// Responses are derived from a hash of the request, so the same conversation
+// always plays out the same way. Recorded responses can be replayed from a
+// JSONL file (one `{ "purpose": "...", "response": "..." }` per line) by
+// setting DATING_LLM_REPLAY_FILE; once a purpose runs out of recorded
+// responses the scripted responders take over.
+
+import fs from 'fs';
+import path from 'path';
+import type { LLMProvider, LLMPurpose, LLMRequest, StreamTokenHandler } from './types';
+
+export type ScriptedResponder = (request: LLMRequest, seed: number) => string;
+
+const SCRIPTED_MODELS = ['scripted/default'];
+
+const OPENERS = [
+  "Hi, it's really nice to finally meet you. How has your week been?",
+  "Hey! I almost didn't find this place, but I'm glad I did. What made you pick it?",
+  "Hello, you look just like your profile, which is a relief. How's your day going?",
+  "Hey there, I'm a little nervous, honestly, but excited. Tell me something fun about you.",
+];
+
+const REPLIES = [
+  "That's honestly fascinating, I never would have guessed that about you.",
+  "Ha, I can relate to that more than I'd like to admit.",
+  "I see it a bit differently, but I like hearing how you think about it.",
+  "That reminds me of a trip I took a couple of years ago, it changed how I see things.",
+  "I love that you're so passionate about it. What got you started?",
+  "Okay, that's a bold take, but I respect it.",
+  "I think we'd actually get along pretty well if that's how you spend your weekends.",
+  "Hmm, I'm not sure I agree, but tell me more.",
+];
+
+const CLOSERS = [
+  "This has been really fun, I'd like to do it again sometime.",
+  "I should head out soon, but thanks for a genuinely nice evening.",
+  "I had a good time, let's see where things go.",
+];
+
+// Used when the conversation director asks an agent to say goodbye
+const FAREWELLS = [
+  "Thank you for tonight, it was lovely. Goodnight!",
+  "It was really nice meeting you. Take care!",
+  "I'm glad we did this. Bye for now!",
+];
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(items: T[], seed: number): T {
+  return items[seed % items.length];
+}
+
+function scriptedChat(request: LLMRequest, seed: number): string {
+  const turn = request.messages.filter(m => m.role === 'assistant').length;
+  const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+
+  if (turn === 0 && lastUserMessage.startsWith('Start the date')) {
+    return pick(OPENERS, seed);
+  }
+  if (/\[Direction:[^\]]*goodbye/i.test(lastUserMessage)) {
+    return pick(FAREWELLS, seed + turn);
+  }
+  if (turn >= 6) {
+    return pick(CLOSERS, seed);
+  }
+  return pick(REPLIES, seed + turn);
+}
+
+function getTranscriptSpeakers(request: LLMRequest): string[] {
+  const prompt = request.messages.map(m => m.content).join('\n');
+  const transcript = prompt.includes('Conversation:')
+    ? prompt.slice(prompt.lastIndexOf('Conversation:'))
+    : prompt;
+  const speakers = new Set<string>();
+  for (const line of transcript.split('\n')) {
+    const match = line.match(/^([^:\n]{1,60}):\s/);
+    if (match) {
+      speakers.add(match[1].trim());
+    }
+  }
+  return Array.from(speakers).sort();
+}
+
+/**
+ * Rates a transcript from the speakers alone so repeated dates between the
+ * same pair land on the same score, which lets best-match detection settle.
+ */
+function getPairRating(names: string[]): number {
+  return 2 + (hashString(names.join('|')) % 8);
+}
+
+function scriptedSummary(request: LLMRequest): string {
+  const names = getTranscriptSpeakers(request);
+  const rating = getPairRating(names);
+  const pair = names.length >= 2 ? `${names[0]} and ${names[1]}` : 'The pair';
+
+  let summary: string;
+  let sentiment: string;
+  if (rating >= 7) {
+    summary = `${pair} clicked quickly and the conversation flowed well. They had fun, shared interests came up naturally and there is real potential here.`;
+    sentiment = 'Positive';
+  } else if (rating >= 5) {
+    summary = `${pair} had a pleasant conversation with some genuine moments, though a few topics felt forced. Mixed feelings overall.`;
+    sentiment = 'Neutral';
+  } else {
+    summary = `${pair} struggled to find common ground and the date felt awkward at times. They didn't connect and both seemed hesitant.`;
+    sentiment = 'Negative';
+  }
+
+  if (request.responseFormat === 'json') {
+    return JSON.stringify({ summary, sentiment, compatibilityRating: rating });
+  }
+  return summary;
+}
+
+function scriptedEvaluation(request: LLMRequest): string {
+  const names = getTranscriptSpeakers(request);
+  const rating = getPairRating(names);
+  const prompt = request.messages.map(m => m.content).join('\n');
+  const perspective = prompt.match(/from (.+?)'s perspective/)?.[1] || names[0] || '';
+
+  // Each side sees the date slightly differently, but stays near the pair rating
+  const score = (dimension: string, base: number) => {
+    const offset = (hashString(`${perspective}|${dimension}`) % 3) - 1;
+    return Math.max(0, Math.min(10, base + offset));
+  };
+
+  return JSON.stringify({
+    chemistry: score('chemistry', rating),
+    sharedValues: score('sharedValues', rating),
+    communication: score('communication', rating),
+    humor: score('humor', rating),
+    redFlags: score('redFlags', 10 - rating),
+    wouldDateAgain: rating >= 6,
+    reasoning: rating >= 6
+      ? 'The conversation felt easy and there was a real spark.'
+      : 'It was hard to find common ground and the conversation kept stalling.'
+  });
+}
+
+const responders: Partial<Record<LLMPurpose, ScriptedResponder>> = {
+  chat: scriptedChat,
+  summary: scriptedSummary,
+  evaluation: scriptedEvaluation,
+};
+
+/**
+ * Register (or replace) the scripted responder for a purpose
+ */
+export function registerScriptedResponder(purpose: LLMPurpose, responder: ScriptedResponder): void {
+  responders[purpose] = responder;
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted' as const;
+  private replayQueues: Map<string, string[]> = new Map();
+
+  constructor(replayFile: string | undefined = process.env.DATING_LLM_REPLAY_FILE) {
+    if (replayFile) {
+      this.loadReplayFile(replayFile);
+    }
+  }
+
+  listModels(): string[] {
+    return [...SCRIPTED_MODELS];
+  }
+
+  async streamChat(request: LLMRequest, onToken?: StreamTokenHandler): Promise<string> {
+    const text = this.respond(request);
+    if (onToken) {
+      for (const token of text.match(/\S+\s*/g) || []) {
+        onToken(token);
+      }
+    }
+    return text;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    return this.respond(request);
+  }
+
+  private respond(request: LLMRequest): string {
+    const replayed = this.replayQueues.get(request.purpose)?.shift();
+    if (replayed !== undefined) return replayed;
+
+    const responder = responders[request.purpose];
+    if (!responder) {
+      throw new Error(`No scripted responder registered for purpose "${request.purpose}"`);
+    }
+    const seed = hashString(request.messages.map(m => `${m.role}:${m.content}`).join('\n'));
+    return responder(request, seed).trim();
+  }
+
+  private loadReplayFile(replayFile: string) {
+    try {
+      const content = fs.readFileSync(path.resolve(process.cwd(), replayFile), 'utf-8');
+      for (const line of content.split('\n').filter(Boolean)) {
+        try {
+          const entry = JSON.parse(line);
+          if (typeof entry.purpose !== 'string' || typeof entry.response !== 'string') continue;
+          const queue = this.replayQueues.get(entry.purpose) || [];
+          queue.push(entry.response);
+          this.replayQueues.set(entry.purpose, queue);
+        } catch {
+          continue;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to load LLM replay file ${replayFile}:`, error);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+// Incremental parser for text/event-stream responses
+
+export interface SSEMessage {
+  event?: string;
+  id?: string;
+  data: string;
+}
+
+/**
+ * Feed decoded text as it arrives and get back every complete event. Lines
+ * and events split across network chunks are buffered until they finish,
+ * and \n, \r\n and \r line endings are all accepted.
+ */
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType: string | undefined;
+  private eventId: string | undefined;
+
+  push(chunk: string): SSEMessage[] {
+    this.buffer += chunk;
+    const messages: SSEMessage[] = [];
+
+    while (true) {
+      const lineEnd = this.buffer.search(/[\r\n]/);
+      if (lineEnd < 0) break;
+      // A trailing \r may be the first half of \r\n
+      if (this.buffer[lineEnd] === '\r' && lineEnd === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, lineEnd);
+      const separatorLength = this.buffer.startsWith('\r\n', lineEnd) ? 2 : 1;
+      this.buffer = this.buffer.slice(lineEnd + separatorLength);
+
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+    }
+    return messages;
+  }
+
+  /**
+   * Call once the stream ends to get an event that wasn't followed by a blank line
+   */
+  flush(): SSEMessage[] {
+    const messages: SSEMessage[] = [];
+    if (this.buffer) {
+      const line = this.buffer.replace(/\r$/, '');
+      this.buffer = '';
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+    }
+    const pending = this.dispatch();
+    if (pending) messages.push(pending);
+    return messages;
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null; // comment / keepalive
+
+    const colon = line.indexOf(':');
+    const field = colon < 0 ? line : line.slice(0, colon);
+    let value = colon < 0 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') this.dataLines.push(value);
+    else if (field === 'event') this.eventType = value;
+    else if (field === 'id') this.eventId = value;
+    return null;
+  }
+
+  private dispatch(): SSEMessage | null {
+    if (this.dataLines.length === 0) {
+      this.eventType = undefined;
+      return null;
+    }
+    const message: SSEMessage = {
+      data: this.dataLines.join('\n'),
+      ...(this.eventType ? { event: this.eventType } : {}),
+      ...(this.eventId !== undefined ? { id: this.eventId } : {})
+    };
+    this.dataLines = [];
+    this.eventType = undefined;
+    return message;
+  }
+}
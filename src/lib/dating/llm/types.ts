@@ -0,0 +1,57 @@
+// Shared types for the dating LLM provider layer
+
+export type LLMProviderName = 'openrouter' | 'anthropic' | 'scripted';
+
+/**
+ * What a request is for. Providers that talk to a real model ignore this,
+ * the scripted provider uses it to pick a deterministic responder.
+ */
+export type LLMPurpose = 'chat' | 'summary' | 'evaluation';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** Who a call is made for, so usage can be attributed */
+export interface LLMCallContext {
+  dateId?: string;
+  userId?: string;
+}
+
+/** Token counts for one call as reported by the provider's API */
+export interface LLMTokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMRequest {
+  purpose: LLMPurpose;
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a JSON object instead of free text */
+  responseFormat?: 'text' | 'json';
+  context?: LLMCallContext;
+  /** Aborts the call, e.g. when it runs past its timeout */
+  signal?: AbortSignal;
+  /** Providers call this with the usage their API reports, when it reports any */
+  onUsage?: (usage: LLMTokenUsage) => void;
+}
+
+export type StreamTokenHandler = (token: string) => void;
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /** Models this provider can serve, used when picking a model per agent */
+  listModels(): string[];
+
+  /** Stream a chat completion, invoking onToken for every text delta */
+  streamChat(request: LLMRequest, onToken?: StreamTokenHandler): Promise<string>;
+
+  /** One-shot completion returning the full text */
+  complete(request: LLMRequest): Promise<string>;
+}
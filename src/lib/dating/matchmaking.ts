@@ -0,0 +1,348 @@
+import type { DateSession } from './orchestrator';
+import type { UserProfile } from '@/lib/userDatabase';
+
+/**
+ * Matchmaking strategies decide which two free users go on the next date.
+ * The dating service builds the list of eligible pairs, strategies only
+ * choose between them.
+ */
+
+export type MatchmakingStrategyName = 'round-robin' | 'explore-exploit' | 'trait-overlap' | 'avoid-failed-pairs';
+
+export type CandidatePair = [UserProfile, UserProfile];
+
+export interface MatchmakingContext {
+  users: UserProfile[];
+  candidatePairs: CandidatePair[];
+  completedDates: DateSession[];
+}
+
+export interface MatchmakingStrategy {
+  readonly name: MatchmakingStrategyName;
+  readonly description: string;
+  selectPair(context: MatchmakingContext): CandidatePair | null;
+}
+
+interface PairStats {
+  dateCount: number;
+  avgConfidence: number;
+  hasFailed: boolean;
+}
+
+const FAILED_CONFIDENCE_THRESHOLD = 0.4;
+const FAILED_RATING_THRESHOLD = 4;
+const UNTRIED_PAIR_PRIOR = 0.5;
+
+export function getPairKey(userAId: string, userBId: string): string {
+  return [userAId, userBId].sort().join('|');
+}
+
+/**
+ * Aggregate completed dates per unordered pair
+ */
+export function getPairStats(dates: DateSession[]): Map<string, PairStats> {
+  const totals = new Map<string, { count: number; confidenceSum: number; confidenceCount: number; hasFailed: boolean }>();
+
+  for (const date of dates) {
+    if (date.status !== 'completed') continue;
+    const key = getPairKey(date.user1Id, date.user2Id);
+    const entry = totals.get(key) || { count: 0, confidenceSum: 0, confidenceCount: 0, hasFailed: false };
+    entry.count++;
+    if (date.confidence !== undefined) {
+      entry.confidenceSum += date.confidence;
+      entry.confidenceCount++;
+    }
+    if (
+      (date.confidence !== undefined && date.confidence < FAILED_CONFIDENCE_THRESHOLD) ||
+      (date.compatibilityRating !== undefined && date.compatibilityRating < FAILED_RATING_THRESHOLD)
+    ) {
+      entry.hasFailed = true;
+    }
+    totals.set(key, entry);
+  }
+
+  const stats = new Map<string, PairStats>();
+  totals.forEach((entry, key) => {
+    stats.set(key, {
+      dateCount: entry.count,
+      avgConfidence: entry.confidenceCount > 0 ? entry.confidenceSum / entry.confidenceCount : UNTRIED_PAIR_PRIOR,
+      hasFailed: entry.hasFailed
+    });
+  });
+  return stats;
+}
+
+/**
+ * The free user who has waited longest since their last date (never-dated users first)
+ */
+function pickLongestWaitingUser(context: MatchmakingContext): UserProfile | null {
+  const lastDateAt = new Map<string, number>();
+  for (const date of context.completedDates) {
+    const time = date.endTime.getTime();
+    for (const id of [date.user1Id, date.user2Id]) {
+      lastDateAt.set(id, Math.max(lastDateAt.get(id) || 0, time));
+    }
+  }
+
+  let best: UserProfile | null = null;
+  let bestTime = Infinity;
+  for (const user of getUsersWithCandidates(context)) {
+    const time = lastDateAt.get(user.id) || 0;
+    if (time < bestTime) {
+      best = user;
+      bestTime = time;
+    }
+  }
+  return best;
+}
+
+function getUsersWithCandidates(context: MatchmakingContext): UserProfile[] {
+  const ids = new Set<string>();
+  context.candidatePairs.forEach(([a, b]) => {
+    ids.add(a.id);
+    ids.add(b.id);
+  });
+  return context.users.filter(user => ids.has(user.id));
+}
+
+function getPartnerCandidates(context: MatchmakingContext, userId: string): CandidatePair[] {
+  return context.candidatePairs.filter(([a, b]) => a.id === userId || b.id === userId);
+}
+
+function getPartner(pair: CandidatePair, userId: string): UserProfile {
+  return pair[0].id === userId ? pair[1] : pair[0];
+}
+
+/**
+ * Cycles through the roster, giving each user a turn and rotating through
+ * their possible partners in roster order.
+ */
+export class RoundRobinStrategy implements MatchmakingStrategy {
+  readonly name: MatchmakingStrategyName = 'round-robin';
+  readonly description: string = 'Each user takes a turn in roster order and rotates through partners';
+  private userCursor = 0;
+  private lastPartnerIndex: Map<string, number> = new Map();
+
+  selectPair(context: MatchmakingContext): CandidatePair | null {
+    const { users } = context;
+    if (users.length === 0) return null;
+
+    for (let i = 0; i < users.length; i++) {
+      const idx = (this.userCursor + i) % users.length;
+      const user = users[idx];
+      const pairs = this.filterPairs(getPartnerCandidates(context, user.id), context);
+      if (pairs.length === 0) continue;
+
+      const partnerIndexes = pairs
+        .map(pair => ({ pair, index: users.findIndex(u => u.id === getPartner(pair, user.id).id) }))
+        .sort((a, b) => a.index - b.index);
+      const last = this.lastPartnerIndex.get(user.id) ?? -1;
+      const next = partnerIndexes.find(entry => entry.index > last) || partnerIndexes[0];
+
+      this.userCursor = (idx + 1) % users.length;
+      this.lastPartnerIndex.set(user.id, next.index);
+      this.lastPartnerIndex.set(users[next.index].id, idx);
+      return next.pair;
+    }
+    return null;
+  }
+
+  protected filterPairs(pairs: CandidatePair[], _context: MatchmakingContext): CandidatePair[] {
+    return pairs;
+  }
+}
+
+/**
+ * Round-robin that never re-books a pair whose earlier date failed
+ */
+export class AvoidFailedPairsStrategy extends RoundRobinStrategy {
+  readonly name: MatchmakingStrategyName = 'avoid-failed-pairs';
+  readonly description: string = 'Round-robin, skipping pairs that already had a failed date';
+
+  protected filterPairs(pairs: CandidatePair[], context: MatchmakingContext): CandidatePair[] {
+    const stats = getPairStats(context.completedDates);
+    return pairs.filter(([a, b]) => !stats.get(getPairKey(a.id, b.id))?.hasFailed);
+  }
+}
+
+/**
+ * Epsilon-greedy: usually rebook the partner with the best average
+ * confidence, sometimes try someone new.
+ */
+export class ExploreExploitStrategy implements MatchmakingStrategy {
+  readonly name: MatchmakingStrategyName = 'explore-exploit';
+  readonly description: string = 'Favor partners with high average confidence while still exploring new pairs';
+
+  constructor(private explorationRate: number = 0.3, private random: () => number = Math.random) {}
+
+  selectPair(context: MatchmakingContext): CandidatePair | null {
+    const seeker = pickLongestWaitingUser(context);
+    if (!seeker) return null;
+
+    const pairs = getPartnerCandidates(context, seeker.id);
+    const stats = getPairStats(context.completedDates);
+    const untried = pairs.filter(([a, b]) => !stats.has(getPairKey(a.id, b.id)));
+
+    if (untried.length > 0 && (this.random() < this.explorationRate || untried.length === pairs.length)) {
+      return untried[Math.floor(this.random() * untried.length)];
+    }
+
+    let best: CandidatePair | null = null;
+    let bestScore = -Infinity;
+    for (const pair of pairs) {
+      const score = stats.get(getPairKey(pair[0].id, pair[1].id))?.avgConfidence ?? UNTRIED_PAIR_PRIOR;
+      if (score > bestScore) {
+        best = pair;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+}
+
+function getSignalTokens(user: UserProfile): Set<string> {
+  const signals = [
+    ...(user.photoAnalysis?.compatibilitySignals || []),
+    ...(user.photoAnalysis?.combinedTraits || [])
+  ];
+  const tokens = new Set<string>();
+  for (const signal of signals) {
+    for (const word of signal.toLowerCase().split(/[^a-z]+/)) {
+      if (word.length > 3) tokens.add(word);
+    }
+  }
+  return tokens;
+}
+
+function getSharedSignals(user: UserProfile, partner: UserProfile): { shared: string[]; overlap: number } {
+  const userTokens = getSignalTokens(user);
+  const partnerTokens = getSignalTokens(partner);
+  const union = new Set([...userTokens, ...partnerTokens]);
+  const shared = [...userTokens].filter(token => partnerTokens.has(token));
+  return { shared, overlap: union.size > 0 ? shared.length / union.size : 0 };
+}
+
+/**
+ * Pairs the longest-waiting user with the partner whose photo-analysis
+ * compatibility signals overlap most with theirs.
+ */
+export class TraitOverlapStrategy implements MatchmakingStrategy {
+  readonly name: MatchmakingStrategyName = 'trait-overlap';
+  readonly description: string = 'Match on overlapping photo-analysis compatibility signals';
+
+  selectPair(context: MatchmakingContext): CandidatePair | null {
+    const seeker = pickLongestWaitingUser(context);
+    if (!seeker) return null;
+
+    const stats = getPairStats(context.completedDates);
+    let best: CandidatePair | null = null;
+    let bestScore = -Infinity;
+
+    for (const pair of getPartnerCandidates(context, seeker.id)) {
+      const { overlap } = getSharedSignals(seeker, getPartner(pair, seeker.id));
+      // Small penalty per previous date so equal-overlap partners rotate
+      const repeats = stats.get(getPairKey(pair[0].id, pair[1].id))?.dateCount || 0;
+      const score = overlap - repeats * 0.01;
+      if (score > bestScore) {
+        best = pair;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+}
+
+export interface PairingExplanation {
+  compatibilityPercentage: number;
+  // Where the percentage comes from: earlier dates between the two, or their profiles
+  basis: 'prior-dates' | 'profile';
+  reasons: string[];
+}
+
+// Profile-only estimates stay within this range; real dates can go further
+const PROFILE_ESTIMATE_RANGE = { min: 50, max: 90 };
+
+/**
+ * Estimate how well two users fit, preferring what their earlier dates
+ * showed over what their profiles suggest
+ */
+export function explainPairing(user: UserProfile, partner: UserProfile, completedDates: DateSession[]): PairingExplanation {
+  const stats = getPairStats(completedDates).get(getPairKey(user.id, partner.id));
+  if (stats) {
+    const reasons = [
+      `${stats.dateCount} previous date${stats.dateCount === 1 ? '' : 's'} averaging ${Math.round(stats.avgConfidence * 100)}% confidence`
+    ];
+    if (stats.hasFailed) {
+      reasons.push('one of their earlier dates went badly, so this is a second chance');
+    }
+    return {
+      compatibilityPercentage: Math.round(stats.avgConfidence * 100),
+      basis: 'prior-dates',
+      reasons
+    };
+  }
+
+  const { shared, overlap } = getSharedSignals(user, partner);
+  const { min, max } = PROFILE_ESTIMATE_RANGE;
+  return {
+    compatibilityPercentage: Math.round(min + Math.sqrt(overlap) * (max - min)),
+    basis: 'profile',
+    reasons: shared.length > 0
+      ? [`first date; profiles share ${shared.slice(0, 5).join(', ')}`]
+      : ['first date; no overlapping traits in their profiles yet, so this date will tell']
+  };
+}
+
+/**
+ * Best available partner for one user, ranked by explainPairing. Pairs with
+ * a failed date rank below untried ones.
+ */
+export function pickPartnerFor(
+  user: UserProfile,
+  candidatePairs: CandidatePair[],
+  completedDates: DateSession[]
+): { pair: CandidatePair; explanation: PairingExplanation } | null {
+  const pairs = candidatePairs.filter(([a, b]) => a.id === user.id || b.id === user.id);
+  const stats = getPairStats(completedDates);
+
+  let best: { pair: CandidatePair; explanation: PairingExplanation } | null = null;
+  let bestScore = -Infinity;
+  for (const pair of pairs) {
+    const explanation = explainPairing(user, getPartner(pair, user.id), completedDates);
+    const failed = stats.get(getPairKey(pair[0].id, pair[1].id))?.hasFailed;
+    const score = explanation.compatibilityPercentage - (failed ? 100 : 0);
+    if (score > bestScore) {
+      best = { pair, explanation };
+      bestScore = score;
+    }
+  }
+
+  if (best && pairs.length > 1) {
+    best.explanation.reasons.push(`highest estimated compatibility of ${pairs.length} available partners`);
+  }
+  return best;
+}
+
+export const MATCHMAKING_STRATEGY_NAMES: MatchmakingStrategyName[] = [
+  'round-robin',
+  'explore-exploit',
+  'trait-overlap',
+  'avoid-failed-pairs',
+];
+
+export function isMatchmakingStrategyName(value: unknown): value is MatchmakingStrategyName {
+  return typeof value === 'string' && MATCHMAKING_STRATEGY_NAMES.includes(value as MatchmakingStrategyName);
+}
+
+export function createMatchmakingStrategy(name: MatchmakingStrategyName): MatchmakingStrategy {
+  switch (name) {
+    case 'round-robin':
+      return new RoundRobinStrategy();
+    case 'explore-exploit':
+      return new ExploreExploitStrategy();
+    case 'trait-overlap':
+      return new TraitOverlapStrategy();
+    case 'avoid-failed-pairs':
+      return new AvoidFailedPairsStrategy();
+  }
+}
@@ -0,0 +1,270 @@
+import path from 'path';
+import { datingEventBus, type DateSession } from './orchestrator';
+import type { DateEvent } from './dateEvents';
+import { sseConnectionManager, type StreamEvent } from './sseConnectionManager';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * Per-user notification inbox for the iOS client. Every notification is
+ * stored before it's pushed, so devices that were offline pick it up on
+ * their next connection or by paging through /api/dating/notifications.
+ *
+ * A notification is read once the user has seen it and acknowledged once
+ * they've acted on it (accepted the booking, dismissed it). Acknowledged
+ * notifications are no longer replayed to newly connected devices.
+ */
+
+export type NotificationKind = 'match' | 'dateCompleted' | 'bestMatch';
+
+export interface MatchDetails {
+  partnerId: string;
+  partnerName: string;
+  compatibilityPercentage: number;
+  locationImageUrl?: string;
+  restaurantName?: string;
+  bookingId?: string;
+  bookingTime?: string;
+  // Why this partner was chosen
+  explanation?: string;
+}
+
+export interface InboxNotification {
+  id: string;
+  userId: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  createdAt: string; // ISO date string
+  readAt?: string; // ISO date string
+  acknowledgedAt?: string; // ISO date string
+}
+
+export interface NotificationPage {
+  notifications: InboxNotification[];
+  // Pass as `before` to get the next (older) page; null on the last page
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+interface NotificationSource {
+  getDateById(dateId: string): DateSession | undefined;
+}
+
+// Oldest notifications are dropped past this many per user
+const MAX_NOTIFICATIONS_PER_USER = 200;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * How a notification goes out on the match stream. Match notifications keep
+ * the flat payload the stream has always sent, so existing clients reading
+ * the match fields at the top level keep working; notificationId is there to
+ * read or acknowledge it. Other kinds are named events (dateCompleted,
+ * bestMatch) carrying the whole notification, which clients that only
+ * handle unnamed messages never see.
+ */
+export function toStreamEvent(notification: InboxNotification): StreamEvent {
+  if (notification.kind === 'match') {
+    return { id: notification.id, data: { ...notification.data, notificationId: notification.id } };
+  }
+  return { id: notification.id, event: notification.kind, data: notification };
+}
+
+class NotificationInbox {
+  private store = new JsonFileStore<Record<string, InboxNotification[]>>(path.join(process.cwd(), 'data', 'dating', 'notifications.json'), 'notifications');
+  private source: NotificationSource | null = null;
+  private inboxes: Map<string, InboxNotification[]> | null = null;
+  private nextId = 0;
+
+  /**
+   * Start turning finished dates and best matches into notifications
+   */
+  attach(source: NotificationSource): void {
+    if (this.source) return;
+    this.source = source;
+
+    datingEventBus.on('dateEvent', (event: DateEvent) => {
+      if (event.type === 'dateCompleted') {
+        this.notifyDateCompleted(event.dateId, event.confidence).catch(error =>
+          console.error('Failed to send date notifications:', error));
+      } else if (event.type === 'bestMatchFound') {
+        this.notify(event.agentId, 'bestMatch', `${event.partnerName} is your best match`, event.message, {
+          partnerId: event.partnerId,
+          partnerName: event.partnerName,
+          relationshipStage: event.relationshipStage
+        }).catch(error => console.error('Failed to send best match notification:', error));
+      }
+    });
+  }
+
+  private load(): Map<string, InboxNotification[]> {
+    if (this.inboxes) return this.inboxes;
+    this.inboxes = new Map();
+    // Nothing stored until the first notification
+    Object.entries(this.store.read() || {}).forEach(([userId, notifications]) => this.inboxes!.set(userId, notifications));
+    return this.inboxes;
+  }
+
+  private getInbox(userId: string): InboxNotification[] {
+    return this.load().get(userId) || [];
+  }
+
+  /**
+   * Store a notification and push it to every device the user has connected
+   */
+  async notify(
+    userId: string,
+    kind: NotificationKind,
+    title: string,
+    body: string,
+    data: Record<string, unknown> = {}
+  ): Promise<InboxNotification> {
+    const notification: InboxNotification = {
+      id: `${Date.now().toString(36)}-${(this.nextId++).toString(36)}`,
+      userId,
+      kind,
+      title,
+      body,
+      data,
+      createdAt: new Date().toISOString()
+    };
+
+    const inbox = [...this.getInbox(userId), notification];
+    this.load().set(userId, inbox.slice(-MAX_NOTIFICATIONS_PER_USER));
+    await this.persist();
+
+    sseConnectionManager.send(userId, toStreamEvent(notification));
+    return notification;
+  }
+
+  async notifyMatch(userId: string, match: MatchDetails): Promise<InboxNotification> {
+    const where = match.restaurantName ? ` at ${match.restaurantName}` : '';
+    return this.notify(
+      userId,
+      'match',
+      `You matched with ${match.partnerName}`,
+      `${match.compatibilityPercentage}% compatible. Your date is booked${where}.`,
+      { ...match }
+    );
+  }
+
+  private async notifyDateCompleted(dateId: string, confidence?: number): Promise<void> {
+    const dateSession = this.source?.getDateById(dateId);
+    if (!dateSession) return;
+
+    const sides = [
+      { userId: dateSession.user1Id, partnerId: dateSession.user2Id, partnerName: dateSession.user2Name },
+      { userId: dateSession.user2Id, partnerId: dateSession.user1Id, partnerName: dateSession.user1Name }
+    ];
+    await Promise.all(sides.map(side => this.notify(
+      side.userId,
+      'dateCompleted',
+      `Your date with ${side.partnerName} is over`,
+      dateSession.summary || 'See how it went in the app.',
+      { dateId, partnerId: side.partnerId, partnerName: side.partnerName, confidence }
+    )));
+  }
+
+  /**
+   * Newest-first page of a user's inbox. `before` is the cursor from the
+   * previous page.
+   */
+  list(userId: string, options: { before?: string; limit?: number; unreadOnly?: boolean } = {}): NotificationPage {
+    const limit = Math.min(Math.max(1, options.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    let notifications = [...this.getInbox(userId)].reverse();
+    if (options.unreadOnly) {
+      notifications = notifications.filter(notification => !notification.readAt);
+    }
+    if (options.before) {
+      const cursorIndex = notifications.findIndex(notification => notification.id === options.before);
+      notifications = cursorIndex >= 0 ? notifications.slice(cursorIndex + 1) : [];
+    }
+
+    const page = notifications.slice(0, limit);
+    return {
+      notifications: page,
+      nextCursor: notifications.length > limit ? page[page.length - 1].id : null,
+      unreadCount: this.getUnreadCount(userId)
+    };
+  }
+
+  getUnreadCount(userId: string): number {
+    return this.getInbox(userId).filter(notification => !notification.readAt).length;
+  }
+
+  /**
+   * Notifications a device that just connected should receive, oldest first:
+   * everything after its Last-Event-ID, or everything not yet acknowledged
+   */
+  getUndelivered(userId: string, lastEventId?: string | null): InboxNotification[] {
+    const inbox = this.getInbox(userId);
+    const lastIndex = lastEventId ? inbox.findIndex(notification => notification.id === lastEventId) : -1;
+    if (lastIndex >= 0) {
+      return inbox.slice(lastIndex + 1);
+    }
+    return inbox.filter(notification => !notification.acknowledgedAt);
+  }
+
+  /**
+   * Mark notifications read. Pass no ids to mark the whole inbox. Returns how
+   * many changed.
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    return this.update(userId, ids, (notification, now) => {
+      if (notification.readAt) return false;
+      notification.readAt = now;
+      return true;
+    });
+  }
+
+  /**
+   * Acknowledge notifications, which also marks them read. Pass no ids to
+   * acknowledge the whole inbox. Returns how many changed.
+   */
+  async acknowledge(userId: string, ids?: string[]): Promise<number> {
+    return this.update(userId, ids, (notification, now) => {
+      if (notification.acknowledgedAt) return false;
+      notification.acknowledgedAt = now;
+      notification.readAt = notification.readAt || now;
+      return true;
+    });
+  }
+
+  /**
+   * Every stored notification for a user, acknowledged ones included
+   */
+  exportInbox(userId: string): InboxNotification[] {
+    return [...this.getInbox(userId)];
+  }
+
+  async deleteInbox(userId: string): Promise<void> {
+    if (this.load().delete(userId)) {
+      await this.persist();
+    }
+  }
+
+  private async update(
+    userId: string,
+    ids: string[] | undefined,
+    apply: (notification: InboxNotification, now: string) => boolean
+  ): Promise<number> {
+    const wanted = ids ? new Set(ids) : null;
+    const now = new Date().toISOString();
+    let changed = 0;
+    for (const notification of this.getInbox(userId)) {
+      if (wanted && !wanted.has(notification.id)) continue;
+      if (apply(notification, now)) changed++;
+    }
+    if (changed > 0) {
+      await this.persist();
+    }
+    return changed;
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Object.fromEntries(this.load()));
+  }
+}
+
+export const notificationInbox = new NotificationInbox();
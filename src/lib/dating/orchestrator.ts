@@ -1,12 +1,39 @@
-import { DatingAgent } from './datingAgent';
+import { DatingAgent, type AgentFailure, type RespondOptions } from './datingAgent';
 import { generateSystemPrompt } from './systemPrompts';
 import type { UserProfile } from '@/lib/userDatabase';
-import Anthropic from '@anthropic-ai/sdk';
+import { getLLMProvider, type LLMProvider } from './llm';
 import { EventEmitter } from 'events';
-import { promises as fs } from 'fs';
-import path from 'path';
 import { calculateConfidenceFromSummary } from './confidenceFromSummary';
 import { bestMatchDetector } from './bestMatchDetector';
+import { agentMemoryStore } from './agentMemory';
+import { evaluateDate, deriveConfidenceFromEvaluation, type DateEvaluation } from './dateEvaluation';
+import { conversationDirector, type DirectorIntervention } from './conversationDirector';
+import {
+  describeRelationshipArc,
+  formatStage,
+  relationshipProgression,
+  type RelationshipStage,
+  type StageTransition,
+} from './relationshipProgression';
+import { updateUserRelationshipFields } from '@/lib/userDatabase';
+import type { DateVenue } from './venues';
+import { summarizeSetting, type WorldContext } from './worldContext';
+import { worldContextService } from './worldContextService';
+import { dateEventLog, toDateSnapshot } from './dateEvents';
+import { randomInRange, simulationConfig } from './simulationConfig';
+import { experimentRegistry, type AgentAssignment } from './experiments';
+import { dateRepository, type DateRepository, type StoredAgentState, type StoredDateMessage, type StoredDateRecord } from './storage';
+
+type DateMessage = { sender: string; senderName: string; message: string; timestamp: Date };
+
+function toDateMessages(stored: StoredDateMessage[]): DateMessage[] {
+  return stored.map(message => ({
+    sender: message.sender,
+    senderName: message.senderName,
+    message: message.message,
+    timestamp: new Date(message.timestamp)
+  }));
+}
 
 export interface DateSession {
   id: string;
@@ -19,114 +46,230 @@ export interface DateSession {
   startTime: Date;
   endTime: Date;
   messages: Array<{ sender: string; senderName: string; message: string; timestamp: Date }>;
-  status: 'scheduled' | 'active' | 'summarizing' | 'completed';
+  status: 'scheduled' | 'active' | 'summarizing' | 'completed' | 'cancelled';
   summary?: string;
   sentiment?: string;
   compatibilityRating?: number;
   conversationHistory?: Array<{ sender: string; senderName: string; message: string; timestamp: Date }>;
   confidence?: number;
+  evaluation?: DateEvaluation;
+  matchmakingStrategy?: string;
+  directorInterventions?: DirectorIntervention[];
+  // Stage the pair was at when the date started, and where it left them
+  relationshipStage?: RelationshipStage;
+  stageTransition?: StageTransition;
+  // City building the date takes place at
+  venue?: DateVenue;
+  // Simulation time, weather and neighborhood when the date was scheduled
+  worldContext?: WorldContext;
+  // Provider, model and experiment arm of each agent
+  agentAssignments?: AgentAssignment[];
+  // Model failures, retries and fallbacks during the date
+  agentFailures?: AgentFailure[];
+}
+
+/**
+ * Completed and cancelled dates won't change again
+ */
+export function isDateClosed(dateSession: Pick<DateSession, 'status'>): boolean {
+  return dateSession.status === 'completed' || dateSession.status === 'cancelled';
+}
+
+export interface ScheduleDateOptions {
+  matchmakingStrategy?: string;
+  venue?: DateVenue;
 }
 
 export const datingEventBus = new EventEmitter();
 
-const CHAT_MODELS = [
-  'openai/gpt-4o-mini',
-  'openai/gpt-4o',
-  'anthropic/claude-3-haiku',
-  'anthropic/claude-3-5-sonnet',
-];
+// How long past endTime a date may run while the director wraps it up
+const WRAP_UP_GRACE_MS = 60000;
+// Turns in a row an agent may fail before the date is ended
+const MAX_FAILED_TURNS = 3;
+// Most failures kept on a session
+const MAX_RECORDED_FAILURES = 50;
 
 export class DateOrchestrator {
   private activeDates: Map<string, DateSession> = new Map();
   private dateQueue: DateSession[] = [];
-  private completedDates: Map<string, DateSession> = new Map();
-  private anthropicClient: Anthropic | null = null;
-  private openRouterApiKey: string = '';
-  private logDir = path.join(process.cwd(), 'logs', 'dating');
+  // Completed and cancelled dates, loaded from storage as they're asked for
+  private closedDates: Map<string, DateSession> = new Map();
+  private summaryProvider: LLMProvider;
+  private repository: DateRepository;
+  private ready: Promise<void>;
+  private runningConversations: Set<string> = new Set();
 
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Dates past their end time with no conversation loop to close them (for
+   * example ones that expired while the server was down) get summarized now.
+   * endDate flips them to summarizing synchronously, so each is only picked up once.
+   */
   private pruneExpiredActiveDates(): void {
     const now = Date.now();
     for (const [id, dateSession] of this.activeDates.entries()) {
       if (dateSession.status === 'summarizing') continue;
       if (dateSession.endTime.getTime() > now) continue;
-      dateSession.status = 'completed';
-      dateSession.conversationHistory = [...dateSession.messages];
-      if (!dateSession.summary) {
-        dateSession.summary = 'Date completed.';
-      }
-      if (!dateSession.sentiment) {
-        dateSession.sentiment = 'Neutral';
-      }
-      if (dateSession.compatibilityRating === undefined) {
-        dateSession.compatibilityRating = 5;
-      }
-      if (dateSession.summary && dateSession.confidence === undefined) {
-        dateSession.confidence = calculateConfidenceFromSummary(dateSession.summary);
-      }
-      this.completedDates.set(id, dateSession);
-      this.activeDates.delete(id);
-      datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+      // A live conversation loop closes its own date once the director wraps it up
+      if (this.runningConversations.has(id)) continue;
+      this.endDate(id).catch(error => console.error(`Failed to end expired date ${id}:`, error));
     }
   }
 
   // Expose getter for backfilling
   getAllCompletedDates(): DateSession[] {
-    return Array.from(this.completedDates.values());
+    return this.getCompletedDates();
+  }
+
+  constructor(repository: DateRepository = dateRepository) {
+    this.summaryProvider = getLLMProvider('summary');
+    this.repository = repository;
+    this.ready = this.loadState();
+  }
+
+  /**
+   * Resolves once stored dates have been loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
   }
 
-  constructor() {
-    this.initializeAnthropic();
-    this.initializeOpenRouter();
-    this.loadStateFromLogs();
-    // Backfill confidence for existing dates after loading state
-    this.backfillConfidenceScores();
+  private getRandomModel(provider: LLMProvider): string {
+    const models = simulationConfig.getModelPool(provider.name, provider.listModels());
+    return models[Math.floor(Math.random() * models.length)];
   }
 
-  private initializeAnthropic() {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (apiKey) {
-      this.anthropicClient = new Anthropic({ apiKey });
+  private createAgent(user: UserProfile, systemPrompt: string, dateId: string, model?: string): DatingAgent {
+    const provider = getLLMProvider('agent', user.id);
+    // Keep a restored agent's model when the provider still offers it
+    const agentModel = model && provider.listModels().includes(model) ? model : this.getRandomModel(provider);
+    return new DatingAgent(user, systemPrompt, provider, agentModel, dateId);
+  }
+
+  /**
+   * Build a new date's agent. A running experiment picks the agent's arm,
+   * which can fix its model and add a prompt variant.
+   */
+  private createAssignedAgent(user: UserProfile, systemPrompt: string, dateId: string): { agent: DatingAgent; assignment: AgentAssignment } {
+    const provider = getLLMProvider('agent', user.id);
+    const enrolled = experimentRegistry.assignArm(provider.listModels());
+    const arm = enrolled?.arm;
+    const prompt = arm?.promptVariant ? `${systemPrompt}\n\n${arm.promptVariant}` : systemPrompt;
+    const agent = this.createAgent(user, prompt, dateId, arm?.model);
+
+    return {
+      agent,
+      assignment: {
+        userId: user.id,
+        provider: provider.name,
+        model: agent.getModel(),
+        experimentId: enrolled?.experimentId,
+        armId: arm?.id
+      }
+    };
+  }
+
+  /**
+   * Pick up dates that were scheduled or in progress when the server stopped.
+   * Agents are rebuilt from the stored system prompts and transcript; dates
+   * that ran out of time during the downtime are summarized instead.
+   */
+  async resumeInterruptedDates(getUser: (userId: string) => UserProfile | undefined): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+
+    for (const dateSession of Array.from(this.activeDates.values())) {
+      if (dateSession.agent1 && dateSession.agent2) continue;
+
+      if (dateSession.status === 'summarizing' || dateSession.endTime.getTime() <= now || !this.restoreAgents(dateSession, getUser)) {
+        this.endDate(dateSession.id).catch(error => console.error(`Failed to summarize interrupted date ${dateSession.id}:`, error));
+        continue;
+      }
+
+      console.log(`Resuming date ${dateSession.id} after ${dateSession.messages.length} messages`);
+      this.resumeConversation(dateSession).catch(error => console.error(`Failed to resume date ${dateSession.id}:`, error));
+    }
+
+    for (const dateSession of [...this.dateQueue]) {
+      if (dateSession.agent1 && dateSession.agent2) continue;
+      if (!this.restoreAgents(dateSession, getUser)) {
+        // One of the users is gone, the date can't happen
+        this.dateQueue = this.dateQueue.filter(d => d.id !== dateSession.id);
+        continue;
+      }
+      // Never started, so give it its full length from now
+      const durationMs = dateSession.endTime.getTime() - dateSession.startTime.getTime();
+      dateSession.startTime = new Date();
+      dateSession.endTime = new Date(dateSession.startTime.getTime() + durationMs);
+      this.startDate(dateSession.id).catch(error => console.error(`Failed to start queued date ${dateSession.id}:`, error));
     }
   }
 
-  private initializeOpenRouter() {
-    this.openRouterApiKey = process.env.OPENROUTER_API_KEY || '';
+  private restoreAgents(dateSession: DateSession, getUser: (userId: string) => UserProfile | undefined): boolean {
+    const user1 = getUser(dateSession.user1Id);
+    const user2 = getUser(dateSession.user2Id);
+    if (!user1 || !user2) return false;
+
+    const stored = this.repository.getDate(dateSession.id)?.agents || [];
+    const build = (user: UserProfile, partner: UserProfile) => {
+      const state = stored.find(agent => agent.userId === user.id);
+      const agent = this.createAgent(user, state?.systemPrompt || generateSystemPrompt(user, partner, {
+        venue: dateSession.venue,
+        world: dateSession.worldContext
+      }), dateSession.id, state?.model);
+      agent.restoreConversation(dateSession.messages);
+      return agent;
+    };
+
+    dateSession.agent1 = build(user1, user2);
+    dateSession.agent2 = build(user2, user1);
+    return true;
   }
 
-  private getRandomModel(): string {
-    return CHAT_MODELS[Math.floor(Math.random() * CHAT_MODELS.length)];
+  private async resumeConversation(dateSession: DateSession) {
+    if (dateSession.messages.length === 0) {
+      await this.sendOpeningMessage(dateSession);
+    }
+    this.runDateConversation(dateSession);
   }
 
-  scheduleDate(user1: UserProfile, user2: UserProfile, durationMs: number = 120000): DateSession {
+  scheduleDate(user1: UserProfile, user2: UserProfile, durationMs: number = 120000, options: ScheduleDateOptions = {}): DateSession {
     const startTime = new Date();
     const endTime = new Date(startTime.getTime() + durationMs);
 
-    const systemPrompt1 = generateSystemPrompt(user1);
-    const systemPrompt2 = generateSystemPrompt(user2);
-
-    const model1 = this.getRandomModel();
-    const model2 = this.getRandomModel();
+    const worldContext = worldContextService.getContext(options.venue);
+    const setting = { venue: options.venue, world: worldContext };
+    const systemPrompt1 = generateSystemPrompt(user1, user2, setting);
+    const systemPrompt2 = generateSystemPrompt(user2, user1, setting);
 
+    const dateId = `date-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const first = this.createAssignedAgent(user1, systemPrompt1, dateId);
+    const second = this.createAssignedAgent(user2, systemPrompt2, dateId);
     const dateSession: DateSession = {
-      id: `date-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: dateId,
       user1Id: user1.id,
       user2Id: user2.id,
       user1Name: user1.name,
       user2Name: user2.name,
-      agent1: new DatingAgent(user1, systemPrompt1, this.openRouterApiKey, model1),
-      agent2: new DatingAgent(user2, systemPrompt2, this.openRouterApiKey, model2),
+      agent1: first.agent,
+      agent2: second.agent,
       startTime,
       endTime,
       messages: [],
-      status: 'scheduled'
+      status: 'scheduled',
+      matchmakingStrategy: options.matchmakingStrategy,
+      relationshipStage: relationshipProgression.getStage(user1.id, user2.id),
+      venue: options.venue,
+      worldContext,
+      agentAssignments: [first.assignment, second.assignment]
     };
 
     this.dateQueue.push(dateSession);
-    this.logDateEvent('scheduled', dateSession);
+    this.persistDate(dateSession);
+    dateEventLog.publish({ type: 'dateScheduled', date: toDateSnapshot(dateSession) });
     return dateSession;
   }
 
@@ -139,64 +282,99 @@ export class DateOrchestrator {
     this.activeDates.set(dateId, dateSession);
     this.dateQueue = this.dateQueue.filter(d => d.id !== dateId);
 
-    await this.logDateEvent('started', dateSession);
+    await this.persistDate(dateSession);
     datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+    dateEventLog.publish({ type: 'dateStarted', date: toDateSnapshot(dateSession) });
 
-    const initialDelayMs = 3000 + Math.floor(Math.random() * 7001);
-    await this.sleep(initialDelayMs);
-
-    const openingEntry = this.startStreamingMessage(dateSession, dateSession.user1Id, dateSession.user1Name);
-    const openingMessage = await dateSession.agent1.initiateConversation(token => {
-      openingEntry.message += token;
-    });
-    openingEntry.message = openingMessage;
-
-    await this.logMessageEvent(dateSession, openingEntry);
-    datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+    await this.sleep(randomInRange(simulationConfig.get().openingDelayMs));
+    // Cancelled while waiting to start
+    if (dateSession.status !== 'active') return;
 
+    await this.sendOpeningMessage(dateSession);
     this.runDateConversation(dateSession);
   }
 
+  /**
+   * Returns false when the opening line couldn't be produced; the
+   * conversation loop tries again
+   */
+  private async sendOpeningMessage(dateSession: DateSession): Promise<boolean> {
+    const agent = dateSession.agent1;
+    if (!agent) return false;
+    const opening = await this.runAgentTurn(dateSession, dateSession.user1Id, dateSession.user1Name,
+      options => agent.initiateConversation(options));
+    return opening !== null;
+  }
+
   private async runDateConversation(dateSession: DateSession) {
-    if (!dateSession.agent1 || !dateSession.agent2) return;
-    let currentAgent = dateSession.agent2;
-    let currentUserId = dateSession.user2Id;
-    let currentUserName = dateSession.user2Name;
-    let respondingAgent = dateSession.agent1;
-    let respondingUserId = dateSession.user1Id;
-    let respondingUserName = dateSession.user1Name;
-    let lastMessage = dateSession.messages[0]?.message || '';
+    const { agent1, agent2 } = dateSession;
+    if (!agent1 || !agent2) return;
 
     const conversationLoop = async () => {
-      while (Date.now() < dateSession.endTime.getTime() && dateSession.status === 'active') {
+      this.runningConversations.add(dateSession.id);
+      let failedTurns = 0;
+      while (Date.now() < dateSession.endTime.getTime() + WRAP_UP_GRACE_MS && dateSession.status === 'active') {
         try {
-          const entry = this.startStreamingMessage(dateSession, currentUserId, currentUserName);
-          const response = await currentAgent.respondToMessage(lastMessage, token => {
-            entry.message += token;
-          });
-          entry.message = response;
-          await this.logMessageEvent(dateSession, entry);
-          datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
-          lastMessage = response;
-
-          [currentAgent, respondingAgent] = [respondingAgent, currentAgent];
-          [currentUserId, respondingUserId] = [respondingUserId, currentUserId];
-          [currentUserName, respondingUserName] = [respondingUserName, currentUserName];
+          let spoke: boolean;
+          if (dateSession.messages.length === 0) {
+            // The opening line failed earlier; nobody can reply until it's said
+            spoke = await this.sendOpeningMessage(dateSession);
+          } else {
+            const decision = conversationDirector.review(dateSession);
+            if (decision.type !== 'continue') {
+              await this.recordIntervention(dateSession, decision.intervention);
+            }
+            if (decision.type === 'end') break;
+            if (decision.type === 'extend') {
+              dateSession.endTime = new Date(dateSession.endTime.getTime() + decision.extendByMs);
+              await this.persistDate(dateSession);
+            }
+            const direction = decision.type === 'direct' ? decision.intervention.prompt : undefined;
+
+            // Whoever didn't speak last goes next, which also covers resumed dates
+            const lastEntry = dateSession.messages[dateSession.messages.length - 1];
+            const user1Next = lastEntry.sender === dateSession.user2Id;
+            const agent = user1Next ? agent1 : agent2;
+            const response = await this.runAgentTurn(
+              dateSession,
+              user1Next ? dateSession.user1Id : dateSession.user2Id,
+              user1Next ? dateSession.user1Name : dateSession.user2Name,
+              options => agent.respondToMessage(lastEntry.message, { ...options, direction })
+            );
+            spoke = response !== null;
+          }
 
-          if (Date.now() >= dateSession.endTime.getTime() || dateSession.status !== 'active') {
+          failedTurns = spoke ? 0 : failedTurns + 1;
+          if (failedTurns >= MAX_FAILED_TURNS) {
+            await this.recordFailure(dateSession, {
+              userId: dateSession.messages[dateSession.messages.length - 1]?.sender === dateSession.user1Id
+                ? dateSession.user2Id
+                : dateSession.user1Id,
+              kind: 'ended',
+              error: `Ended after ${failedTurns} failed turns in a row`
+            });
+            break;
+          }
+          if (dateSession.status !== 'active') {
             break;
           }
-          const delayMs = 8000 + Math.floor(Math.random() * 7001);
-          await this.sleep(delayMs);
+          await this.sleep(randomInRange(simulationConfig.get().replyDelayMs));
         } catch (error) {
-          console.error('Conversation error:', error);
+          // Model failures are handled per turn, so this is storage or director trouble
+          console.error(`Conversation error on date ${dateSession.id}:`, error);
+          await this.recordFailure(dateSession, {
+            kind: 'ended',
+            error: error instanceof Error ? error.message : String(error)
+          });
           break;
         }
       }
+      this.runningConversations.delete(dateSession.id);
       
       if (dateSession.status === 'active') {
         dateSession.status = 'summarizing';
         datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+        dateEventLog.publish({ type: 'dateSummarizing', dateId: dateSession.id });
         await this.endDate(dateSession.id);
       }
     };
@@ -204,6 +382,12 @@ export class DateOrchestrator {
     conversationLoop();
   }
 
+  private async recordIntervention(dateSession: DateSession, intervention: DirectorIntervention) {
+    dateSession.directorInterventions = [...(dateSession.directorInterventions || []), intervention];
+    console.log(`Director ${intervention.type} (${intervention.reason}) on date ${dateSession.id} after ${intervention.afterMessage} messages`);
+    await this.persistDate(dateSession);
+  }
+
   private logMessage(dateSession: DateSession, senderId: string, senderName: string, message: string) {
     dateSession.messages.push({
       sender: senderId,
@@ -213,6 +397,66 @@ export class DateOrchestrator {
     });
   }
 
+  /**
+   * Stream one agent message into the date. Retries restart the message for
+   * clients; if the agent gives up, the partial message is dropped. Every
+   * failure is recorded on the session. Returns null when the turn failed.
+   */
+  private async runAgentTurn(
+    dateSession: DateSession,
+    senderId: string,
+    senderName: string,
+    speak: (options: RespondOptions) => Promise<string>
+  ): Promise<string | null> {
+    const streaming = this.startStreamingMessage(dateSession, senderId, senderName);
+    try {
+      const message = await speak({
+        onToken: streaming.onToken,
+        onRetry: retry => {
+          streaming.entry.message = '';
+          dateEventLog.publish({
+            type: 'messageRetrying',
+            dateId: dateSession.id,
+            messageIndex: streaming.messageIndex,
+            attempt: retry.attempt,
+            error: retry.error
+          });
+          this.recordFailure(dateSession, {
+            userId: senderId,
+            kind: retry.nextModel === retry.model ? 'retry' : 'fallback',
+            model: retry.model,
+            attempt: retry.attempt,
+            error: retry.error
+          }).catch(error => console.error('Failed to record agent retry:', error));
+        }
+      });
+      await this.completeStreamingMessage(dateSession, streaming, message);
+      return message;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Agent ${senderName} failed on date ${dateSession.id}:`, reason);
+      if (dateSession.messages[streaming.messageIndex] === streaming.entry) {
+        dateSession.messages.splice(streaming.messageIndex, 1);
+      }
+      dateEventLog.publish({ type: 'messageFailed', dateId: dateSession.id, messageIndex: streaming.messageIndex, error: reason });
+      await this.recordFailure(dateSession, { userId: senderId, kind: 'gave_up', error: reason });
+      return null;
+    }
+  }
+
+  private async recordFailure(dateSession: DateSession, failure: Omit<AgentFailure, 'afterMessage' | 'timestamp'>) {
+    const entry: AgentFailure = {
+      ...failure,
+      afterMessage: dateSession.messages.length,
+      timestamp: new Date().toISOString()
+    };
+    dateSession.agentFailures = [...(dateSession.agentFailures || []), entry].slice(-MAX_RECORDED_FAILURES);
+    await this.persistDate(dateSession);
+  }
+
+  /**
+   * Add an empty transcript entry that fills in as tokens arrive
+   */
   private startStreamingMessage(dateSession: DateSession, senderId: string, senderName: string) {
     const entry = {
       sender: senderId,
@@ -220,8 +464,52 @@ export class DateOrchestrator {
       message: '',
       timestamp: new Date()
     };
-    dateSession.messages.push(entry);
-    return entry;
+    const messageIndex = dateSession.messages.push(entry) - 1;
+    dateEventLog.publish({
+      type: 'messageStarted',
+      dateId: dateSession.id,
+      messageIndex,
+      sender: senderId,
+      senderName,
+      timestamp: entry.timestamp.toISOString()
+    });
+
+    const onToken = (delta: string) => {
+      entry.message += delta;
+      dateEventLog.publish({ type: 'tokenDelta', dateId: dateSession.id, messageIndex, delta });
+    };
+    return { entry, messageIndex, onToken };
+  }
+
+  private async completeStreamingMessage(
+    dateSession: DateSession,
+    streaming: { entry: DateSession['messages'][number]; messageIndex: number },
+    message: string
+  ) {
+    // The cleaned response can differ from the raw tokens
+    streaming.entry.message = message;
+    await this.persistMessage(dateSession, streaming.entry);
+    datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+    dateEventLog.publish({ type: 'messageCompleted', dateId: dateSession.id, messageIndex: streaming.messageIndex, message });
+  }
+
+  /**
+   * Call off a scheduled or running date without summarizing it. Dates that
+   * are already being summarized can't be cancelled.
+   */
+  async cancelDate(dateId: string): Promise<DateSession | null> {
+    const dateSession = this.activeDates.get(dateId) || this.dateQueue.find(d => d.id === dateId);
+    if (!dateSession || (dateSession.status !== 'scheduled' && dateSession.status !== 'active')) return null;
+
+    dateSession.status = 'cancelled';
+    this.activeDates.delete(dateId);
+    this.dateQueue = this.dateQueue.filter(d => d.id !== dateId);
+    this.closedDates.set(dateId, dateSession);
+
+    await this.persistDate(dateSession);
+    datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+    dateEventLog.publish({ type: 'dateCancelled', dateId: dateSession.id });
+    return dateSession;
   }
 
   async endDate(dateId: string): Promise<void> {
@@ -231,87 +519,122 @@ export class DateOrchestrator {
     if (dateSession.status !== 'summarizing') {
       dateSession.status = 'summarizing';
       datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+      dateEventLog.publish({ type: 'dateSummarizing', dateId: dateSession.id });
     }
     dateSession.conversationHistory = [...dateSession.messages];
 
-    const summaryPromise = this.generateClaudeSummary(dateSession);
+    const summaryPromise = this.generateSummary(dateSession);
+    const evaluationPromise = evaluateDate(dateSession, this.summaryProvider);
     await this.sleep(10000);
     
-    const summaryData = await summaryPromise;
+    const [summaryData, evaluation] = await Promise.all([summaryPromise, evaluationPromise]);
     dateSession.summary = summaryData.summary;
     dateSession.sentiment = summaryData.sentiment;
     dateSession.compatibilityRating = summaryData.compatibilityRating;
     
-    if (dateSession.summary) {
+    if (evaluation) {
+      dateSession.evaluation = evaluation;
+      dateSession.confidence = deriveConfidenceFromEvaluation(evaluation);
+    } else if (dateSession.summary) {
+      // No model available to grade the transcript, fall back to keyword scoring
       dateSession.confidence = calculateConfidenceFromSummary(dateSession.summary);
     }
     
     dateSession.status = 'completed';
+    dateSession.stageTransition = await relationshipProgression.recordDate(dateSession) || undefined;
 
-    await this.logDateEvent('completed', dateSession);
-    this.completedDates.set(dateId, dateSession);
+    await this.persistDate(dateSession);
+    this.closedDates.set(dateId, dateSession);
     this.activeDates.delete(dateId);
+    await agentMemoryStore.recordDate(dateSession);
+    await this.updateRelationshipProfiles(dateSession);
     
-    const allCompletedDates = Array.from(this.completedDates.values());
-    bestMatchDetector.checkAndEmitBestMatches(dateSession.user1Id, allCompletedDates);
-    bestMatchDetector.checkAndEmitBestMatches(dateSession.user2Id, allCompletedDates);
+    for (const userId of [dateSession.user1Id, dateSession.user2Id]) {
+      const userDates = this.getDatesForUser(userId).filter(date => date.status === 'completed');
+      bestMatchDetector.checkAndEmitBestMatches(userId, userDates);
+    }
     
     datingEventBus.emit('datesUpdated', { dateId: dateSession.id, status: dateSession.status });
+    dateEventLog.publish({
+      type: 'dateCompleted',
+      dateId: dateSession.id,
+      summary: dateSession.summary,
+      sentiment: dateSession.sentiment,
+      confidence: dateSession.confidence
+    });
 
     const scheduleDelayMs = 3000 + Math.floor(Math.random() * 2001);
     await this.sleep(scheduleDelayMs);
   }
 
-  private async generateClaudeSummary(dateSession: DateSession): Promise<{ summary: string; sentiment: string; compatibilityRating: number }> {
+  /**
+   * Refresh both users' relationshipArc and dateSummary profile fields
+   */
+  private async updateRelationshipProfiles(dateSession: DateSession) {
+    const transition = dateSession.stageTransition;
+    const stageText = transition
+      ? transition.from === transition.to
+        ? `still ${formatStage(transition.to).toLowerCase()} (${transition.reason})`
+        : `${formatStage(transition.from)} → ${formatStage(transition.to)} (${transition.reason})`
+      : '';
+
+    const sides = [
+      { userId: dateSession.user1Id, partnerName: dateSession.user2Name },
+      { userId: dateSession.user2Id, partnerName: dateSession.user1Name }
+    ];
+    for (const side of sides) {
+      try {
+        await updateUserRelationshipFields(side.userId, {
+          relationshipArc: describeRelationshipArc(side.userId),
+          dateSummary: `Latest date with ${side.partnerName}${stageText ? `, ${stageText}` : ''}: ${dateSession.summary || 'No summary.'}`
+        });
+      } catch (error) {
+        console.error(`Failed to update relationship fields for ${side.userId}:`, error);
+      }
+    }
+  }
+
+  private async generateSummary(dateSession: DateSession): Promise<{ summary: string; sentiment: string; compatibilityRating: number }> {
     const conversationText = dateSession.messages
       .map(m => `${m.senderName}: ${m.message}`)
       .join('\n');
+    const settingText = dateSession.worldContext
+      ? `\n\nSetting: ${summarizeSetting(dateSession.worldContext, dateSession.venue?.name)}. Mention it if it shaped the date.`
+      : '';
 
-    if (this.anthropicClient) {
-      try {
-        const response = await this.anthropicClient.messages.create({
-          model: 'claude-3-haiku-20240307',
-          max_tokens: 200,
-          messages: [
-            {
-              role: 'user',
-              content: `You are a dating analyst. Return valid JSON only with keys: summary, sentiment, compatibilityRating.\n\nsummary: 2-3 sentences focusing on compatibility, chemistry, and key moments.\nsentiment: one word describing the overall mood/outcome.\ncompatibilityRating: number from 0-10.\n\nConversation:\n${conversationText}`
-            }
-          ]
-        });
-        const textBlock = response.content.find(block => block.type === 'text');
-        if (textBlock && 'text' in textBlock) {
-          try {
-            const parsed = JSON.parse(textBlock.text);
-            const rating = typeof parsed.compatibilityRating === 'number' ? parsed.compatibilityRating : 5;
-            return {
-              summary: typeof parsed.summary === 'string' ? parsed.summary : 'Date completed successfully.',
-              sentiment: typeof parsed.sentiment === 'string' ? parsed.sentiment : 'Neutral',
-              compatibilityRating: Math.max(0, Math.min(10, rating))
-            };
-          } catch (error) {
-            console.error('Claude summary parse error:', error);
-            return this.generateLocalSummary(dateSession);
+    try {
+      const text = await this.summaryProvider.complete({
+        purpose: 'summary',
+        responseFormat: 'json',
+        maxTokens: 200,
+        temperature: 0.5,
+        context: { dateId: dateSession.id },
+        messages: [
+          {
+            role: 'user',
+            content: `You are a dating analyst. Return valid JSON only with keys: summary, sentiment, compatibilityRating.\n\nsummary: 2-3 sentences focusing on compatibility, chemistry, and key moments.\nsentiment: one word describing the overall mood/outcome.\ncompatibilityRating: number from 0-10.${settingText}\n\nConversation:\n${conversationText}`
           }
-        }
-        return this.generateLocalSummary(dateSession);
+        ]
+      });
+      try {
+        const parsed = JSON.parse(text);
+        const rating = typeof parsed.compatibilityRating === 'number' ? parsed.compatibilityRating : 5;
+        return {
+          summary: typeof parsed.summary === 'string' ? parsed.summary : 'Date completed successfully.',
+          sentiment: typeof parsed.sentiment === 'string' ? parsed.sentiment : 'Neutral',
+          compatibilityRating: Math.max(0, Math.min(10, rating))
+        };
       } catch (error) {
-        console.error('Claude summary error:', error);
+        console.error('Summary parse error:', error);
         return this.generateLocalSummary(dateSession);
       }
+    } catch (error) {
+      console.error(`Summary error (${this.summaryProvider.name}):`, error);
+      return this.generateLocalSummary(dateSession);
     }
-
-    return this.generateLocalSummary(dateSession);
   }
 
-  private serializeDateSession(dateSession: DateSession) {
-    const toMessage = (message: { sender: string; senderName: string; message: string; timestamp: Date }) => ({
-      sender: message.sender,
-      senderName: message.senderName,
-      message: message.message,
-      timestamp: message.timestamp.toISOString()
-    });
-
+  private toRecord(dateSession: DateSession): StoredDateRecord {
     return {
       id: dateSession.id,
       user1Id: dateSession.user1Id,
@@ -324,200 +647,168 @@ export class DateOrchestrator {
       summary: dateSession.summary,
       sentiment: dateSession.sentiment,
       compatibilityRating: dateSession.compatibilityRating,
-      messages: dateSession.messages.map(toMessage),
-      conversationHistory: dateSession.conversationHistory ? dateSession.conversationHistory.map(toMessage) : undefined,
-      confidence: dateSession.confidence
+      confidence: dateSession.confidence,
+      evaluation: dateSession.evaluation,
+      matchmakingStrategy: dateSession.matchmakingStrategy,
+      directorInterventions: dateSession.directorInterventions,
+      relationshipStage: dateSession.relationshipStage,
+      stageTransition: dateSession.stageTransition,
+      venue: dateSession.venue,
+      worldContext: dateSession.worldContext,
+      agents: this.getAgentStates(dateSession),
+      agentAssignments: dateSession.agentAssignments,
+      agentFailures: dateSession.agentFailures,
+      updatedAt: new Date().toISOString()
     };
   }
 
-  private async logDateEvent(eventType: 'scheduled' | 'started' | 'completed', dateSession: DateSession) {
-    const entry = {
-      eventType,
-      timestamp: new Date().toISOString(),
-      date: this.serializeDateSession(dateSession)
-    };
+  private getAgentStates(dateSession: DateSession): StoredAgentState[] | undefined {
+    if (!dateSession.agent1 || !dateSession.agent2) {
+      // Loaded without live agents; keep whatever was stored
+      return this.repository.getDate(dateSession.id)?.agents;
+    }
+    return [dateSession.agent1, dateSession.agent2].map(agent => ({
+      userId: agent.getUserId(),
+      systemPrompt: agent.getSystemPrompt(),
+      model: agent.getModel()
+    }));
+  }
 
-    await fs.mkdir(this.logDir, { recursive: true });
-    await fs.appendFile(path.join(this.logDir, 'dates.jsonl'), `${JSON.stringify(entry)}\n`);
+  private async persistDate(dateSession: DateSession) {
+    try {
+      await this.ready;
+      await this.repository.saveDate(this.toRecord(dateSession));
+    } catch (error) {
+      console.error(`Failed to persist date ${dateSession.id}:`, error);
+    }
   }
 
-  private async logMessageEvent(dateSession: DateSession, message: { sender: string; senderName: string; message: string; timestamp: Date }) {
-    const entry = {
-      eventType: 'message',
-      timestamp: new Date().toISOString(),
-      dateId: dateSession.id,
-      message: {
+  private async persistMessage(dateSession: DateSession, message: DateMessage) {
+    try {
+      await this.repository.appendMessage(dateSession.id, {
         sender: message.sender,
         senderName: message.senderName,
         message: message.message,
         timestamp: message.timestamp.toISOString()
-      }
-    };
-
-    await fs.mkdir(this.logDir, { recursive: true });
-    await fs.appendFile(path.join(this.logDir, 'dates.jsonl'), `${JSON.stringify(entry)}\n`);
+      });
+    } catch (error) {
+      console.error(`Failed to persist message for date ${dateSession.id}:`, error);
+    }
   }
 
-  private async loadStateFromLogs() {
+  /**
+   * Only open dates are loaded, with their transcripts. Completed and
+   * cancelled dates are read from storage when something asks for them,
+   * without messages, which are fetched on demand.
+   */
+  private async loadState() {
     try {
-      const logPath = path.join(this.logDir, 'dates.jsonl');
-      const content = await fs.readFile(logPath, 'utf-8');
-      const lines = content.split('\n').filter(Boolean);
-      const stateById = new Map<string, {
-        date: ReturnType<DateOrchestrator['serializeDateSession']>;
-        lastEventType: 'scheduled' | 'started' | 'completed';
-        lastTimestamp: number;
-        messages: Array<{ sender: string; senderName: string; message: string; timestamp: string }>;
-      }>();
-
-      for (const line of lines) {
-        try {
-          const entry = JSON.parse(line);
-          if (entry.eventType === 'message') {
-            const existing = stateById.get(entry.dateId);
-            if (!existing) continue;
-            existing.messages.push(entry.message);
-            continue;
-          }
+      await this.repository.init();
 
-          const date = entry.date;
-          if (!date?.id) continue;
-          const timestamp = new Date(entry.timestamp).getTime();
-          const existing = stateById.get(date.id);
-          if (!existing || timestamp >= existing.lastTimestamp) {
-            stateById.set(date.id, {
-              date,
-              lastEventType: entry.eventType,
-              lastTimestamp: timestamp,
-              messages: date.messages || []
-            });
-          }
-        } catch {
-          continue;
+      for (const record of this.repository.listOpenDates()) {
+        const messages = await this.repository.getMessages(record.id);
+        const hydrated = this.hydrateDateSession(record, messages);
+        if (record.status === 'scheduled') {
+          this.dateQueue.push(hydrated);
+        } else {
+          this.activeDates.set(hydrated.id, hydrated);
         }
       }
 
-      for (const entry of stateById.values()) {
-        const seen = new Set<string>();
-        const messages = entry.messages.filter(message => {
-          const key = `${message.sender}|${message.senderName}|${message.timestamp}|${message.message}`;
-          if (seen.has(key)) return false;
-          seen.add(key);
-          return true;
-        });
-        const hydrated = this.hydrateDateSession({
-          ...entry.date,
-          messages
-        });
-        if (entry.lastEventType === 'completed') {
-          this.completedDates.set(hydrated.id, hydrated);
-        } else if (entry.lastEventType === 'started') {
-          this.activeDates.set(hydrated.id, hydrated);
-        } else {
-          this.dateQueue.push(hydrated);
-        }
+      if (!relationshipProgression.hasHistory()) {
+        await relationshipProgression.rebuildFromHistory(this.getCompletedDates());
       }
-    } catch {
-      return;
+    } catch (error) {
+      console.error('Failed to load stored dates:', error);
     }
   }
 
-  private hydrateDateSession(date: {
-    id: string;
-    user1Id: string;
-    user2Id: string;
-    user1Name: string;
-    user2Name: string;
-    startTime: string;
-    endTime: string;
-    status: 'scheduled' | 'active' | 'summarizing' | 'completed';
-    summary?: string;
-    sentiment?: string;
-    compatibilityRating?: number;
-    messages?: Array<{ sender: string; senderName: string; message: string; timestamp: string }>;
-    conversationHistory?: Array<{ sender: string; senderName: string; message: string; timestamp: string }>;
-    confidence?: number;
-  }): DateSession {
-    const toMessage = (message: { sender: string; senderName: string; message: string; timestamp: string }) => ({
-      sender: message.sender,
-      senderName: message.senderName,
-      message: message.message,
-      timestamp: new Date(message.timestamp)
-    });
+  /**
+   * A completed or cancelled date, loaded from storage the first time it's asked for
+   */
+  private getClosedDate(dateId: string): DateSession | undefined {
+    const cached = this.closedDates.get(dateId);
+    if (cached) return cached;
+
+    const record = this.repository.getDate(dateId);
+    if (!record || !isDateClosed(record)) return undefined;
+    const dateSession = this.hydrateDateSession(record, []);
+    // Dates from before evaluations only have a summary to go on
+    if (dateSession.summary && dateSession.confidence === undefined) {
+      dateSession.confidence = calculateConfidenceFromSummary(dateSession.summary);
+    }
+    this.closedDates.set(dateId, dateSession);
+    return dateSession;
+  }
+
+  private hydrateDateSession(record: StoredDateRecord, storedMessages: StoredDateMessage[]): DateSession {
+    const messages = toDateMessages(storedMessages);
 
     return {
-      id: date.id,
-      user1Id: date.user1Id,
-      user2Id: date.user2Id,
-      user1Name: date.user1Name,
-      user2Name: date.user2Name,
+      id: record.id,
+      user1Id: record.user1Id,
+      user2Id: record.user2Id,
+      user1Name: record.user1Name,
+      user2Name: record.user2Name,
       agent1: null,
       agent2: null,
-      startTime: new Date(date.startTime),
-      endTime: new Date(date.endTime),
-      messages: (date.messages || []).map(toMessage),
-      status: date.status,
-      summary: date.summary,
-      sentiment: date.sentiment,
-      compatibilityRating: date.compatibilityRating,
-      conversationHistory: date.conversationHistory ? date.conversationHistory.map(toMessage) : undefined,
-      confidence: date.confidence
+      startTime: new Date(record.startTime),
+      endTime: new Date(record.endTime),
+      messages,
+      status: record.status,
+      summary: record.summary,
+      sentiment: record.sentiment,
+      compatibilityRating: record.compatibilityRating,
+      conversationHistory: isDateClosed(record) ? [...messages] : undefined,
+      confidence: record.confidence,
+      evaluation: record.evaluation,
+      matchmakingStrategy: record.matchmakingStrategy,
+      directorInterventions: record.directorInterventions,
+      relationshipStage: record.relationshipStage,
+      stageTransition: record.stageTransition,
+      venue: record.venue,
+      worldContext: record.worldContext,
+      // Older dates only stored each agent's model
+      agentAssignments: record.agentAssignments
+        || record.agents?.map(agent => ({ userId: agent.userId, model: agent.model })),
+      agentFailures: record.agentFailures
     };
   }
 
+  /**
+   * Plain-text summary fallback using the agent provider when the structured summary fails
+   */
   private async generateLocalSummary(dateSession: DateSession): Promise<{ summary: string; sentiment: string; compatibilityRating: number }> {
     const conversationText = dateSession.messages
       .map(m => `${m.senderName}: ${m.message}`)
       .join('\n');
 
     const summaryPrompt = `Summarize this date conversation in 2-3 sentences, focusing on compatibility and key moments:\n\n${conversationText}`;
-
-    if (!this.openRouterApiKey) {
-      return {
-        summary: 'Date completed successfully.',
-        sentiment: 'Neutral',
-        compatibilityRating: 5
-      };
-    }
+    const provider = getLLMProvider('agent');
 
     try {
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.openRouterApiKey}`,
-          'HTTP-Referer': process.env.OPENROUTER_HTTP_REFERER || 'http://localhost:3000',
-          'X-Title': process.env.OPENROUTER_APP_NAME || 'Isometric City Dating'
-        },
-        body: JSON.stringify({
-          model: this.getRandomModel(),
-          messages: [
-            {
-              role: 'user',
-              content: summaryPrompt
-            }
-          ],
-          stream: false,
-          temperature: 0.5,
-          max_tokens: 100
-        })
+      const summary = await provider.complete({
+        purpose: 'summary',
+        responseFormat: 'text',
+        model: this.getRandomModel(provider),
+        messages: [
+          {
+            role: 'user',
+            content: summaryPrompt
+          }
+        ],
+        temperature: 0.5,
+        maxTokens: 100,
+        context: { dateId: dateSession.id }
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenRouter request failed: ${response.statusText} - ${errorText}`);
-      }
-
-      const data = await response.json();
-      const summary = data.choices?.[0]?.message?.content || 'Date completed.';
-      
       return {
-        summary: summary.trim(),
+        summary: summary || 'Date completed.',
         sentiment: 'Neutral',
         compatibilityRating: 5
       };
     } catch (error) {
-      console.error('OpenRouter summary generation error:', error);
+      console.error(`Local summary generation error (${provider.name}):`, error);
       return {
         summary: 'Date completed successfully.',
         sentiment: 'Neutral',
@@ -550,12 +841,65 @@ export class DateOrchestrator {
   }
 
   getCompletedDates(): DateSession[] {
-    return Array.from(this.completedDates.values());
+    return this.getClosedDates().filter(date => date.status === 'completed');
+  }
+
+  /**
+   * Completed and cancelled dates. The first call reads every one of them
+   * from storage.
+   */
+  getClosedDates(): DateSession[] {
+    const dates: DateSession[] = [];
+    for (const dateId of this.repository.listClosedDateIds()) {
+      const dateSession = this.getClosedDate(dateId);
+      if (dateSession) dates.push(dateSession);
+    }
+    return dates;
   }
 
   getDateById(dateId: string): DateSession | undefined {
     this.pruneExpiredActiveDates();
-    return this.activeDates.get(dateId) || this.dateQueue.find(d => d.id === dateId) || this.completedDates.get(dateId);
+    return this.activeDates.get(dateId) || this.dateQueue.find(d => d.id === dateId) || this.getClosedDate(dateId);
+  }
+
+  /**
+   * Active and completed dates for a user, looked up through the storage index
+   */
+  getDatesForUser(userId: string): DateSession[] {
+    this.pruneExpiredActiveDates();
+    return this.resolveSessions(this.repository.getDateIdsForUser(userId));
+  }
+
+  getDatesForPair(userAId: string, userBId: string): DateSession[] {
+    this.pruneExpiredActiveDates();
+    return this.resolveSessions(this.repository.getDateIdsForPair(userAId, userBId));
+  }
+
+  private resolveSessions(dateIds: string[]): DateSession[] {
+    const sessions: DateSession[] = [];
+    for (const dateId of dateIds) {
+      const session = this.activeDates.get(dateId) || this.getClosedDate(dateId);
+      if (session) sessions.push(session);
+    }
+    return sessions;
+  }
+
+  /**
+   * The date with its full transcript, read from storage when the session
+   * was loaded without one
+   */
+  async getDateWithTranscript(dateId: string): Promise<DateSession | undefined> {
+    const dateSession = this.getDateById(dateId);
+    if (!dateSession) return undefined;
+    return this.withTranscript(dateSession);
+  }
+
+  async withTranscript(dateSession: DateSession): Promise<DateSession> {
+    if (!isDateClosed(dateSession) || dateSession.messages.length > 0) return dateSession;
+    const stored = await this.repository.getMessages(dateSession.id);
+    if (stored.length === 0) return dateSession;
+    const messages = toDateMessages(stored);
+    return { ...dateSession, messages, conversationHistory: [...messages] };
   }
 
   getActiveCount(): number {
@@ -567,8 +911,8 @@ export class DateOrchestrator {
    * Backfill confidence scores for dates that have summaries but no confidence
    */
   backfillConfidenceScores(): void {
-    // Check completed dates
-    for (const dateSession of this.completedDates.values()) {
+    // Check completed dates loaded so far; the rest are backfilled as they load
+    for (const dateSession of this.closedDates.values()) {
       if (dateSession.summary && dateSession.confidence === undefined) {
         dateSession.confidence = calculateConfidenceFromSummary(dateSession.summary);
       }
@@ -0,0 +1,87 @@
+import { GENDERS, type Gender, type UserProfile } from '@/lib/userDatabase';
+
+/**
+ * Mutual pairing constraints: who each user is interested in, the partner
+ * age range they accept and their dealbreakers. A pair is only scheduled
+ * when both sides pass every check.
+ */
+
+/**
+ * Genders a user wants to date. Profiles created before interestedIn
+ * existed keep the old behavior of pairing with the opposite gender.
+ */
+export function getInterestedIn(user: UserProfile): Gender[] {
+  if (user.interestedIn && user.interestedIn.length > 0) return user.interestedIn;
+  if (user.gender === 'male') return ['female'];
+  if (user.gender === 'female') return ['male'];
+  return [...GENDERS];
+}
+
+// A negation shortly before a phrase, as in "non-smoking" or "never really into sports"
+const NEGATED_BEFORE = /\b(?:no|not|non|never|without|anti|don'?t|doesn'?t|isn'?t|hates?)(?:[\s-]+[\w']+){0,2}[\s-]*$/;
+// Or right after it, as in "smoke-free"
+const NEGATED_AFTER = /^[\s-]*free\b/;
+
+function getPartnerDescriptionText(partner: UserProfile): string {
+  // Separate sentences so a negation in one trait doesn't carry into the next
+  return [
+    partner.preferences || '',
+    ...(partner.photoAnalysis?.combinedTraits || []),
+    ...(partner.photoAnalysis?.compatibilitySignals || [])
+  ].join('. ').toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether text mentions phrase as a whole word or words, and not only in
+ * negated form
+ */
+function mentionsPhrase(text: string, phrase: string): boolean {
+  const pattern = new RegExp(`(?<!\\w)${escapeRegExp(phrase)}(?!\\w)`, 'g');
+  for (const match of text.matchAll(pattern)) {
+    const clause = text.slice(0, match.index).split(/[.,;!?]/).pop() || '';
+    const rest = text.slice((match.index || 0) + match[0].length);
+    if (!NEGATED_BEFORE.test(clause) && !NEGATED_AFTER.test(rest)) return true;
+  }
+  return false;
+}
+
+/**
+ * Reasons why `user` would not want to date `partner`, empty when they would
+ */
+export function getOneSidedBlockers(user: UserProfile, partner: UserProfile): string[] {
+  const blockers: string[] = [];
+
+  if (!getInterestedIn(user).includes(partner.gender)) {
+    blockers.push(`${user.name} is not interested in ${partner.gender} partners`);
+  }
+
+  if (user.ageRange && (partner.age < user.ageRange.min || partner.age > user.ageRange.max)) {
+    blockers.push(`${partner.name} (${partner.age}) is outside ${user.name}'s age range ${user.ageRange.min}-${user.ageRange.max}`);
+  }
+
+  if (user.dealbreakers && user.dealbreakers.length > 0) {
+    const partnerText = getPartnerDescriptionText(partner);
+    const hit = user.dealbreakers.find(dealbreaker => {
+      const needle = dealbreaker.trim().toLowerCase();
+      return needle.length > 0 && mentionsPhrase(partnerText, needle);
+    });
+    if (hit) {
+      blockers.push(`${partner.name} matches ${user.name}'s dealbreaker "${hit}"`);
+    }
+  }
+
+  return blockers;
+}
+
+export function getPairingBlockers(userA: UserProfile, userB: UserProfile): string[] {
+  if (userA.id === userB.id) return ['A user cannot date themselves'];
+  return [...getOneSidedBlockers(userA, userB), ...getOneSidedBlockers(userB, userA)];
+}
+
+export function areMutuallyCompatible(userA: UserProfile, userB: UserProfile): boolean {
+  return getPairingBlockers(userA, userB).length === 0;
+}
@@ -1,8 +1,12 @@
 /**
- * Photo Analysis Service using Overshoot SDK
- * Analyzes user photos to build in-depth character profiles
+ * Photo Analysis Service
+ * Analyzes user photos with a vision backend to build in-depth character profiles
  */
 
+import type { PhotoAppearance } from '@/lib/characterAppearance';
+import { usageMeter } from './usageMeter';
+import { resolveVisionBackends, type VisionAnalysis, type VisionBackend, type VisionBackendName, type VisionImage } from './vision';
+
 export interface IOSCharacterSummary {
   traits: string[];
   personality: string;
@@ -18,13 +22,15 @@ export interface VisualAnalysisResult {
   activitySignals: string[];
   socialContext: string;
   confidence: number;
+  // Clothing, hair and accessories, used to dress the user's character in the city
+  appearance?: PhotoAppearance;
 }
 
 export interface DeepCharacterProfile {
   // From iOS
   iosSummary: IOSCharacterSummary;
   
-  // From Overshoot deep analysis
+  // From the vision backend's analysis
   visualAnalysis: VisualAnalysisResult;
   
   // Combined/enhanced
@@ -34,106 +40,120 @@ export interface DeepCharacterProfile {
   compatibilitySignals: string[];
 }
 
+export interface VisionAttempt {
+  backend: VisionBackendName;
+  model?: string;
+  // Why the backend failed or was passed over
+  error?: string;
+  skipped?: boolean;
+  latencyMs?: number;
+}
+
+export interface PhotoAnalysisResult {
+  deepProfile: DeepCharacterProfile;
+  backend: VisionBackendName;
+  model: string;
+  attempts: VisionAttempt[];
+}
+
+export class PhotoAnalysisError extends Error {
+  public readonly attempts: VisionAttempt[];
+
+  constructor(message: string, attempts: VisionAttempt[]) {
+    super(message);
+    this.name = 'PhotoAnalysisError';
+    this.attempts = attempts;
+  }
+}
+
+// How long one backend may take before the next one is tried
+const BACKEND_TIMEOUT_MS = Number(process.env.PHOTO_ANALYSIS_TIMEOUT_MS) || 60000;
+
+async function analyzeWithTimeout(backend: VisionBackend, image: VisionImage): Promise<VisionAnalysis> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${BACKEND_TIMEOUT_MS}ms`));
+    }, BACKEND_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([backend.analyze(image, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 /**
- * Analyzes a photo file using Overshoot SDK for deep character insights
- * This extends the iOS summary with visual analysis
+ * Analyze a photo with the configured vision backends, falling back to the
+ * next one when a backend fails, and combine the result with the iOS
+ * summary. Hosted backends are recorded in the usage stats and passed over
+ * while today's model budget is spent.
  */
-export async function analyzePhotoWithOvershoot(
-  photoFile: File,
+export async function analyzePhoto(
+  image: VisionImage,
   iosSummary: IOSCharacterSummary,
-  apiKey: string,
-  apiUrl: string = 'https://api.overshoot.ai'
-): Promise<DeepCharacterProfile> {
-  // Note: This assumes Overshoot SDK will be available
-  // For now, we'll create a type-safe interface that matches the SDK pattern
-  
-  // Dynamic import for Overshoot SDK (handles case where package isn't installed yet)
-  let RealtimeVision: any;
-  try {
-    const overshootModule = await import('overshoot');
-    RealtimeVision = overshootModule.RealtimeVision;
-  } catch (error) {
-    throw new Error(
-      'Overshoot SDK not installed. Run: npm install overshoot@alpha\n' +
-      'If alpha version unavailable, check: https://github.com/Overshoot-ai/overshoot-js-sdk'
-    );
-  }
+  userId?: string,
+  backends: VisionBackend[] = resolveVisionBackends()
+): Promise<PhotoAnalysisResult> {
+  const attempts: VisionAttempt[] = [];
 
-  const analysisPrompt = `Analyze this profile photo deeply for dating character insights. 
-  Return JSON with:
-  {
-    "detectedInterests": array of hobbies/interests visible (e.g., "reading", "music", "travel", "fitness"),
-    "personalityHints": array of personality traits suggested by visual cues (e.g., "adventurous", "introverted", "creative", "outdoorsy"),
-    "lifestyleIndicators": array describing lifestyle (e.g., "urban professional", "outdoor enthusiast", "creative artist"),
-    "visualStyle": string describing fashion/aesthetic style (e.g., "casual minimalist", "bohemian", "professional classic"),
-    "activitySignals": array of activities suggested by the photo (e.g., "sports", "art", "travel", "music"),
-    "socialContext": string describing social setting/lifestyle (e.g., "solo traveler", "social butterfly", "family-oriented"),
-    "confidence": number 0-1 indicating analysis confidence
+  for (const backend of backends) {
+    if (backend.remote && usageMeter.isOverDailyBudget()) {
+      attempts.push({ backend: backend.name, skipped: true, error: 'Daily model budget reached' });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const { analysis, model, usage } = await analyzeWithTimeout(backend, image);
+      const latencyMs = Date.now() - startedAt;
+      if (backend.remote) {
+        usageMeter.record({
+          provider: backend.name,
+          model,
+          purpose: 'vision',
+          userId,
+          promptTokens: usage?.promptTokens ?? 0,
+          completionTokens: usage?.completionTokens ?? 0,
+          estimated: !usage,
+          latencyMs
+        });
+      }
+      attempts.push({ backend: backend.name, model, latencyMs });
+      return { deepProfile: buildDeepCharacterProfile(iosSummary, analysis), backend: backend.name, model, attempts };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const latencyMs = Date.now() - startedAt;
+      console.error(`Vision backend ${backend.name} failed:`, message);
+      if (backend.remote) {
+        usageMeter.record({
+          provider: backend.name,
+          model: backend.name,
+          purpose: 'vision',
+          userId,
+          promptTokens: 0,
+          completionTokens: 0,
+          estimated: true,
+          latencyMs,
+          error: message
+        });
+      }
+      attempts.push({ backend: backend.name, error: message, latencyMs });
+    }
   }
 
-  Focus on subtle visual cues: clothing style, background elements, objects visible, setting, composition.
-  Be specific and observant.`;
-
-  return new Promise((resolve, reject) => {
-    const vision = new RealtimeVision({
-      apiUrl,
-      apiKey,
-      prompt: analysisPrompt,
-      source: {
-        type: 'video',
-        file: photoFile,
-      },
-      outputSchema: {
-        type: 'object',
-        properties: {
-          detectedInterests: {
-            type: 'array',
-            items: { type: 'string' },
-          },
-          personalityHints: {
-            type: 'array',
-            items: { type: 'string' },
-          },
-          lifestyleIndicators: {
-            type: 'array',
-            items: { type: 'string' },
-          },
-          visualStyle: { type: 'string' },
-          activitySignals: {
-            type: 'array',
-            items: { type: 'string' },
-          },
-          socialContext: { type: 'string' },
-          confidence: { type: 'number' },
-        },
-        required: ['detectedInterests', 'personalityHints', 'lifestyleIndicators', 'visualStyle', 'activitySignals', 'socialContext', 'confidence'],
-      },
-      onResult: (result: any) => {
-        if (result.ok && result.result) {
-          try {
-            const visualAnalysis: VisualAnalysisResult = JSON.parse(result.result);
-            const deepProfile = buildDeepCharacterProfile(iosSummary, visualAnalysis);
-            resolve(deepProfile);
-          } catch (parseError) {
-            reject(new Error(`Failed to parse visual analysis: ${parseError}`));
-          }
-        } else {
-          reject(new Error(result.error || 'Visual analysis failed'));
-        }
-      },
-      onError: (error: Error) => {
-        reject(error);
-      },
-    });
-
-    vision.start().catch(reject);
-  });
+  throw new PhotoAnalysisError(
+    backends.length === 0 ? 'No vision backend is configured' : 'Every vision backend failed',
+    attempts
+  );
 }
 
 /**
- * Combines iOS summary with Overshoot visual analysis to create deep character profile
+ * Combines iOS summary with visual analysis to create deep character profile
  */
-function buildDeepCharacterProfile(
+export function buildDeepCharacterProfile(
   iosSummary: IOSCharacterSummary,
   visualAnalysis: VisualAnalysisResult
 ): DeepCharacterProfile {
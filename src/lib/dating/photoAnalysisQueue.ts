@@ -0,0 +1,228 @@
+import path from 'path';
+import { EventEmitter } from 'events';
+import { updateUserWithPhotoAnalysis } from '@/lib/userDatabase';
+import {
+  analyzePhoto,
+  PhotoAnalysisError,
+  type DeepCharacterProfile,
+  type IOSCharacterSummary,
+  type VisionAttempt
+} from './photoAnalysis';
+import type { VisionBackendName, VisionImage } from './vision';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * Photo analysis runs in the background: uploads are queued as jobs, a few
+ * run at a time, and clients poll or subscribe for the result. When a job
+ * has a userId the resulting profile is saved to that user.
+ *
+ * Job status is stored in data/dating/photo-jobs.json. Photos are only held
+ * in memory, so jobs cut short by a restart are marked failed on startup.
+ */
+
+export type PhotoAnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface PhotoAnalysisJob {
+  id: string;
+  userId?: string;
+  status: PhotoAnalysisJobStatus;
+  fileName: string;
+  mimeType: string;
+  byteLength: number;
+  createdAt: string; // ISO date string
+  startedAt?: string; // ISO date string
+  completedAt?: string; // ISO date string
+  // Backend and model that produced the result
+  backend?: VisionBackendName;
+  model?: string;
+  attempts: VisionAttempt[];
+  deepProfile?: DeepCharacterProfile;
+  error?: string;
+}
+
+interface PendingPhoto {
+  image: VisionImage;
+  iosSummary: IOSCharacterSummary;
+}
+
+const MAX_STORED_JOBS = 200;
+const DEFAULT_CONCURRENCY = 1;
+
+export function isFinishedJob(job: PhotoAnalysisJob): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+class PhotoAnalysisQueue {
+  private store = new JsonFileStore<PhotoAnalysisJob[]>(path.join(process.cwd(), 'data', 'dating', 'photo-jobs.json'), 'photo analysis jobs');
+  private jobs: PhotoAnalysisJob[] | null = null;
+  private pending: Map<string, PendingPhoto> = new Map();
+  private running = 0;
+  private concurrency = Math.max(1, Number(process.env.PHOTO_ANALYSIS_CONCURRENCY) || DEFAULT_CONCURRENCY);
+  private events = new EventEmitter();
+  private nextId = 0;
+
+  constructor() {
+    // One listener per subscribed client
+    this.events.setMaxListeners(0);
+  }
+
+  private load(): PhotoAnalysisJob[] {
+    if (this.jobs) return this.jobs;
+    this.jobs = this.store.read() || [];
+
+    // The photos of unfinished jobs didn't survive the restart
+    const interrupted = this.jobs!.filter(job => !isFinishedJob(job));
+    interrupted.forEach(job => {
+      job.status = 'failed';
+      job.error = 'Interrupted by a server restart, upload the photo again';
+      job.completedAt = new Date().toISOString();
+    });
+    if (interrupted.length > 0) {
+      this.persist();
+    }
+    return this.jobs!;
+  }
+
+  get(jobId: string): PhotoAnalysisJob | undefined {
+    return this.load().find(job => job.id === jobId);
+  }
+
+  listForUser(userId: string): PhotoAnalysisJob[] {
+    return this.load().filter(job => job.userId === userId);
+  }
+
+  /**
+   * Queue a photo for analysis and start it once a slot is free
+   */
+  enqueue(image: VisionImage, iosSummary: IOSCharacterSummary, userId?: string): PhotoAnalysisJob {
+    const job: PhotoAnalysisJob = {
+      id: `photo-${Date.now().toString(36)}-${(this.nextId++).toString(36)}`,
+      userId,
+      status: 'queued',
+      fileName: image.fileName,
+      mimeType: image.mimeType,
+      byteLength: image.data.length,
+      createdAt: new Date().toISOString(),
+      attempts: []
+    };
+    this.load().push(job);
+    this.pending.set(job.id, { image, iosSummary });
+    this.trim();
+    this.update(job);
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Call listener with every change to a job. Returns an unsubscribe function.
+   */
+  subscribe(jobId: string, listener: (job: PhotoAnalysisJob) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  /**
+   * Resolves with the job once it finishes, or as it stands after timeoutMs
+   */
+  waitFor(jobId: string, timeoutMs: number): Promise<PhotoAnalysisJob | undefined> {
+    const job = this.get(jobId);
+    if (!job || isFinishedJob(job)) return Promise.resolve(job);
+
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(this.get(jobId));
+      };
+      const timer = setTimeout(done, timeoutMs);
+      const unsubscribe = this.subscribe(jobId, updated => {
+        if (isFinishedJob(updated)) done();
+      });
+    });
+  }
+
+  /**
+   * Forget a user's jobs, e.g. when their profile is deleted
+   */
+  async deleteJobsForUser(userId: string): Promise<void> {
+    const jobs = this.load();
+    const kept = jobs.filter(job => job.userId !== userId);
+    if (kept.length === jobs.length) return;
+    jobs.filter(job => job.userId === userId).forEach(job => this.pending.delete(job.id));
+    this.jobs = kept;
+    await this.persist();
+  }
+
+  private drain() {
+    while (this.running < this.concurrency) {
+      const next = this.load().find(job => job.status === 'queued' && this.pending.has(job.id));
+      if (!next) return;
+      this.running++;
+      this.run(next)
+        .catch(error => console.error(`Photo analysis job ${next.id} failed:`, error))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async run(job: PhotoAnalysisJob): Promise<void> {
+    const photo = this.pending.get(job.id)!;
+    this.pending.delete(job.id);
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.update(job);
+
+    try {
+      const result = await analyzePhoto(photo.image, photo.iosSummary, job.userId);
+      Object.assign(job, {
+        backend: result.backend,
+        model: result.model,
+        attempts: result.attempts,
+        deepProfile: result.deepProfile
+      });
+      if (job.userId) {
+        await updateUserWithPhotoAnalysis(job.userId, result.deepProfile);
+      }
+      job.status = 'completed';
+    } catch (error) {
+      if (error instanceof PhotoAnalysisError) {
+        job.attempts = error.attempts;
+      }
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+    job.completedAt = new Date().toISOString();
+    this.update(job);
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond the store limit
+   */
+  private trim() {
+    const jobs = this.load();
+    let excess = jobs.length - MAX_STORED_JOBS;
+    if (excess <= 0) return;
+    this.jobs = jobs.filter(job => {
+      if (excess > 0 && isFinishedJob(job)) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private update(job: PhotoAnalysisJob) {
+    this.persist();
+    this.events.emit(job.id, job);
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(this.load());
+  }
+}
+
+export const photoAnalysisQueue = new PhotoAnalysisQueue();
@@ -0,0 +1,565 @@
+import path from 'path';
+import { datingEventBus, type DateSession } from './orchestrator';
+import { dateEventLog } from './dateEvents';
+import { bestMatchDetector } from './bestMatchDetector';
+import { getPairKey, getPairStats } from './matchmaking';
+import { areMutuallyCompatible } from './pairingConstraints';
+import type { UserProfile } from '@/lib/userDatabase';
+import type {
+  BettorAccount,
+  MarketBet,
+  MarketOdds,
+  PredictionMarket,
+  PredictionMarketType,
+} from './predictionMarketData';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * Play-money prediction markets over the dating simulation.
+ *
+ * Prices come from a logarithmic market scoring rule (LMSR) market maker.
+ * The maker's prior for each outcome is re-estimated from real date results
+ * whenever a date completes, and bettors' shares move prices on top of it.
+ * Winning shares pay out 1 credit each when a market resolves.
+ */
+
+const LIQUIDITY = 100;
+const STARTING_BALANCE = 1000;
+const MIN_PROBABILITY = 0.01;
+const MAX_BET = 500;
+
+const PAIR_COMPATIBILITY_THRESHOLD = 7;
+const PAIR_MARKET_DATE_LIMIT = 3;
+const BEST_MATCH_MIN_DATES = 8;
+const HIGH_CONFIDENCE = 0.65;
+
+const DATES_TO_MATCH_BUCKETS = [
+  { id: '8-10', label: '8-10 dates', min: 8, max: 10 },
+  { id: '11-15', label: '11-15 dates', min: 11, max: 15 },
+  { id: '16-25', label: '16-25 dates', min: 16, max: 25 },
+  { id: '26+', label: '26+ dates', min: 26, max: Infinity },
+];
+
+const FIRST_MATCH_BUCKETS = [
+  { id: '1-10', label: 'Within 10 dates', min: 1, max: 10 },
+  { id: '11-25', label: '11-25 dates', min: 11, max: 25 },
+  { id: '26-50', label: '26-50 dates', min: 26, max: 50 },
+  { id: '51+', label: 'More than 50 dates', min: 51, max: Infinity },
+];
+
+export interface MarketDataSource {
+  getUsers(): UserProfile[];
+  getCompletedDates(): DateSession[];
+  getActiveDates(): DateSession[];
+}
+
+interface MarketOutcome {
+  id: string;
+  label: string;
+}
+
+interface MarketState {
+  market: PredictionMarket;
+  outcomes: MarketOutcome[];
+  prior: number[];
+  shares: number[];
+  userId?: string;
+  partnerIds?: string[];
+  // Completed-date count when the market opened (first_match_timing)
+  baselineDates?: number;
+  // Best-match pairs that already existed when the market opened (first_match_timing)
+  knownBestMatchPairs?: string[];
+}
+
+interface StoredMarketState {
+  markets: MarketState[];
+  bets: MarketBet[];
+  accounts: Record<string, number>;
+}
+
+interface Snapshot {
+  users: UserProfile[];
+  completed: DateSession[];
+  pairStats: ReturnType<typeof getPairStats>;
+  bestMatchPairs: Array<{ agentId: string; partnerId: string }>;
+}
+
+export class PredictionMarketError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'PredictionMarketError';
+    this.statusCode = statusCode;
+  }
+}
+
+function normalize(values: number[]): number[] {
+  const clamped = values.map(v => Math.max(MIN_PROBABILITY, Number.isFinite(v) ? v : MIN_PROBABILITY));
+  const total = clamped.reduce((a, b) => a + b, 0);
+  return clamped.map(v => v / total);
+}
+
+function formatOdds(probability: number): string {
+  const ratio = (1 - probability) / probability;
+  return `${ratio >= 10 ? ratio.toFixed(0) : ratio.toFixed(1)}:1`;
+}
+
+/**
+ * Probability mass of a discretized normal distribution falling into each bucket
+ */
+function bucketProbabilities(buckets: Array<{ min: number; max: number }>, mean: number, floor: number): number[] {
+  const sd = Math.max(2, mean * 0.35);
+  const weights = buckets.map(() => 0);
+  const upper = Math.max(mean + sd * 4, floor + 1);
+  for (let n = Math.max(1, Math.ceil(floor)); n <= upper; n++) {
+    const density = Math.exp(-0.5 * Math.pow((n - mean) / sd, 2));
+    const index = buckets.findIndex(b => n >= b.min && n <= b.max);
+    if (index !== -1) weights[index] += density;
+  }
+  // Anything past the scanned range belongs to the open-ended last bucket
+  weights[weights.length - 1] += 1e-3;
+  return normalize(weights);
+}
+
+function datesForUser(dates: DateSession[], userId: string): DateSession[] {
+  return dates.filter(d => d.user1Id === userId || d.user2Id === userId);
+}
+
+class PredictionMarketEngine {
+  private store = new JsonFileStore<StoredMarketState>(path.join(process.cwd(), 'data', 'dating', 'markets.json'), 'prediction markets');
+  private source: MarketDataSource | null = null;
+  private markets: Map<string, MarketState> = new Map();
+  private bets: MarketBet[] = [];
+  private accounts: Map<string, number> = new Map();
+
+  /**
+   * Connect the engine to the dating service and start following date events
+   */
+  attach(source: MarketDataSource): void {
+    if (this.source) return;
+    this.source = source;
+    this.load();
+
+    datingEventBus.on('datesUpdated', (payload: { status?: string }) => {
+      if (payload?.status === 'completed' || (payload?.status === 'active' && this.hasUnopenedPairMarket())) {
+        this.sync();
+      }
+    });
+    datingEventBus.on('bestMatch', (payload: { agentId: string; partnerId: string }) => {
+      if (!this.source) return;
+      this.resolveBestMatches(this.takeSnapshot(), [payload]);
+      this.persist();
+    });
+
+    this.sync();
+  }
+
+  getMarkets(): PredictionMarket[] {
+    return Array.from(this.markets.values())
+      .map(state => this.toPublicMarket(state))
+      .sort((a, b) => {
+        if (a.status !== b.status) return a.status === 'active' ? -1 : 1;
+        return b.marketData.totalVolume - a.marketData.totalVolume || a.createdAt.localeCompare(b.createdAt);
+      });
+  }
+
+  getMarket(marketId: string): PredictionMarket | null {
+    const state = this.markets.get(marketId);
+    return state ? this.toPublicMarket(state) : null;
+  }
+
+  getMarketBets(marketId: string): MarketBet[] {
+    return this.bets.filter(bet => bet.marketId === marketId);
+  }
+
+  getAccount(bettorId: string): BettorAccount {
+    return {
+      bettorId,
+      balance: this.accounts.get(bettorId) ?? STARTING_BALANCE,
+      bets: this.bets.filter(bet => bet.bettorId === bettorId)
+    };
+  }
+
+  /**
+   * Spend `amount` credits on an outcome at the current market-maker price
+   */
+  placeBet(input: { marketId: string; outcomeId: string; bettorId: string; amount: number }): MarketBet {
+    const state = this.markets.get(input.marketId);
+    if (!state) throw new PredictionMarketError('Market not found', 404);
+    if (state.market.status !== 'active') throw new PredictionMarketError('Market is not open for betting');
+
+    const outcomeIndex = state.outcomes.findIndex(o => o.id === input.outcomeId);
+    if (outcomeIndex === -1) throw new PredictionMarketError('Unknown outcome');
+    if (!input.bettorId) throw new PredictionMarketError('bettorId required');
+    if (!Number.isFinite(input.amount) || input.amount <= 0 || input.amount > MAX_BET) {
+      throw new PredictionMarketError(`Bet amount must be between 0 and ${MAX_BET}`);
+    }
+
+    const balance = this.accounts.get(input.bettorId) ?? STARTING_BALANCE;
+    if (input.amount > balance) throw new PredictionMarketError('Insufficient balance');
+
+    const shares = this.sharesForAmount(state, outcomeIndex, input.amount);
+    state.shares[outcomeIndex] += shares;
+    state.market.marketData.totalVolume += input.amount;
+    state.market.marketData.totalBets += 1;
+    state.market.updatedAt = new Date().toISOString();
+    this.accounts.set(input.bettorId, balance - input.amount);
+
+    const bet: MarketBet = {
+      id: `bet-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      marketId: state.market.id,
+      outcomeId: input.outcomeId,
+      bettorId: input.bettorId,
+      amount: input.amount,
+      shares,
+      placedAt: new Date().toISOString()
+    };
+    this.bets.push(bet);
+
+    this.persist();
+    dateEventLog.publish({ type: 'marketsUpdated', marketId: state.market.id });
+    return bet;
+  }
+
+  /**
+   * Create markets for new users and pairs, resolve finished ones and
+   * re-estimate the market maker's priors from the latest date results
+   */
+  sync(): void {
+    if (!this.source) return;
+    const snapshot = this.takeSnapshot();
+
+    this.resolveBestMatches(snapshot, snapshot.bestMatchPairs);
+    this.resolvePairMarkets(snapshot);
+    // After resolving, so a settled first-match market is replaced straight away
+    this.createMissingMarkets(snapshot);
+
+    for (const state of this.markets.values()) {
+      if (state.market.status !== 'active') continue;
+      state.prior = normalize(this.estimatePrior(state, snapshot));
+    }
+
+    this.persist();
+    dateEventLog.publish({ type: 'marketsUpdated' });
+  }
+
+  /**
+   * Active dates fire updates on every message, so only sync when one of
+   * them is a first date that still needs its pair market
+   */
+  private hasUnopenedPairMarket(): boolean {
+    const completed = this.source!.getCompletedDates();
+    return this.source!.getActiveDates().some(date => {
+      const pairKey = getPairKey(date.user1Id, date.user2Id);
+      return !this.markets.has(`pair:${pairKey}`) &&
+        !completed.some(d => getPairKey(d.user1Id, d.user2Id) === pairKey);
+    });
+  }
+
+  private takeSnapshot(): Snapshot {
+    const users = this.source!.getUsers();
+    const completed = this.source!.getCompletedDates().filter(d => d.status === 'completed');
+    const pairStats = getPairStats(completed);
+
+    const bestMatchPairs: Array<{ agentId: string; partnerId: string }> = [];
+    pairStats.forEach((stats, key) => {
+      if (stats.dateCount < BEST_MATCH_MIN_DATES) return;
+      const [a, b] = key.split('|');
+      if (bestMatchDetector.checkBestMatch(a, b, completed).isBestMatch) {
+        bestMatchPairs.push({ agentId: a, partnerId: b });
+      }
+    });
+
+    return { users, completed, pairStats, bestMatchPairs };
+  }
+
+  private createMissingMarkets(snapshot: Snapshot) {
+    const now = new Date().toISOString();
+    const { users } = snapshot;
+
+    for (const user of users) {
+      const partners = users.filter(u => u.id !== user.id && areMutuallyCompatible(user, u));
+      if (partners.length === 0) continue;
+
+      const datesId = `dates-to-match:${user.id}`;
+      if (!this.markets.has(datesId)) {
+        this.addMarket({
+          id: datesId,
+          type: 'dates_to_match',
+          title: `How many dates will it take for ${user.name} to find their perfect match?`,
+          description: `Predict how many completed dates ${user.name} will have been on when the best-match detector first identifies their perfect match.`,
+          participants: [user.id],
+          participantNames: [user.name],
+          resolutionCriteria: `Total dates for ${user.name} when a best match is detected`,
+          createdAt: now
+        }, DATES_TO_MATCH_BUCKETS.map(b => ({ id: b.id, label: b.label })), { userId: user.id });
+      }
+
+      const rankingId = `ranking:${user.id}`;
+      if (!this.markets.has(rankingId) && partners.length >= 2) {
+        this.addMarket({
+          id: rankingId,
+          type: 'compatibility_ranking',
+          title: `Who will ${user.name} be most compatible with?`,
+          description: `Which partner will the best-match detector pick for ${user.name}?`,
+          participants: [user.id, ...partners.map(p => p.id)],
+          participantNames: [user.name, ...partners.map(p => p.name)],
+          resolutionCriteria: `Partner in ${user.name}'s first detected best match`,
+          createdAt: now
+        }, partners.map(p => ({ id: p.id, label: p.name })), { userId: user.id, partnerIds: partners.map(p => p.id) });
+      }
+    }
+
+    // Pair markets open when a pair goes on their first date
+    for (const date of this.source!.getActiveDates()) {
+      const pairKey = getPairKey(date.user1Id, date.user2Id);
+      const pairId = `pair:${pairKey}`;
+      if (this.markets.has(pairId) || snapshot.pairStats.has(pairKey)) continue;
+      this.addMarket({
+        id: pairId,
+        type: 'compatibility_probability',
+        title: `Will ${date.user1Name} and ${date.user2Name} achieve compatibility ≥ ${PAIR_COMPATIBILITY_THRESHOLD.toFixed(1)}?`,
+        description: `Resolves Yes if any of ${date.user1Name} and ${date.user2Name}'s next ${PAIR_MARKET_DATE_LIMIT} dates is rated ${PAIR_COMPATIBILITY_THRESHOLD}/10 or higher.`,
+        participants: [date.user1Id, date.user2Id],
+        participantNames: [date.user1Name, date.user2Name],
+        resolutionCriteria: `Compatibility rating ≥ ${PAIR_COMPATIBILITY_THRESHOLD.toFixed(1)} within ${PAIR_MARKET_DATE_LIMIT} dates`,
+        createdAt: date.startTime.toISOString()
+      }, [{ id: 'yes', label: 'Yes' }, { id: 'no', label: 'No' }], { partnerIds: [date.user1Id, date.user2Id] });
+    }
+
+    const hasOpenTimingMarket = Array.from(this.markets.values())
+      .some(state => state.market.type === 'first_match_timing' && state.market.status === 'active');
+    if (!hasOpenTimingMarket) {
+      const round = Array.from(this.markets.values()).filter(state => state.market.type === 'first_match_timing').length + 1;
+      this.addMarket({
+        id: `first-match:${round}`,
+        type: 'first_match_timing',
+        title: 'How many more dates until the next perfect match?',
+        description: 'Counts completed dates across the whole city until the best-match detector finds a new perfect pair.',
+        participants: [],
+        participantNames: [],
+        resolutionCriteria: 'City-wide completed dates until a new best match is detected',
+        createdAt: now
+      }, FIRST_MATCH_BUCKETS.map(b => ({ id: b.id, label: b.label })), {
+        baselineDates: snapshot.completed.length,
+        knownBestMatchPairs: snapshot.bestMatchPairs.map(p => getPairKey(p.agentId, p.partnerId))
+      });
+    }
+  }
+
+  private addMarket(
+    details: {
+      id: string;
+      type: PredictionMarketType;
+      title: string;
+      description: string;
+      participants: string[];
+      participantNames: string[];
+      resolutionCriteria: string;
+      createdAt: string;
+    },
+    outcomes: MarketOutcome[],
+    meta: Pick<MarketState, 'userId' | 'partnerIds' | 'baselineDates' | 'knownBestMatchPairs'>
+  ) {
+    this.markets.set(details.id, {
+      market: {
+        id: details.id,
+        type: details.type,
+        title: details.title,
+        description: details.description,
+        participants: details.participants,
+        participantNames: details.participantNames,
+        marketData: {
+          totalVolume: 0,
+          totalBets: 0,
+          resolutionCriteria: details.resolutionCriteria
+        },
+        status: 'active',
+        createdAt: details.createdAt,
+        updatedAt: details.createdAt
+      },
+      outcomes,
+      prior: outcomes.map(() => 1 / outcomes.length),
+      shares: outcomes.map(() => 0),
+      ...meta
+    });
+  }
+
+  private resolveBestMatches(snapshot: Snapshot, pairs: Array<{ agentId: string; partnerId: string }>) {
+    for (const { agentId, partnerId } of pairs) {
+      const pairKey = getPairKey(agentId, partnerId);
+
+      for (const userId of [agentId, partnerId]) {
+        const otherId = userId === agentId ? partnerId : agentId;
+
+        const datesState = this.markets.get(`dates-to-match:${userId}`);
+        if (datesState?.market.status === 'active') {
+          const total = datesForUser(snapshot.completed, userId).length;
+          const bucket = DATES_TO_MATCH_BUCKETS.find(b => total >= b.min && total <= b.max) || DATES_TO_MATCH_BUCKETS[DATES_TO_MATCH_BUCKETS.length - 1];
+          this.resolve(datesState, bucket.id);
+        }
+
+        const rankingState = this.markets.get(`ranking:${userId}`);
+        if (rankingState?.market.status === 'active' && rankingState.outcomes.some(o => o.id === otherId)) {
+          this.resolve(rankingState, otherId);
+        }
+      }
+
+      for (const state of this.markets.values()) {
+        if (state.market.type !== 'first_match_timing' || state.market.status !== 'active') continue;
+        if (state.knownBestMatchPairs?.includes(pairKey)) continue;
+        const elapsed = Math.max(1, snapshot.completed.length - (state.baselineDates ?? 0));
+        const bucket = FIRST_MATCH_BUCKETS.find(b => elapsed >= b.min && elapsed <= b.max) || FIRST_MATCH_BUCKETS[FIRST_MATCH_BUCKETS.length - 1];
+        this.resolve(state, bucket.id);
+      }
+    }
+  }
+
+  private resolvePairMarkets(snapshot: Snapshot) {
+    for (const state of this.markets.values()) {
+      if (state.market.type !== 'compatibility_probability' || state.market.status !== 'active') continue;
+      const [a, b] = state.partnerIds || [];
+      const pairDates = snapshot.completed
+        .filter(d => getPairKey(d.user1Id, d.user2Id) === getPairKey(a, b))
+        .filter(d => d.endTime.toISOString() >= state.market.createdAt)
+        .sort((x, y) => x.endTime.getTime() - y.endTime.getTime())
+        .slice(0, PAIR_MARKET_DATE_LIMIT);
+
+      if (pairDates.some(d => (d.compatibilityRating ?? 0) >= PAIR_COMPATIBILITY_THRESHOLD)) {
+        this.resolve(state, 'yes');
+      } else if (pairDates.length >= PAIR_MARKET_DATE_LIMIT) {
+        this.resolve(state, 'no');
+      }
+    }
+  }
+
+  private resolve(state: MarketState, outcomeId: string) {
+    const now = new Date().toISOString();
+    state.market.status = 'resolved';
+    state.market.resolvedOutcomeId = outcomeId;
+    state.market.resolvedAt = now;
+    state.market.updatedAt = now;
+
+    for (const bet of this.bets) {
+      if (bet.marketId !== state.market.id || bet.payout !== undefined) continue;
+      bet.payout = bet.outcomeId === outcomeId ? bet.shares : 0;
+      if (bet.payout > 0) {
+        this.accounts.set(bet.bettorId, (this.accounts.get(bet.bettorId) ?? STARTING_BALANCE) + bet.payout);
+      }
+    }
+  }
+
+  /**
+   * The market maker's own belief for each outcome, from date results so far
+   */
+  private estimatePrior(state: MarketState, snapshot: Snapshot): number[] {
+    switch (state.market.type) {
+      case 'dates_to_match': {
+        const userId = state.userId!;
+        const eta = this.estimateDatesToMatch(userId, snapshot);
+        return bucketProbabilities(DATES_TO_MATCH_BUCKETS, eta.expectedTotal, eta.datesSoFar);
+      }
+      case 'compatibility_ranking': {
+        const userId = state.userId!;
+        // Shrink each partner's average toward a neutral prior until they've had a few dates
+        const scores = state.outcomes.map(outcome => {
+          const stats = snapshot.pairStats.get(getPairKey(userId, outcome.id));
+          const count = stats?.dateCount || 0;
+          const mean = ((stats?.avgConfidence ?? 0.5) * count + 0.5 * 2) / (count + 2);
+          return Math.exp(mean / 0.08);
+        });
+        return scores;
+      }
+      case 'compatibility_probability': {
+        const [a, b] = state.partnerIds || [];
+        const pairDates = snapshot.completed.filter(d => getPairKey(d.user1Id, d.user2Id) === getPairKey(a, b));
+        const ratings = pairDates.map(d => d.compatibilityRating).filter((r): r is number => r !== undefined);
+        const avgRating = ratings.length > 0 ? ratings.reduce((x, y) => x + y, 0) / ratings.length : 5.5;
+        const perDate = 1 / (1 + Math.exp(-(avgRating - PAIR_COMPATIBILITY_THRESHOLD + 0.5) / 1.2));
+        const remaining = Math.max(1, PAIR_MARKET_DATE_LIMIT - pairDates.filter(d => d.endTime.toISOString() >= state.market.createdAt).length);
+        const yes = 1 - Math.pow(1 - perDate, remaining);
+        return [yes, 1 - yes];
+      }
+      case 'first_match_timing': {
+        const elapsed = snapshot.completed.length - (state.baselineDates ?? 0);
+        // Soonest individual ETA, scaled because every city-wide date only involves two people
+        const fastest = snapshot.users.reduce((best, user) => {
+          const eta = this.estimateDatesToMatch(user.id, snapshot);
+          return Math.min(best, eta.expectedTotal - eta.datesSoFar);
+        }, Infinity);
+        const cityWide = Number.isFinite(fastest) ? fastest * Math.max(1, snapshot.users.length / 2) : 50;
+        return bucketProbabilities(FIRST_MATCH_BUCKETS, elapsed + cityWide, Math.max(1, elapsed));
+      }
+    }
+  }
+
+  private estimateDatesToMatch(userId: string, snapshot: Snapshot): { datesSoFar: number; expectedTotal: number } {
+    const datesSoFar = datesForUser(snapshot.completed, userId).length;
+    const partnerCount = Math.max(1, snapshot.users.filter(u => u.id !== userId).length);
+
+    const matchedPairs = new Set(snapshot.bestMatchPairs.map(p => getPairKey(p.agentId, p.partnerId)));
+
+    let bestRemaining = Infinity;
+    snapshot.pairStats.forEach((stats, key) => {
+      if (!key.split('|').includes(userId) || matchedPairs.has(key)) return;
+      if (stats.avgConfidence < HIGH_CONFIDENCE) return;
+      bestRemaining = Math.min(bestRemaining, Math.max(1, BEST_MATCH_MIN_DATES - stats.dateCount));
+    });
+
+    // Without a promising partner yet, assume one turns up after meeting about half the roster
+    const remainingPairDates = Number.isFinite(bestRemaining) ? bestRemaining : BEST_MATCH_MIN_DATES + partnerCount / 2;
+    // Dates are spread across partners, so each pair date costs several of the user's dates
+    const spread = Math.max(1, Math.min(partnerCount, 3));
+    return { datesSoFar, expectedTotal: datesSoFar + remainingPairDates * spread };
+  }
+
+  private currentProbabilities(state: MarketState): number[] {
+    const weights = state.prior.map((p, i) => p * Math.exp(state.shares[i] / LIQUIDITY));
+    const total = weights.reduce((a, b) => a + b, 0);
+    return weights.map(w => w / total);
+  }
+
+  /**
+   * LMSR: shares of outcome i purchasable for `amount` credits
+   */
+  private sharesForAmount(state: MarketState, outcomeIndex: number, amount: number): number {
+    const weights = state.prior.map((p, i) => p * Math.exp(state.shares[i] / LIQUIDITY));
+    const total = weights.reduce((a, b) => a + b, 0);
+    const own = weights[outcomeIndex];
+    return LIQUIDITY * Math.log((total * Math.exp(amount / LIQUIDITY) - total + own) / own);
+  }
+
+  private toPublicMarket(state: MarketState): PredictionMarket {
+    const probabilities = this.currentProbabilities(state);
+    const currentOdds: MarketOdds[] = state.outcomes.map((outcome, i) => ({
+      outcomeId: outcome.id,
+      option: outcome.label,
+      probability: probabilities[i],
+      odds: formatOdds(probabilities[i])
+    }));
+    return { ...state.market, marketData: { ...state.market.marketData }, currentOdds };
+  }
+
+  private load() {
+    const stored = this.store.read();
+    // First run: no market file yet
+    if (!stored) return;
+    for (const state of stored.markets || []) {
+      this.markets.set(state.market.id, state);
+    }
+    this.bets = stored.bets || [];
+    this.accounts = new Map(Object.entries(stored.accounts || {}));
+  }
+
+  private persist(): Promise<void> {
+    const snapshot: StoredMarketState = {
+      markets: Array.from(this.markets.values()),
+      bets: this.bets,
+      accounts: Object.fromEntries(this.accounts)
+    };
+    return this.store.write(snapshot);
+  }
+}
+
+export const predictionMarketEngine = new PredictionMarketEngine();
@@ -0,0 +1,288 @@
+import path from 'path';
+import type { DateSession } from './orchestrator';
+import type { UserProfile } from '@/lib/userDatabase';
+import { getParticipantScore } from './dateEvaluation';
+import type { DateVenue, VenueCategory } from './venues';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * Pairs move through explicit relationship stages across repeated dates.
+ * Each completed date is judged by both participants' evaluations and can
+ * advance the pair, keep them where they are, or end things.
+ */
+
+export type RelationshipStage = 'first_date' | 'second_date' | 'exclusive' | 'broken_up';
+
+export interface StageTransition {
+  dateId: string;
+  from: RelationshipStage;
+  to: RelationshipStage;
+  reason: string;
+  at: string; // ISO date string
+}
+
+export interface PairRelationship {
+  pairKey: string;
+  userIds: [string, string];
+  userNames: [string, string];
+  stage: RelationshipStage;
+  totalDates: number;
+  datesAtStage: number;
+  lastDateId?: string;
+  lastSummary?: string;
+  history: StageTransition[];
+  updatedAt: string;
+}
+
+interface StageDetails {
+  label: string;
+  // Fallback setting when the city has no venues to offer
+  venue: string;
+  venueCategories: VenueCategory[];
+  prompt: (partnerName: string) => string;
+}
+
+export const STAGE_DETAILS: Record<RelationshipStage, StageDetails> = {
+  first_date: {
+    label: 'First date',
+    venue: 'a cozy neighborhood coffee shop',
+    venueCategories: ['cafe', 'park'],
+    prompt: partner => `This is your first date with ${partner}. You have never met before, so start with introductions and get a feel for each other.`
+  },
+  second_date: {
+    label: 'Second date',
+    venue: 'a lively tapas restaurant',
+    venueCategories: ['restaurant', 'entertainment', 'culture'],
+    prompt: partner => `This is a follow-up date with ${partner}. The last one went well enough that you both agreed to meet again, so you can reference it and go a little deeper than small talk.`
+  },
+  exclusive: {
+    label: 'Exclusive',
+    venue: 'a quiet candlelit dinner spot',
+    venueCategories: ['restaurant', 'waterfront', 'park'],
+    prompt: partner => `You and ${partner} are now dating exclusively. Talk like a couple who knows each other: shared plans, inside jokes, and honest conversations about where this is going.`
+  },
+  broken_up: {
+    label: 'Broken up',
+    venue: 'a neutral cafe',
+    venueCategories: ['cafe', 'park'],
+    prompt: partner => `You and ${partner} broke up. You ran into each other again; be civil, a little guarded, and honest about why it didn't work.`
+  },
+};
+
+// Both sides must clear this weighted evaluation score (0-1) to move forward
+const ADVANCE_SCORE = 0.55;
+// Either side below this who also wouldn't date again ends the relationship
+const BREAK_UP_SCORE = 0.4;
+// Fallbacks when a date has no evaluation
+const ADVANCE_CONFIDENCE = 0.6;
+const BREAK_UP_CONFIDENCE = 0.35;
+
+const NEXT_STAGE: Record<RelationshipStage, RelationshipStage> = {
+  first_date: 'second_date',
+  second_date: 'exclusive',
+  exclusive: 'exclusive',
+  broken_up: 'broken_up',
+};
+
+function getPairKey(userAId: string, userBId: string): string {
+  return [userAId, userBId].sort().join('|');
+}
+
+export function formatStage(stage: RelationshipStage): string {
+  return STAGE_DETAILS[stage].label;
+}
+
+/**
+ * Nobody walked away, but it wasn't a clear yes either. A first date still
+ * earns a second one; later stages hold where they are.
+ */
+function mixedFeelings(stage: RelationshipStage): { to: RelationshipStage; reason: string } {
+  if (stage === 'first_date') return { to: 'second_date', reason: 'willing to give it another try' };
+  return { to: stage, reason: 'mixed feelings' };
+}
+
+/**
+ * Where a completed date leaves the pair
+ */
+export function decideTransition(stage: RelationshipStage, dateSession: DateSession): { to: RelationshipStage; reason: string } {
+  if (stage === 'broken_up') return { to: 'broken_up', reason: 'already broken up' };
+
+  const evaluation = dateSession.evaluation;
+  if (evaluation) {
+    const [a, b] = evaluation.participants;
+    const scores = [getParticipantScore(a), getParticipantScore(b)];
+    const leaving = evaluation.participants.find((p, i) => !p.wouldDateAgain && scores[i] < BREAK_UP_SCORE);
+    if (leaving) {
+      return { to: 'broken_up', reason: `${leaving.userName} didn't want to continue` };
+    }
+    if (a.wouldDateAgain && b.wouldDateAgain && Math.min(...scores) >= ADVANCE_SCORE) {
+      return { to: NEXT_STAGE[stage], reason: 'both wanted to keep seeing each other' };
+    }
+    return mixedFeelings(stage);
+  }
+
+  const confidence = dateSession.confidence;
+  if (confidence === undefined) return { to: stage, reason: 'no evaluation' };
+  if (confidence < BREAK_UP_CONFIDENCE) return { to: 'broken_up', reason: 'low confidence' };
+  if (confidence >= ADVANCE_CONFIDENCE) return { to: NEXT_STAGE[stage], reason: 'high confidence' };
+  return mixedFeelings(stage);
+}
+
+class RelationshipProgressionStore {
+  private store = new JsonFileStore<PairRelationship[]>(path.join(process.cwd(), 'data', 'dating', 'relationships.json'), 'relationship progression');
+  private relationships: Map<string, PairRelationship> | null = null;
+
+  private load(): Map<string, PairRelationship> {
+    if (this.relationships) return this.relationships;
+    this.relationships = new Map();
+    // Nothing stored until the first date has been recorded
+    (this.store.read() || []).forEach(relationship => this.relationships!.set(relationship.pairKey, relationship));
+    return this.relationships;
+  }
+
+  hasHistory(): boolean {
+    return this.load().size > 0;
+  }
+
+  getRelationship(userAId: string, userBId: string): PairRelationship | null {
+    return this.load().get(getPairKey(userAId, userBId)) || null;
+  }
+
+  getStage(userAId: string, userBId: string): RelationshipStage {
+    return this.getRelationship(userAId, userBId)?.stage || 'first_date';
+  }
+
+  getRelationshipsForUser(userId: string): PairRelationship[] {
+    return Array.from(this.load().values()).filter(relationship => relationship.userIds.includes(userId));
+  }
+
+  /**
+   * Who the user is exclusive with, or null if nobody. If history somehow
+   * left them exclusive with several people, the latest one counts.
+   */
+  getExclusivePartner(userId: string): string | null {
+    const exclusive = this.getRelationshipsForUser(userId)
+      .filter(relationship => relationship.stage === 'exclusive')
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+    if (!exclusive) return null;
+    return exclusive.userIds[0] === userId ? exclusive.userIds[1] : exclusive.userIds[0];
+  }
+
+  /**
+   * Advance the pair based on a completed date. Returns the transition that
+   * was applied, or null if the date was already counted.
+   */
+  async recordDate(dateSession: DateSession): Promise<StageTransition | null> {
+    const transition = this.applyDate(dateSession);
+    if (transition) {
+      await this.persist();
+    }
+    return transition;
+  }
+
+  /**
+   * Replay completed dates (oldest first) for pairs that predate progression tracking
+   */
+  async rebuildFromHistory(dates: DateSession[]): Promise<void> {
+    const completed = dates
+      .filter(date => date.status === 'completed')
+      .sort((a, b) => a.endTime.getTime() - b.endTime.getTime());
+    let changed = false;
+    for (const date of completed) {
+      if (this.applyDate(date)) changed = true;
+    }
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  private applyDate(dateSession: DateSession): StageTransition | null {
+    if (dateSession.status !== 'completed') return null;
+    const relationships = this.load();
+    const pairKey = getPairKey(dateSession.user1Id, dateSession.user2Id);
+    const relationship: PairRelationship = relationships.get(pairKey) || {
+      pairKey,
+      userIds: [dateSession.user1Id, dateSession.user2Id],
+      userNames: [dateSession.user1Name, dateSession.user2Name],
+      stage: 'first_date',
+      totalDates: 0,
+      datesAtStage: 0,
+      history: [],
+      updatedAt: new Date().toISOString()
+    };
+    if (relationship.history.some(entry => entry.dateId === dateSession.id)) return null;
+
+    const from = relationship.stage;
+    const { to, reason } = decideTransition(from, dateSession);
+    const transition: StageTransition = {
+      dateId: dateSession.id,
+      from,
+      to,
+      reason,
+      at: dateSession.endTime.toISOString()
+    };
+
+    relationship.stage = to;
+    relationship.datesAtStage = to === from ? relationship.datesAtStage + 1 : 0;
+    relationship.totalDates += 1;
+    relationship.lastDateId = dateSession.id;
+    relationship.lastSummary = dateSession.summary;
+    relationship.history.push(transition);
+    relationship.updatedAt = new Date().toISOString();
+    relationships.set(pairKey, relationship);
+    return transition;
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.load().values()));
+  }
+}
+
+export const relationshipProgression = new RelationshipProgressionStore();
+
+/**
+ * Stage-specific setting and instructions for an agent's system prompt
+ */
+export function buildStagePromptBlock(user: UserProfile, partner: UserProfile, venue?: DateVenue): string {
+  const relationship = relationshipProgression.getRelationship(user.id, partner.id);
+  const stage = relationship?.stage || 'first_date';
+  const details = STAGE_DETAILS[stage];
+
+  const lines = [
+    'THIS DATE:',
+    `- Stage: ${details.label}`,
+    `- Setting: ${venue ? `${venue.name}, ${venue.description}` : details.venue}`,
+    `- ${details.prompt(partner.name)}`
+  ];
+  if (venue) {
+    lines.push(`- You are really there, so let the place come up naturally: what you see, hear, order or do at ${venue.name}`);
+  }
+  if (relationship && relationship.totalDates > 0) {
+    lines.push(`- You have been on ${relationship.totalDates} date${relationship.totalDates === 1 ? '' : 's'} with ${partner.name} so far`);
+  }
+  if (relationship?.lastSummary) {
+    lines.push(`- Last time: ${relationship.lastSummary}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One-line arc for every relationship a user has been in, strongest first
+ */
+export function describeRelationshipArc(userId: string): string {
+  const relationships = relationshipProgression.getRelationshipsForUser(userId);
+  if (relationships.length === 0) return 'No relationships yet.';
+
+  const rank: Record<RelationshipStage, number> = { exclusive: 0, second_date: 1, first_date: 2, broken_up: 3 };
+  return relationships
+    .sort((a, b) => rank[a.stage] - rank[b.stage] || b.totalDates - a.totalDates)
+    .map(relationship => {
+      const partnerName = relationship.userIds[0] === userId ? relationship.userNames[1] : relationship.userNames[0];
+      const stages = [relationship.history[0]?.from || 'first_date', ...relationship.history.map(entry => entry.to)]
+        .filter((stage, i, stages) => i === 0 || stage !== stages[i - 1])
+        .map(formatStage)
+        .join(' → ');
+      return `${partnerName}: ${stages} (${relationship.totalDates} date${relationship.totalDates === 1 ? '' : 's'})`;
+    })
+    .join('\n');
+}
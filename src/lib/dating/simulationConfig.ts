@@ -0,0 +1,175 @@
+import path from 'path';
+import type { LLMProviderName } from './llm';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * Runtime settings for the dating simulation, changed through
+ * /api/dating/admin and kept on disk so they survive restarts.
+ */
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+export interface SimulationConfig {
+  maxConcurrentDates: number;
+  dateDurationMs: NumberRange;
+  // Pause after a date starts before the opening line
+  openingDelayMs: NumberRange;
+  // Pause between replies
+  replyDelayMs: NumberRange;
+  // Models agents are drawn from per provider; an empty or missing pool means every model the provider offers
+  modelPools: Partial<Record<LLMProviderName, string[]>>;
+  // Users left out of automatic scheduling and match requests
+  disabledUserIds: string[];
+  // Model spend per UTC day after which automatic scheduling pauses; null for no limit
+  dailyBudgetUsd: number | null;
+  updatedAt?: string; // ISO date string
+}
+
+export class SimulationControlError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'SimulationControlError';
+    this.statusCode = statusCode;
+  }
+}
+
+function parseBudget(value: string | undefined): number | null {
+  const budget = Number(value);
+  return value && Number.isFinite(budget) && budget >= 0 ? budget : null;
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  maxConcurrentDates: 3,
+  dateDurationMs: { min: 60000, max: 180000 },
+  openingDelayMs: { min: 3000, max: 10000 },
+  replyDelayMs: { min: 8000, max: 15000 },
+  modelPools: {},
+  disabledUserIds: [],
+  dailyBudgetUsd: parseBudget(process.env.DATING_DAILY_BUDGET_USD)
+};
+
+const MAX_CONCURRENT_DATES = 20;
+const MAX_DATE_DURATION_MS = 60 * 60 * 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const PROVIDER_NAMES: LLMProviderName[] = ['openrouter', 'anthropic', 'scripted'];
+
+export function randomInRange(range: NumberRange): number {
+  return range.min + Math.floor(Math.random() * (range.max - range.min + 1));
+}
+
+function parseRange(value: unknown, name: string, lowest: number, highest: number): NumberRange {
+  const range = value as NumberRange;
+  const valid = !!range &&
+    Number.isInteger(range.min) && Number.isInteger(range.max) &&
+    range.min >= lowest && range.max <= highest && range.min <= range.max;
+  if (!valid) {
+    throw new SimulationControlError(`${name} needs integer min <= max between ${lowest} and ${highest}`);
+  }
+  return { min: range.min, max: range.max };
+}
+
+function parseModelPools(value: unknown): SimulationConfig['modelPools'] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new SimulationControlError('modelPools must map provider names to model lists');
+  }
+  const pools: SimulationConfig['modelPools'] = {};
+  for (const [provider, models] of Object.entries(value)) {
+    if (!PROVIDER_NAMES.includes(provider as LLMProviderName)) {
+      throw new SimulationControlError(`Unknown provider "${provider}" in modelPools`);
+    }
+    if (!Array.isArray(models) || !models.every(model => typeof model === 'string' && model.trim())) {
+      throw new SimulationControlError(`modelPools.${provider} must be a list of model ids`);
+    }
+    pools[provider as LLMProviderName] = models.map(model => model.trim());
+  }
+  return pools;
+}
+
+class SimulationConfigStore {
+  private store = new JsonFileStore<Partial<SimulationConfig>>(path.join(process.cwd(), 'data', 'dating', 'config.json'), 'simulation config');
+  private config: SimulationConfig | null = null;
+
+  private load(): SimulationConfig {
+    if (this.config) return this.config;
+    this.config = { ...DEFAULT_SIMULATION_CONFIG, ...this.store.read() };
+    return this.config!;
+  }
+
+  get(): SimulationConfig {
+    return this.load();
+  }
+
+  isUserEnabled(userId: string): boolean {
+    return !this.load().disabledUserIds.includes(userId);
+  }
+
+  /**
+   * Models to draw an agent's model from, limited to what the provider offers
+   */
+  getModelPool(provider: LLMProviderName, available: string[]): string[] {
+    const pool = this.load().modelPools[provider]?.filter(model => available.includes(model)) || [];
+    return pool.length > 0 ? pool : available;
+  }
+
+  /**
+   * Apply a partial update. Fields that are left out keep their values.
+   */
+  async update(patch: Record<string, unknown>): Promise<SimulationConfig> {
+    const next: SimulationConfig = { ...this.load() };
+
+    if (patch.maxConcurrentDates !== undefined) {
+      const value = patch.maxConcurrentDates;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_CONCURRENT_DATES) {
+        throw new SimulationControlError(`maxConcurrentDates must be an integer from 0 to ${MAX_CONCURRENT_DATES}`);
+      }
+      next.maxConcurrentDates = value;
+    }
+    if (patch.dateDurationMs !== undefined) {
+      next.dateDurationMs = parseRange(patch.dateDurationMs, 'dateDurationMs', 10000, MAX_DATE_DURATION_MS);
+    }
+    if (patch.openingDelayMs !== undefined) {
+      next.openingDelayMs = parseRange(patch.openingDelayMs, 'openingDelayMs', 0, MAX_DELAY_MS);
+    }
+    if (patch.replyDelayMs !== undefined) {
+      next.replyDelayMs = parseRange(patch.replyDelayMs, 'replyDelayMs', 0, MAX_DELAY_MS);
+    }
+    if (patch.modelPools !== undefined) {
+      next.modelPools = parseModelPools(patch.modelPools);
+    }
+    if (patch.disabledUserIds !== undefined) {
+      const ids = patch.disabledUserIds;
+      if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+        throw new SimulationControlError('disabledUserIds must be a list of user ids');
+      }
+      next.disabledUserIds = Array.from(new Set(ids));
+    }
+    if (patch.dailyBudgetUsd !== undefined) {
+      const value = patch.dailyBudgetUsd;
+      if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        throw new SimulationControlError('dailyBudgetUsd must be a non-negative number or null');
+      }
+      next.dailyBudgetUsd = value;
+    }
+
+    next.updatedAt = new Date().toISOString();
+    this.config = next;
+    await this.persist();
+    return next;
+  }
+
+  async setUserEnabled(userId: string, enabled: boolean): Promise<SimulationConfig> {
+    const disabled = this.load().disabledUserIds.filter(id => id !== userId);
+    return this.update({ disabledUserIds: enabled ? disabled : [...disabled, userId] });
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(this.load());
+  }
+}
+
+export const simulationConfig = new SimulationConfigStore();
@@ -5,46 +5,89 @@ interface SSEController {
   close: () => void;
 }
 
+/**
+ * One server-sent event. Unnamed events arrive through EventSource's
+ * onmessage; named ones only reach listeners for that name.
+ */
+export interface StreamEvent {
+  id?: string;
+  event?: string;
+  data: unknown;
+}
+
+export function formatStreamEvent({ id, event, data }: StreamEvent): string {
+  return `${id ? `id: ${id}\n` : ''}${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Open notification streams, keyed by user. A user can be connected from
+ * several devices at once and every one of them gets each notification.
+ */
 class SSEConnectionManager extends EventEmitter {
-  private connections: Map<string, SSEController> = new Map();
+  private connections: Map<string, Map<string, SSEController>> = new Map();
+  private nextConnectionId = 1;
 
-  addConnection(userId: string, controller: SSEController): void {
-    this.connections.set(userId, controller);
-    console.log(`SSE connection added for user: ${userId}`);
+  /**
+   * Register a stream and return its connection id for removeConnection
+   */
+  addConnection(userId: string, controller: SSEController): string {
+    const connectionId = String(this.nextConnectionId++);
+    const userConnections = this.connections.get(userId) || new Map<string, SSEController>();
+    userConnections.set(connectionId, controller);
+    this.connections.set(userId, userConnections);
+    console.log(`SSE connection ${connectionId} added for user: ${userId} (${userConnections.size} open)`);
+    return connectionId;
   }
 
-  removeConnection(userId: string): void {
-    this.connections.delete(userId);
-    console.log(`SSE connection removed for user: ${userId}`);
+  removeConnection(userId: string, connectionId: string): void {
+    const userConnections = this.connections.get(userId);
+    if (!userConnections?.delete(connectionId)) return;
+    if (userConnections.size === 0) {
+      this.connections.delete(userId);
+    }
+    console.log(`SSE connection ${connectionId} removed for user: ${userId}`);
   }
 
-  sendMatch(userId: string, matchData: unknown): boolean {
-    const controller = this.connections.get(userId);
-    if (!controller) {
-      return false;
-    }
+  /**
+   * Write an event to every stream the user has open. Streams that fail are
+   * dropped. Returns how many devices received it.
+   */
+  send(userId: string, event: StreamEvent): number {
+    const userConnections = this.connections.get(userId);
+    if (!userConnections) return 0;
 
-    try {
-      const encoder = new TextEncoder();
-      const data = `data: ${JSON.stringify(matchData)}\n\n`;
-      controller.enqueue(encoder.encode(data));
-      this.removeConnection(userId);
-      controller.close();
-      return true;
-    } catch (error) {
-      console.error(`Error sending match to user ${userId}:`, error);
-      this.removeConnection(userId);
-      controller.close();
-      return false;
+    const frame = new TextEncoder().encode(formatStreamEvent(event));
+    let delivered = 0;
+    for (const [connectionId, controller] of Array.from(userConnections.entries())) {
+      try {
+        controller.enqueue(frame);
+        delivered++;
+      } catch (error) {
+        console.error(`Error sending to user ${userId} on connection ${connectionId}:`, error);
+        this.removeConnection(userId, connectionId);
+        try {
+          controller.close();
+        } catch {
+          // Ignore: controller may already be closed.
+        }
+      }
     }
+    return delivered;
   }
 
   hasConnection(userId: string): boolean {
     return this.connections.has(userId);
   }
 
-  getConnectionCount(): number {
-    return this.connections.size;
+  getConnectionCount(userId?: string): number {
+    if (userId) {
+      return this.connections.get(userId)?.size || 0;
+    }
+    let total = 0;
+    this.connections.forEach(userConnections => {
+      total += userConnections.size;
+    });
+    return total;
   }
 
   getConnectedUserIds(): string[] {
@@ -53,4 +96,3 @@ class SSEConnectionManager extends EventEmitter {
 }
 
 export const sseConnectionManager = new SSEConnectionManager();
-
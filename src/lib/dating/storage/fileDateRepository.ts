@@ -0,0 +1,363 @@
+import fsSync from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readLegacyDateLog } from './legacyLogMigration';
+import type { DateRepository, StoredDateMessage, StoredDateRecord } from './types';
+
+/**
+ * Embedded file database for date sessions.
+ *
+ *   <dir>/dates.json               index entries as of the last compaction
+ *   <dir>/dates.journal.jsonl      index entries changed since, one per line
+ *   <dir>/rows/<dateId>.json       the full row for each date
+ *   <dir>/messages/<dateId>.jsonl  append-only transcript per date
+ *
+ * The index holds only what lookups need (ids, participants, start time and
+ * status), so startup reads the index plus the rows of open dates. Rows of
+ * completed and cancelled dates are read from disk one at a time when asked
+ * for and not kept here.
+ *
+ * A save replaces the date's row file (temp file, then rename) and appends
+ * to the journal only when the index entry changed, which is once when the
+ * date is created and once per status change. Loading replays the journal
+ * over the index, the last line for a date winning. Once the journal is long
+ * enough it's folded into a new index, written the same way, and emptied.
+ */
+
+type DateIndexEntry = Pick<StoredDateRecord, 'id' | 'user1Id' | 'user2Id' | 'startTime' | 'status'>;
+
+interface DateIndexFile {
+  version: number;
+  migratedFromLog?: string;
+  // Version 1 tables held full rows, which are a superset of index entries
+  dates: Array<DateIndexEntry | StoredDateRecord>;
+}
+
+const INDEX_VERSION = 2;
+
+// Journal lines to collect before folding them into the index
+const COMPACT_AFTER_SAVES = 500;
+
+function getPairKey(userAId: string, userBId: string): string {
+  return [userAId, userBId].sort().join('|');
+}
+
+function byStartTime(a: DateIndexEntry, b: DateIndexEntry): number {
+  return a.startTime.localeCompare(b.startTime);
+}
+
+function isOpen(entry: DateIndexEntry): boolean {
+  return entry.status !== 'completed' && entry.status !== 'cancelled';
+}
+
+function toIndexEntry(row: DateIndexEntry): DateIndexEntry {
+  return { id: row.id, user1Id: row.user1Id, user2Id: row.user2Id, startTime: row.startTime, status: row.status };
+}
+
+// Index entries never carry names, rows always do
+function isFullRow(entry: DateIndexEntry | StoredDateRecord): entry is StoredDateRecord {
+  return 'user1Name' in entry;
+}
+
+export class FileDateRepository implements DateRepository {
+  private entries: Map<string, DateIndexEntry> = new Map();
+  private byUser: Map<string, Set<string>> = new Map();
+  private byPair: Map<string, Set<string>> = new Map();
+  // Full rows of open dates, and of any date whose row is still being written
+  private openRows: Map<string, StoredDateRecord> = new Map();
+  private pendingRows: Map<string, StoredDateRecord> = new Map();
+  private migratedFromLog?: string;
+  private initPromise: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private journalLength = 0;
+
+  constructor(private dir: string, private legacyLogPath?: string) {}
+
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  private get indexPath() {
+    return path.join(this.dir, 'dates.json');
+  }
+
+  private get journalPath() {
+    return path.join(this.dir, 'dates.journal.jsonl');
+  }
+
+  // Date ids are generated server-side, but never let one escape the store
+  private rowPath(dateId: string) {
+    return path.join(this.dir, 'rows', `${path.basename(dateId)}.json`);
+  }
+
+  private messagePath(dateId: string) {
+    return path.join(this.dir, 'messages', `${path.basename(dateId)}.jsonl`);
+  }
+
+  private async load() {
+    let index: DateIndexFile | null = null;
+    try {
+      index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read date index:', error);
+        // Don't migrate over an index that exists but is unreadable
+        return;
+      }
+    }
+
+    const journal = await this.readJournal();
+    const loaded = [...(index?.dates || []), ...journal];
+    this.migratedFromLog = index?.migratedFromLog;
+    this.journalLength = journal.length;
+
+    // Rows from before the index was split out get their own files first
+    if (loaded.some(isFullRow)) {
+      await this.migrateFullRows(loaded);
+    } else {
+      loaded.forEach(entry => this.indexEntry(entry));
+    }
+
+    for (const id of this.lookup(this.openIdsFromIndex())) {
+      const row = this.readRow(id);
+      if (!row) continue;
+      // Rows are written before their index entry, so after a crash the row can be newer
+      this.indexEntry(row);
+      if (isOpen(row)) this.openRows.set(id, row);
+    }
+
+    if (!index && journal.length === 0 && this.legacyLogPath) {
+      await this.migrateLegacyLog(this.legacyLogPath);
+    }
+  }
+
+  private async readJournal(): Promise<Array<DateIndexEntry | StoredDateRecord>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.journalPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: Array<DateIndexEntry | StoredDateRecord> = [];
+    for (const line of content.split('\n').filter(Boolean)) {
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash mid-append; the rest is still valid
+        continue;
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Write a row file for every date stored as a full row in the index, then
+   * rewrite the index with entries only
+   */
+  private async migrateFullRows(loaded: Array<DateIndexEntry | StoredDateRecord>) {
+    const latest = new Map<string, DateIndexEntry | StoredDateRecord>();
+    loaded.forEach(entry => latest.set(entry.id, entry));
+
+    await fs.mkdir(path.join(this.dir, 'rows'), { recursive: true });
+    for (const entry of latest.values()) {
+      if (isFullRow(entry)) {
+        await this.writeRowFile(entry);
+      }
+      this.indexEntry(entry);
+    }
+    await this.compact();
+    console.log(`Moved ${latest.size} stored dates into row files`);
+  }
+
+  private async migrateLegacyLog(logPath: string) {
+    const legacyDates = await readLegacyDateLog(logPath);
+    if (legacyDates.length === 0) return;
+
+    await fs.mkdir(path.join(this.dir, 'rows'), { recursive: true });
+    await fs.mkdir(path.join(this.dir, 'messages'), { recursive: true });
+    for (const { record, messages } of legacyDates) {
+      await this.writeRowFile(record);
+      this.indexEntry(record);
+      if (isOpen(record)) this.openRows.set(record.id, record);
+      if (messages.length > 0) {
+        await fs.writeFile(this.messagePath(record.id), messages.map(m => `${JSON.stringify(m)}\n`).join(''));
+      }
+    }
+    this.migratedFromLog = logPath;
+    await this.compact();
+    console.log(`Migrated ${legacyDates.length} dates from ${logPath}`);
+  }
+
+  /**
+   * Add or update a date in the index. Returns whether anything changed.
+   */
+  private indexEntry(entry: DateIndexEntry): boolean {
+    const previous = this.entries.get(entry.id);
+    if (previous && previous.status === entry.status) return false;
+    this.entries.set(entry.id, toIndexEntry(entry));
+    if (previous) return true;
+
+    for (const userId of [entry.user1Id, entry.user2Id]) {
+      const ids = this.byUser.get(userId) || new Set<string>();
+      ids.add(entry.id);
+      this.byUser.set(userId, ids);
+    }
+    const pairKey = getPairKey(entry.user1Id, entry.user2Id);
+    const pairIds = this.byPair.get(pairKey) || new Set<string>();
+    pairIds.add(entry.id);
+    this.byPair.set(pairKey, pairIds);
+    return true;
+  }
+
+  private openIdsFromIndex(): Set<string> {
+    const ids = new Set<string>();
+    this.entries.forEach(entry => {
+      if (isOpen(entry)) ids.add(entry.id);
+    });
+    return ids;
+  }
+
+  private readRow(dateId: string): StoredDateRecord | null {
+    try {
+      return JSON.parse(fsSync.readFileSync(this.rowPath(dateId), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read stored date ${dateId}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private async writeRowFile(row: StoredDateRecord) {
+    const rowPath = this.rowPath(row.id);
+    const tmpPath = `${rowPath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(row), 'utf-8');
+    await fs.rename(tmpPath, rowPath);
+  }
+
+  /**
+   * Write every index entry to a new index and empty the journal. A crash
+   * before the journal is emptied only means its entries are replayed over
+   * an index that already has them.
+   */
+  private compact(): Promise<void> {
+    const index: DateIndexFile = {
+      version: INDEX_VERSION,
+      migratedFromLog: this.migratedFromLog,
+      dates: Array.from(this.entries.values())
+    };
+    const data = JSON.stringify(index);
+    this.journalLength = 0;
+    // Serialize writes so an older index never replaces a newer one
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(this.dir, { recursive: true });
+        const tmpPath = `${this.indexPath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, data, 'utf-8');
+        await fs.rename(tmpPath, this.indexPath);
+        await fs.writeFile(this.journalPath, '', 'utf-8');
+      })
+      .catch(error => console.error('Failed to write date index:', error));
+    return this.writeChain;
+  }
+
+  async saveDate(record: StoredDateRecord): Promise<void> {
+    await this.init();
+    const row = { ...record };
+    const entry = toIndexEntry(row);
+    const indexChanged = this.indexEntry(entry);
+    if (isOpen(row)) {
+      this.openRows.set(row.id, row);
+    } else {
+      this.openRows.delete(row.id);
+    }
+    this.pendingRows.set(row.id, row);
+
+    // The row goes first, so an index entry never points at a missing row
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(path.join(this.dir, 'rows'), { recursive: true });
+        await this.writeRowFile(row);
+      })
+      .catch(error => console.error('Failed to save date:', error))
+      .finally(() => {
+        if (this.pendingRows.get(row.id) === row) this.pendingRows.delete(row.id);
+      });
+
+    if (indexChanged) {
+      if (++this.journalLength >= COMPACT_AFTER_SAVES) {
+        // The index written by compaction already includes this entry
+        await this.compact();
+        return;
+      }
+      const line = `${JSON.stringify(entry)}\n`;
+      this.writeChain = this.writeChain
+        .then(() => fs.appendFile(this.journalPath, line, 'utf-8'))
+        .catch(error => console.error('Failed to index date:', error));
+    }
+    await this.writeChain;
+  }
+
+  async appendMessage(dateId: string, message: StoredDateMessage): Promise<void> {
+    await fs.mkdir(path.join(this.dir, 'messages'), { recursive: true });
+    await fs.appendFile(this.messagePath(dateId), `${JSON.stringify(message)}\n`);
+  }
+
+  getDate(dateId: string): StoredDateRecord | null {
+    if (!this.entries.has(dateId)) return null;
+    return this.openRows.get(dateId) || this.pendingRows.get(dateId) || this.readRow(dateId);
+  }
+
+  async getMessages(dateId: string): Promise<StoredDateMessage[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.messagePath(dateId), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const messages: StoredDateMessage[] = [];
+    for (const line of content.split('\n').filter(Boolean)) {
+      try {
+        messages.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash mid-append; the rest is still valid
+        continue;
+      }
+    }
+    return messages;
+  }
+
+  listOpenDates(): StoredDateRecord[] {
+    return Array.from(this.openRows.values()).sort(byStartTime);
+  }
+
+  listClosedDateIds(): string[] {
+    return Array.from(this.entries.values())
+      .filter(entry => !isOpen(entry))
+      .sort(byStartTime)
+      .map(entry => entry.id);
+  }
+
+  getDateIdsForUser(userId: string): string[] {
+    return this.lookup(this.byUser.get(userId));
+  }
+
+  getDateIdsForPair(userAId: string, userBId: string): string[] {
+    return this.lookup(this.byPair.get(getPairKey(userAId, userBId)));
+  }
+
+  private lookup(ids: Set<string> | undefined): string[] {
+    if (!ids) return [];
+    const entries: DateIndexEntry[] = [];
+    ids.forEach(id => {
+      const entry = this.entries.get(id);
+      if (entry) entries.push(entry);
+    });
+    return entries.sort(byStartTime).map(entry => entry.id);
+  }
+}
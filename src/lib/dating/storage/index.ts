@@ -0,0 +1,17 @@
+// Date session storage
+//
+// DATING_STORE_DIR overrides where the date index, rows and transcripts live
+// (default data/dating/store). On first start an existing
+// logs/dating/dates.jsonl event log is migrated into the store.
+
+import path from 'path';
+import { FileDateRepository } from './fileDateRepository';
+
+export type { DateRepository, StoredAgentState, StoredDateMessage, StoredDateRecord, StoredDateStatus } from './types';
+export { FileDateRepository } from './fileDateRepository';
+export { readLegacyDateLog } from './legacyLogMigration';
+
+export const dateRepository = new FileDateRepository(
+  process.env.DATING_STORE_DIR || path.join(process.cwd(), 'data', 'dating', 'store'),
+  path.join(process.cwd(), 'logs', 'dating', 'dates.jsonl')
+);
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import { promises as fsp } from 'fs';
+import path from 'path';
+
+/**
+ * One JSON document on disk, for the dating stores that keep their whole
+ * state in memory and save it after each change.
+ *
+ * Writes are serialized so an older snapshot never lands after a newer one,
+ * and each goes to a temp file that is renamed over the store, so a crash
+ * mid-write leaves the previous version intact. A store that can't be
+ * parsed is moved aside rather than overwritten by the next save.
+ */
+export class JsonFileStore<T> {
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string, private label: string) {}
+
+  /**
+   * The stored document, or undefined when there is none yet or it couldn't
+   * be read
+   */
+  read(): T | undefined {
+    let text: string;
+    try {
+      text = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read ${this.label}:`, error);
+      }
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      const asidePath = `${this.filePath}.corrupt-${Date.now()}`;
+      console.error(`Failed to parse ${this.label}, moving it to ${asidePath} and starting empty:`, error);
+      try {
+        fs.renameSync(this.filePath, asidePath);
+      } catch (renameError) {
+        console.error(`Failed to move aside ${this.label}:`, renameError);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Save a snapshot of value. It's serialized right away, so later changes
+   * to value don't leak into this write.
+   */
+  write(value: T): Promise<void> {
+    return this.save(value).then(() => undefined);
+  }
+
+  /**
+   * Same as write, resolving to whether the snapshot was saved
+   */
+  save(value: T): Promise<boolean> {
+    const data = JSON.stringify(value, null, 2);
+    const saved = this.writeChain
+      .then(async () => {
+        await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fsp.writeFile(tempPath, data, 'utf-8');
+        await fsp.rename(tempPath, this.filePath);
+        return true;
+      })
+      .catch(error => {
+        console.error(`Failed to persist ${this.label}:`, error);
+        return false;
+      });
+    this.writeChain = saved.then(() => undefined);
+    return saved;
+  }
+
+  /**
+   * Delete the document once any pending writes have landed
+   */
+  remove(): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(() => fsp.rm(this.filePath, { force: true }))
+      .catch(error => console.error(`Failed to remove ${this.label}:`, error));
+    return this.writeChain;
+  }
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import type { StoredDateMessage, StoredDateRecord } from './types';
+
+/**
+ * Reads the old append-only `logs/dating/dates.jsonl` event log. The latest
+ * scheduled/started/completed event wins for each date and message events
+ * are attached to their date with duplicates removed.
+ */
+
+export interface LegacyDate {
+  record: StoredDateRecord;
+  messages: StoredDateMessage[];
+}
+
+type LegacyEventType = 'scheduled' | 'started' | 'completed';
+
+export async function readLegacyDateLog(logPath: string): Promise<LegacyDate[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(logPath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const stateById = new Map<string, {
+    date: Omit<StoredDateRecord, 'updatedAt'> & { messages?: StoredDateMessage[] };
+    lastEventType: LegacyEventType;
+    lastTimestamp: number;
+    messages: StoredDateMessage[];
+  }>();
+
+  for (const line of content.split('\n').filter(Boolean)) {
+    try {
+      const entry = JSON.parse(line);
+      if (entry.eventType === 'message') {
+        const existing = stateById.get(entry.dateId);
+        if (!existing) continue;
+        existing.messages.push(entry.message);
+        continue;
+      }
+
+      const date = entry.date;
+      if (!date?.id) continue;
+      const timestamp = new Date(entry.timestamp).getTime();
+      const existing = stateById.get(date.id);
+      if (!existing || timestamp >= existing.lastTimestamp) {
+        stateById.set(date.id, {
+          date,
+          lastEventType: entry.eventType,
+          lastTimestamp: timestamp,
+          // Keep messages logged before this event; completed events carry the full transcript
+          messages: [...(existing?.messages || []), ...(date.messages || [])]
+        });
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  const migrated: LegacyDate[] = [];
+  for (const entry of stateById.values()) {
+    const seen = new Set<string>();
+    const messages = entry.messages.filter(message => {
+      const key = `${message.sender}|${message.senderName}|${message.timestamp}|${message.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    // The old loader filed dates by their last event, not their status field
+    const status = entry.lastEventType === 'completed'
+      ? 'completed'
+      : entry.lastEventType === 'started'
+        ? (entry.date.status === 'summarizing' ? 'summarizing' : 'active')
+        : 'scheduled';
+
+    const { date } = entry;
+    migrated.push({
+      record: {
+        id: date.id,
+        user1Id: date.user1Id,
+        user2Id: date.user2Id,
+        user1Name: date.user1Name,
+        user2Name: date.user2Name,
+        startTime: date.startTime,
+        endTime: date.endTime,
+        status,
+        summary: date.summary,
+        sentiment: date.sentiment,
+        compatibilityRating: date.compatibilityRating,
+        confidence: date.confidence,
+        evaluation: date.evaluation,
+        matchmakingStrategy: date.matchmakingStrategy,
+        updatedAt: new Date(entry.lastTimestamp).toISOString()
+      },
+      messages
+    });
+  }
+
+  return migrated;
+}
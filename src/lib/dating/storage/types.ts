@@ -0,0 +1,73 @@
+import type { DateEvaluation } from '../dateEvaluation';
+import type { DirectorIntervention } from '../conversationDirector';
+import type { AgentFailure } from '../datingAgent';
+import type { AgentAssignment } from '../experiments';
+import type { RelationshipStage, StageTransition } from '../relationshipProgression';
+import type { DateVenue } from '../venues';
+import type { WorldContext } from '../worldContext';
+
+export type StoredDateStatus = 'scheduled' | 'active' | 'summarizing' | 'completed' | 'cancelled';
+
+export interface StoredDateMessage {
+  sender: string;
+  senderName: string;
+  message: string;
+  timestamp: string; // ISO date string
+}
+
+/**
+ * What's needed to rebuild a date agent after a restart
+ */
+export interface StoredAgentState {
+  userId: string;
+  systemPrompt: string;
+  model?: string;
+}
+
+/**
+ * One date session row. Transcripts are stored separately so listing and
+ * indexing dates never has to read messages.
+ */
+export interface StoredDateRecord {
+  id: string;
+  user1Id: string;
+  user2Id: string;
+  user1Name: string;
+  user2Name: string;
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+  status: StoredDateStatus;
+  summary?: string;
+  sentiment?: string;
+  compatibilityRating?: number;
+  confidence?: number;
+  evaluation?: DateEvaluation;
+  matchmakingStrategy?: string;
+  directorInterventions?: DirectorIntervention[];
+  relationshipStage?: RelationshipStage;
+  stageTransition?: StageTransition;
+  venue?: DateVenue;
+  worldContext?: WorldContext;
+  agents?: StoredAgentState[];
+  agentAssignments?: AgentAssignment[];
+  agentFailures?: AgentFailure[];
+  updatedAt: string; // ISO date string
+}
+
+export interface DateRepository {
+  /**
+   * Load the date index and migrate any legacy log. Must resolve before the
+   * other methods are used.
+   */
+  init(): Promise<void>;
+  saveDate(record: StoredDateRecord): Promise<void>;
+  appendMessage(dateId: string, message: StoredDateMessage): Promise<void>;
+  getDate(dateId: string): StoredDateRecord | null;
+  getMessages(dateId: string): Promise<StoredDateMessage[]>;
+  /** Dates that are scheduled, active or summarizing */
+  listOpenDates(): StoredDateRecord[];
+  /** Ids of dates that are completed or cancelled, oldest first */
+  listClosedDateIds(): string[];
+  getDateIdsForUser(userId: string): string[];
+  getDateIdsForPair(userAId: string, userBId: string): string[];
+}
@@ -1,46 +1,283 @@
 import type { UserProfile } from '@/lib/userDatabase';
+import { agentMemoryStore, buildMemoryPromptBlock, type AgentPersonality } from './agentMemory';
+import { getInterestedIn } from './pairingConstraints';
+import { buildStagePromptBlock } from './relationshipProgression';
+import { estimateTokens } from './usageMeter';
+import type { DateVenue } from './venues';
+import { describeWorldContext, type WorldContext } from './worldContext';
 
-export function generateSystemPrompt(user: UserProfile): string {
-  const basePrompt = `You are ${user.name}, a ${user.age}-year-old ${user.gender} on a date.
-
-YOUR CHARACTER:
-- Name: ${user.name}
-- Age: ${user.age}
-- Gender: ${user.gender}
-- Interests: ${user.preferences}
-
-YOUR DATING STYLE:
-- Be authentic and conversational
-- Show genuine interest in your date
-- Ask thoughtful questions about their interests
-- Share relevant stories from your perspective
-- Be playful and engaging
-- Look for compatibility signals
-
-YOUR GOAL:
-- Have a natural, flowing conversation
-- Discover if you're compatible with your date
-- Be yourself - don't force connection if it's not there
-- Wrap up naturally when the conversation feels complete
-
-CRITICAL CONVERSATION RULES:
-- Respond in 1-2 sentences maximum
-- You ARE ${user.name} - never refer to yourself in third person
-- NEVER write your name before speaking (don't write "${user.name}:")
-- NEVER write stage directions, actions, or narration (no *smiles*, no descriptions)
-- Only write the actual words you speak
-- Don't be overly eager or artificial
-- React authentically to what your date says
-- You can disagree or have different opinions
-- End responses naturally without always asking questions
-
-EXAMPLE OF CORRECT RESPONSE:
-"Hey, it's great to meet you! I love this park. What brings you here today?"
-
-EXAMPLE OF INCORRECT RESPONSE:
-"${user.name}: Hey, it's great to meet you! *smiles warmly* I love this park."`;
-
-  return basePrompt;
+/**
+ * Date agents' system prompts are built from sections, each drawn from
+ * whatever is known about the user: their profile, the deep character
+ * profile from photo analysis, the personality and history in their agent
+ * memory, and where the date takes place. Sections are ranked, and when the
+ * prompt would run over its token budget the lowest-ranked ones are trimmed
+ * line by line, then dropped. Identity and the conversation rules are always
+ * kept whole.
+ */
+
+/**
+ * Where and when a date takes place
+ */
+export interface DateSetting {
+  venue?: DateVenue;
+  world?: WorldContext;
+}
+
+export type PromptSectionId = 'identity' | 'personality' | 'speakingStyle' | 'datingGoals' | 'memory' | 'setting' | 'rules';
+
+export interface PromptSection {
+  id: PromptSectionId;
+  // Lines after the first are trimmed from the end when over budget
+  lines: string[];
+  // Higher ranks keep their space when the budget is tight
+  rank: number;
+  // Kept whole whatever the budget
+  required?: boolean;
+}
+
+export interface PromptSectionReport {
+  id: PromptSectionId;
+  tokens: number;
+  included: boolean;
+  // Lines cut to fit the budget
+  trimmedLines: number;
+}
+
+export interface SystemPromptBuild {
+  prompt: string;
+  tokens: number;
+  budget: number;
+  sections: PromptSectionReport[];
+}
+
+export interface SystemPromptOptions {
+  tokenBudget?: number;
+}
+
+// Order sections appear in the prompt, regardless of rank
+const SECTION_ORDER: PromptSectionId[] = ['identity', 'personality', 'speakingStyle', 'datingGoals', 'memory', 'setting', 'rules'];
+
+const DEFAULT_TOKEN_BUDGET = 1200;
+
+// Photo readings below this confidence are too vague to describe someone by
+const MIN_VISUAL_CONFIDENCE = 0.5;
+
+export function getPromptTokenBudget(): number {
+  return Number(process.env.SYSTEM_PROMPT_TOKEN_BUDGET) || DEFAULT_TOKEN_BUDGET;
+}
+
+function describeGender(user: UserProfile): string {
+  return user.gender === 'male' || user.gender === 'female' ? user.gender : `${user.gender} person`;
+}
+
+/**
+ * Case-insensitive de-duplication that keeps the first spelling seen
+ */
+function uniqueValues(values: Array<string | undefined>): string[] {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    unique.push(trimmed);
+  }
+  return unique;
+}
+
+function buildIdentitySection(user: UserProfile, personality: AgentPersonality): PromptSection {
+  const photo = user.photoAnalysis;
+  const visual = photo?.visualAnalysis;
+  const interests = uniqueValues([
+    ...personality.interests,
+    ...(photo?.iosSummary?.interests || []),
+    ...(visual && visual.confidence >= MIN_VISUAL_CONFIDENCE ? visual.detectedInterests : [])
+  ]);
+
+  const lines = [
+    `You are ${user.name}, a ${user.age}-year-old ${describeGender(user)} on a date.`,
+    '',
+    'YOUR CHARACTER:',
+    `- Name: ${user.name}`,
+    `- Age: ${user.age}`,
+    `- Gender: ${user.gender}`
+  ];
+  if (user.preferences) lines.push(`- Interests: ${user.preferences}`);
+  if (interests.length > 0) lines.push(`- Also into: ${interests.join(', ')}`);
+  if (photo?.iosSummary?.characteristics) lines.push(`- ${photo.iosSummary.characteristics}`);
+  return { id: 'identity', lines, rank: 100, required: true };
+}
+
+function buildPersonalitySection(user: UserProfile, personality: AgentPersonality): PromptSection {
+  const photo = user.photoAnalysis;
+  const visual = photo?.visualAnalysis;
+  const traits = uniqueValues([...personality.traits, ...(photo?.combinedTraits || []), ...(photo?.iosSummary?.traits || [])]);
+
+  const lines = ['YOUR PERSONALITY:'];
+  if (traits.length > 0) lines.push(`- You are ${traits.join(', ')}`);
+  if (photo?.personalityDepth) lines.push(`- ${photo.personalityDepth}`);
+  if (photo?.iosSummary?.personality) lines.push(`- ${photo.iosSummary.personality}`);
+  if (visual && visual.confidence >= MIN_VISUAL_CONFIDENCE) {
+    if (visual.lifestyleIndicators.length > 0) lines.push(`- Your lifestyle: ${visual.lifestyleIndicators.join(', ')}`);
+    if (visual.visualStyle) lines.push(`- Your style: ${visual.visualStyle}`);
+  }
+  return { id: 'personality', lines: lines.length > 1 ? lines : [], rank: 60 };
+}
+
+function buildSpeakingStyleSection(personality: AgentPersonality): PromptSection {
+  const lines = ['YOUR DATING STYLE:'];
+  if (personality.speakingStyle) lines.push(`- You speak in a ${personality.speakingStyle} way`);
+  if (personality.quirks.length > 0) lines.push(`- Quirks: ${personality.quirks.join('; ')}`);
+  if (personality.catchphrases.length > 0) {
+    lines.push(`- Phrases you use now and then (sparingly): ${personality.catchphrases.map(phrase => `"${phrase}"`).join(', ')}`);
+  }
+  lines.push(
+    '- Be authentic and conversational',
+    '- Show genuine interest in your date',
+    '- Ask thoughtful questions about their interests',
+    '- Share relevant stories from your perspective',
+    '- Be playful and engaging',
+    '- Look for compatibility signals'
+  );
+  return { id: 'speakingStyle', lines, rank: 50 };
+}
+
+function buildDatingGoalsSection(user: UserProfile): PromptSection {
+  const lines = [
+    'YOUR GOAL:',
+    '- Have a natural, flowing conversation',
+    '- Discover if you\'re compatible with your date',
+    '- Be yourself - don\'t force connection if it\'s not there',
+    '- Wrap up naturally when the conversation feels complete',
+    `- Interested in: ${getInterestedIn(user).join(', ')} partners`
+  ];
+  if (user.ageRange) {
+    lines.push(`- Preferred partner age: ${user.ageRange.min}-${user.ageRange.max}`);
+  }
+  if (user.dealbreakers && user.dealbreakers.length > 0) {
+    lines.push(`- Dealbreakers: ${user.dealbreakers.join(', ')}`);
+  }
+  const signals = user.photoAnalysis?.compatibilitySignals || [];
+  if (signals.length > 0) {
+    lines.push(`- You'd click with someone who shares: ${signals.join(', ')}`);
+  }
+  return { id: 'datingGoals', lines, rank: 70 };
+}
+
+function buildSettingSection(user: UserProfile, partner: UserProfile | undefined, setting: DateSetting): PromptSection {
+  const blocks = [
+    partner ? buildStagePromptBlock(user, partner, setting.venue) : '',
+    setting.world ? describeWorldContext(setting.world, setting.venue?.name) : ''
+  ].filter(Boolean);
+  return { id: 'setting', lines: blocks.length > 0 ? blocks.join('\n\n').split('\n') : [], rank: 40 };
+}
+
+function buildRulesSection(user: UserProfile): PromptSection {
+  const lines = [
+    'CRITICAL CONVERSATION RULES:',
+    '- Respond in 1-2 sentences maximum',
+    `- You ARE ${user.name} - never refer to yourself in third person`,
+    `- NEVER write your name before speaking (don't write "${user.name}:")`,
+    '- NEVER write stage directions, actions, or narration (no *smiles*, no descriptions)',
+    '- Only write the actual words you speak',
+    '- Don\'t be overly eager or artificial',
+    '- React authentically to what your date says',
+    '- You can disagree or have different opinions',
+    '- End responses naturally without always asking questions',
+    '',
+    'EXAMPLE OF CORRECT RESPONSE:',
+    '"Hey, it\'s great to meet you! I love this park. What brings you here today?"',
+    '',
+    'EXAMPLE OF INCORRECT RESPONSE:',
+    `"${user.name}: Hey, it's great to meet you! *smiles warmly* I love this park."`
+  ];
+  return { id: 'rules', lines, rank: 100, required: true };
+}
+
+/**
+ * Every section of a user's prompt before budgeting. Sections with nothing
+ * to say have no lines.
+ */
+export function buildPromptSections(user: UserProfile, partner?: UserProfile, setting: DateSetting = {}): PromptSection[] {
+  const memory = agentMemoryStore.getMemory(user.id, user.name);
+  const memoryBlock = buildMemoryPromptBlock(memory, partner?.id);
+
+  return [
+    buildIdentitySection(user, memory.personality),
+    buildPersonalitySection(user, memory.personality),
+    buildSpeakingStyleSection(memory.personality),
+    buildDatingGoalsSection(user),
+    { id: 'memory', lines: memoryBlock ? memoryBlock.split('\n') : [], rank: 30 },
+    buildSettingSection(user, partner, setting),
+    buildRulesSection(user)
+  ];
+}
+
+/**
+ * Join sections into a prompt within tokenBudget. Required sections always
+ * go in; the rest are fitted in rank order, cut down to whole lines when
+ * only part of one fits and left out when not even its heading does.
+ */
+export function composeSystemPrompt(sections: PromptSection[], tokenBudget: number = getPromptTokenBudget()): SystemPromptBuild {
+  const present = sections.filter(section => section.lines.length > 0);
+  // Blank line between sections
+  const separatorTokens = estimateTokens('\n\n');
+  const kept = new Map<PromptSectionId, string[]>();
+  let used = 0;
+
+  for (const section of present.filter(section => section.required)) {
+    kept.set(section.id, section.lines);
+    used += estimateTokens(section.lines.join('\n')) + separatorTokens;
+  }
+
+  const optional = present.filter(section => !section.required).sort((a, b) => b.rank - a.rank);
+  for (const section of optional) {
+    const lines = [...section.lines];
+    while (lines.length > 1 && used + estimateTokens(lines.join('\n')) + separatorTokens > tokenBudget) {
+      lines.pop();
+    }
+    // A heading with nothing under it isn't worth including
+    if (lines.length < Math.min(2, section.lines.length)) continue;
+    const tokens = estimateTokens(lines.join('\n')) + separatorTokens;
+    if (used + tokens > tokenBudget) continue;
+    kept.set(section.id, lines);
+    used += tokens;
+  }
+
+  const ordered = SECTION_ORDER.filter(id => kept.has(id));
+  const prompt = ordered.map(id => kept.get(id)!.join('\n')).join('\n\n');
+  return {
+    prompt,
+    tokens: estimateTokens(prompt),
+    budget: tokenBudget,
+    sections: present.map(section => {
+      const lines = kept.get(section.id);
+      return {
+        id: section.id,
+        tokens: lines ? estimateTokens(lines.join('\n')) : 0,
+        included: !!lines,
+        trimmedLines: section.lines.length - (lines?.length || 0)
+      };
+    })
+  };
+}
+
+/**
+ * Build a user's system prompt along with how each section fared against
+ * the token budget
+ */
+export function buildSystemPrompt(
+  user: UserProfile,
+  partner?: UserProfile,
+  setting: DateSetting = {},
+  options: SystemPromptOptions = {}
+): SystemPromptBuild {
+  return composeSystemPrompt(buildPromptSections(user, partner, setting), options.tokenBudget);
+}
+
+export function generateSystemPrompt(user: UserProfile, partner?: UserProfile, setting: DateSetting = {}): string {
+  return buildSystemPrompt(user, partner, setting).prompt;
 }
 
 export function getSystemPrompts(users: UserProfile[]): Map<string, string> {
@@ -50,4 +287,3 @@ export function getSystemPrompts(users: UserProfile[]): Map<string, string> {
   });
   return prompts;
 }
-
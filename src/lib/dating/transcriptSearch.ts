@@ -0,0 +1,352 @@
+import { isDateClosed, type DateSession } from './orchestrator';
+import type { RelationshipStage } from './relationshipProgression';
+import type { DateVenue } from './venues';
+
+/**
+ * Search and analytics over every date's transcript. Completed transcripts
+ * are read from storage one at a time as a query walks through them and are
+ * not kept afterwards; open dates are read live from their sessions.
+ */
+
+type TranscriptMessage = DateSession['messages'][number];
+
+export interface DateQuery {
+  // Every word must appear somewhere in the transcript
+  text?: string;
+  userId?: string;
+  // Dates involving this user; with userId, only dates between the two
+  partnerId?: string;
+  status?: DateSession['status'];
+  sentiment?: string;
+  minConfidence?: number; // 0-1
+  maxConfidence?: number; // 0-1
+  // Window on the date's start time
+  from?: Date;
+  to?: Date;
+  offset?: number;
+  limit?: number;
+}
+
+export interface MessageMatch {
+  messageIndex: number;
+  sender: string;
+  senderName: string;
+  snippet: string;
+}
+
+/**
+ * A date without its transcript, plus the messages that matched the search
+ */
+export interface DateListing {
+  id: string;
+  user1Id: string;
+  user2Id: string;
+  user1Name: string;
+  user2Name: string;
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+  status: DateSession['status'];
+  summary?: string;
+  sentiment?: string;
+  compatibilityRating?: number;
+  confidence?: number;
+  relationshipStage?: RelationshipStage;
+  venue?: DateVenue;
+  messageCount: number;
+  durationMs: number;
+  matches: MessageMatch[];
+}
+
+export interface DateSearchResult {
+  total: number;
+  offset: number;
+  limit: number;
+  dates: DateListing[];
+}
+
+export interface TopicCount {
+  term: string;
+  count: number;
+}
+
+export interface DateAnalytics {
+  totalDates: number;
+  completedDates: number;
+  averageDurationMs: number | null;
+  averageMessagesPerDate: number | null;
+  averageConfidence: number | null;
+  // Lowercased sentiment of completed dates; 'unknown' when none was recorded
+  sentimentDistribution: Record<string, number>;
+  topicsByUser: Record<string, { userName: string; topics: TopicCount[] }>;
+}
+
+interface TranscriptSource {
+  getDates(): DateSession[];
+  withTranscript(dateSession: DateSession): Promise<DateSession>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_MATCHES_PER_DATE = 5;
+const SNIPPET_RADIUS = 60;
+const TOPICS_PER_USER = 8;
+
+// Common words that say nothing about what a date was about
+const STOPWORDS = new Set([
+  'about', 'actually', 'after', 'again', 'also', 'always', 'another', 'anything', 'around', 'because',
+  'been', 'before', 'being', 'better', 'both', 'cause', 'could', 'didn', 'does', 'doesn', 'doing', 'done',
+  'each', 'even', 'ever', 'every', 'feel', 'from', 'getting', 'going', 'gonna', 'good', 'great', 'guess',
+  'have', 'having', 'here', 'honestly', 'into', 'just', 'kind', 'know', 'like', 'little', 'looks', 'made',
+  'make', 'maybe', 'mean', 'might', 'more', 'most', 'much', 'must', 'never', 'nice', 'only', 'other',
+  'over', 'pretty', 'really', 'right', 'said', 'same', 'should', 'something', 'sometimes', 'sort', 'sounds',
+  'still', 'such', 'sure', 'take', 'tell', 'than', 'thank', 'thanks', 'that', 'thats', 'their', 'them',
+  'then', 'there', 'these', 'they', 'thing', 'things', 'think', 'this', 'those', 'though', 'through', 'time',
+  'totally', 'very', 'want', 'wanna', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'with',
+  'would', 'yeah', 'your', 'youre', 'yours'
+]);
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/['’]/g, '').split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function makeSnippet(message: string, term: string): string {
+  const index = message.toLowerCase().indexOf(term);
+  if (index < 0 || message.length <= SNIPPET_RADIUS * 2) return message;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(message.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${message.slice(start, end)}${end < message.length ? '…' : ''}`;
+}
+
+function involves(dateSession: DateSession, userId: string): boolean {
+  return dateSession.user1Id === userId || dateSession.user2Id === userId;
+}
+
+interface TranscriptMatch {
+  date: DateSession;
+  messages: TranscriptMessage[];
+  matches: MessageMatch[];
+}
+
+export class DateTranscriptSearch {
+  constructor(private source: TranscriptSource) {}
+
+  private async getMessages(dateSession: DateSession): Promise<TranscriptMessage[]> {
+    if (!isDateClosed(dateSession)) return dateSession.messages;
+    return (await this.source.withTranscript(dateSession)).messages;
+  }
+
+  /**
+   * Dates matching everything in the query except the text, newest first
+   */
+  private filterDates(query: DateQuery): DateSession[] {
+    const sentiment = query.sentiment?.toLowerCase();
+    return this.source.getDates()
+      .filter(date => {
+        if (query.userId && !involves(date, query.userId)) return false;
+        if (query.partnerId && !involves(date, query.partnerId)) return false;
+        if (query.status && date.status !== query.status) return false;
+        if (sentiment && date.sentiment?.toLowerCase() !== sentiment) return false;
+        if (query.minConfidence !== undefined && (date.confidence === undefined || date.confidence < query.minConfidence)) return false;
+        if (query.maxConfidence !== undefined && (date.confidence === undefined || date.confidence > query.maxConfidence)) return false;
+        if (query.from && date.startTime < query.from) return false;
+        if (query.to && date.startTime > query.to) return false;
+        return true;
+      })
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  }
+
+  /**
+   * Dates and their transcripts that match the whole query, including text.
+   * Each transcript is read when its date comes up, so callers should keep
+   * only what they need from it.
+   */
+  private async *findMatches(query: DateQuery): AsyncGenerator<TranscriptMatch> {
+    const terms = Array.from(new Set(tokenize(query.text || '')));
+
+    for (const date of this.filterDates(query)) {
+      const messages = await this.getMessages(date);
+      if (terms.length === 0) {
+        yield { date, messages, matches: [] };
+        continue;
+      }
+
+      const seen = new Set<string>();
+      const matches: MessageMatch[] = [];
+      messages.forEach((message, messageIndex) => {
+        const words = new Set(tokenize(message.message));
+        const hits = terms.filter(term => words.has(term));
+        if (hits.length === 0) return;
+        hits.forEach(term => seen.add(term));
+        if (matches.length < MAX_MATCHES_PER_DATE) {
+          matches.push({
+            messageIndex,
+            sender: message.sender,
+            senderName: message.senderName,
+            snippet: makeSnippet(message.message, hits[0])
+          });
+        }
+      });
+      if (seen.size === terms.length) {
+        yield { date, messages, matches };
+      }
+    }
+  }
+
+  async search(query: DateQuery): Promise<DateSearchResult> {
+    const offset = Math.max(0, query.offset || 0);
+    const limit = Math.min(Math.max(1, query.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+    let total = 0;
+    const page: Array<{ date: DateSession; messageCount: number; matches: MessageMatch[] }> = [];
+    if (tokenize(query.text || '').length > 0) {
+      for await (const { date, messages, matches } of this.findMatches(query)) {
+        if (total >= offset && total < offset + limit) {
+          page.push({ date, messageCount: messages.length, matches });
+        }
+        total++;
+      }
+    } else {
+      // Without text only the requested page's transcripts need reading
+      const dates = this.filterDates(query);
+      total = dates.length;
+      for (const date of dates.slice(offset, offset + limit)) {
+        page.push({ date, messageCount: (await this.getMessages(date)).length, matches: [] });
+      }
+    }
+
+    return {
+      total,
+      offset,
+      limit,
+      dates: page.map(({ date, messageCount, matches }) => ({
+        id: date.id,
+        user1Id: date.user1Id,
+        user2Id: date.user2Id,
+        user1Name: date.user1Name,
+        user2Name: date.user2Name,
+        startTime: date.startTime.toISOString(),
+        endTime: date.endTime.toISOString(),
+        status: date.status,
+        summary: date.summary,
+        sentiment: date.sentiment,
+        compatibilityRating: date.compatibilityRating,
+        confidence: date.confidence,
+        relationshipStage: date.relationshipStage,
+        venue: date.venue,
+        messageCount,
+        durationMs: Math.max(0, date.endTime.getTime() - date.startTime.getTime()),
+        matches
+      }))
+    };
+  }
+
+  /**
+   * Aggregates over every date matching the query. Pagination is ignored.
+   */
+  async analyze(query: DateQuery): Promise<DateAnalytics> {
+    const average = (values: number[]) => values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : null;
+
+    let totalDates = 0;
+    const durations: number[] = [];
+    const messageCounts: number[] = [];
+    const confidences: number[] = [];
+    const sentimentDistribution: Record<string, number> = {};
+    const termCounts = new Map<string, { userName: string; counts: Map<string, number> }>();
+    for await (const { date, messages } of this.findMatches(query)) {
+      totalDates++;
+      if (date.status === 'completed') {
+        durations.push(Math.max(0, date.endTime.getTime() - date.startTime.getTime()));
+        messageCounts.push(messages.length);
+        if (date.confidence !== undefined) confidences.push(date.confidence);
+        const sentiment = date.sentiment?.toLowerCase() || 'unknown';
+        sentimentDistribution[sentiment] = (sentimentDistribution[sentiment] || 0) + 1;
+      }
+
+      for (const message of messages) {
+        if (query.userId && message.sender !== query.userId) continue;
+        const entry = termCounts.get(message.sender) || { userName: message.senderName, counts: new Map<string, number>() };
+        for (const word of tokenize(message.message)) {
+          if (word.length < 4 || STOPWORDS.has(word) || /^\d+$/.test(word)) continue;
+          entry.counts.set(word, (entry.counts.get(word) || 0) + 1);
+        }
+        termCounts.set(message.sender, entry);
+      }
+    }
+
+    const topicsByUser: DateAnalytics['topicsByUser'] = {};
+    termCounts.forEach(({ userName, counts }, userId) => {
+      topicsByUser[userId] = {
+        userName,
+        topics: Array.from(counts.entries())
+          .filter(([, count]) => count > 1)
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, TOPICS_PER_USER)
+          .map(([term, count]) => ({ term, count }))
+      };
+    });
+
+    return {
+      totalDates,
+      completedDates: messageCounts.length,
+      averageDurationMs: average(durations),
+      averageMessagesPerDate: average(messageCounts),
+      averageConfidence: average(confidences),
+      sentimentDistribution,
+      topicsByUser
+    };
+  }
+}
+
+/**
+ * Read a DateQuery from URL search params
+ */
+export function parseDateQuery(params: URLSearchParams): { query: DateQuery } | { error: string } {
+  const query: DateQuery = {
+    text: params.get('q') || undefined,
+    userId: params.get('userId') || undefined,
+    partnerId: params.get('partnerId') || undefined,
+    sentiment: params.get('sentiment') || undefined
+  };
+
+  const status = params.get('status');
+  if (status) {
+    if (!['scheduled', 'active', 'summarizing', 'completed', 'cancelled'].includes(status)) {
+      return { error: 'status must be scheduled, active, summarizing, completed or cancelled' };
+    }
+    query.status = status as DateSession['status'];
+  }
+
+  for (const key of ['minConfidence', 'maxConfidence'] as const) {
+    const value = params.get(key);
+    if (value === null) continue;
+    const confidence = Number(value);
+    if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+      return { error: `${key} must be between 0 and 1` };
+    }
+    query[key] = confidence;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (value === null) continue;
+    const time = new Date(value);
+    if (Number.isNaN(time.getTime())) {
+      return { error: `${key} must be a date` };
+    }
+    query[key] = time;
+  }
+
+  for (const key of ['offset', 'limit'] as const) {
+    const value = params.get(key);
+    if (value === null) continue;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+      return { error: `${key} must be a non-negative integer` };
+    }
+    query[key] = count;
+  }
+
+  return { query };
+}
@@ -0,0 +1,383 @@
+import fs from 'fs';
+import { promises as fsp } from 'fs';
+import path from 'path';
+import type { ChatMessage, LLMCallContext, LLMPurpose } from './llm/types';
+import { simulationConfig } from './simulationConfig';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * Token, cost and latency accounting for every model call the dating stack
+ * makes. Calls are rolled up per day, model, user and date, and the running
+ * spend for the current UTC day is checked against the configured daily
+ * budget before new dates are scheduled.
+ *
+ *   data/dating/usage.json         rollups as of the last flush
+ *   data/dating/usage.calls.jsonl  calls recorded since, one line per call
+ *
+ * Recording a call only appends it to the log. The rollups are written a
+ * few seconds after the last call, or sooner once the log gets long, and
+ * the log is then emptied. Loading replays the log over the rollups,
+ * skipping calls the rollups already include.
+ */
+
+export type UsagePurpose = LLMPurpose | 'vision';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: string; // ISO date string
+  provider: string;
+  model: string;
+  purpose: UsagePurpose;
+  dateId?: string;
+  userId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  // The provider didn't report token counts, so they were guessed from text length
+  estimated: boolean;
+  costUsd: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export type UsageCall = Omit<UsageRecord, 'id' | 'timestamp' | 'costUsd'>;
+
+export interface UsageTotals {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  totalLatencyMs: number;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  key: string;
+  avgLatencyMs: number;
+}
+
+export interface UsageBudgetStatus {
+  day: string; // YYYY-MM-DD, UTC
+  dailyBudgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface UsageStats {
+  totals: UsageBreakdown;
+  budget: UsageBudgetStatus;
+  byDay: UsageBreakdown[];
+  byModel: UsageBreakdown[];
+  byUser: UsageBreakdown[];
+  byDate: UsageBreakdown[];
+  recentCalls: UsageRecord[];
+}
+
+interface StoredUsage {
+  totals: UsageTotals;
+  byDay: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byUser: Record<string, UsageTotals>;
+  byDate: Record<string, UsageTotals>;
+  recentCalls: UsageRecord[];
+  // Last logged call included in the rollups
+  lastCallId?: string;
+}
+
+// USD per million prompt / completion tokens
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'anthropic/claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'anthropic/claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+};
+
+const MAX_RECENT_CALLS = 200;
+const MAX_DAYS = 31;
+const MAX_DATES = 1000;
+
+// Quiet time after a call before the rollups are written
+const FLUSH_DELAY_MS = 5000;
+// Logged calls that force a flush even while calls keep coming
+const FLUSH_AFTER_CALLS = 200;
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  errors: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+  totalLatencyMs: 0
+});
+
+/**
+ * Extra or overridden prices from DATING_LLM_PRICING, e.g.
+ * "openai/gpt-4o-mini=0.15:0.6,my/model=1:2" (USD per million tokens)
+ */
+function parsePricingOverrides(): Record<string, ModelPrice> {
+  const overrides: Record<string, ModelPrice> = {};
+  for (const entry of (process.env.DATING_LLM_PRICING || '').split(',')) {
+    const [model, prices] = entry.split('=').map(part => part?.trim());
+    const [input, output] = (prices || '').split(':').map(Number);
+    if (model && Number.isFinite(input) && Number.isFinite(output)) {
+      overrides[model] = { input, output };
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Rough token count for providers that don't report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+}
+
+function toBreakdown(key: string, totals: UsageTotals): UsageBreakdown {
+  return {
+    key,
+    ...totals,
+    costUsd: Number(totals.costUsd.toFixed(6)),
+    avgLatencyMs: totals.calls > 0 ? Math.round(totals.totalLatencyMs / totals.calls) : 0
+  };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord) {
+  totals.calls++;
+  if (record.error) totals.errors++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.costUsd += record.costUsd;
+  totals.totalLatencyMs += record.latencyMs;
+}
+
+function keepNewest(group: Record<string, UsageTotals>, limit: number): Record<string, UsageTotals> {
+  const entries = Object.entries(group);
+  return entries.length > limit ? Object.fromEntries(entries.slice(-limit)) : group;
+}
+
+/**
+ * Roll one call into every group it belongs to
+ */
+function applyRecord(usage: StoredUsage, record: UsageRecord) {
+  const bucket = (group: Record<string, UsageTotals>, key: string) => {
+    group[key] = group[key] || emptyTotals();
+    addTo(group[key], record);
+  };
+  addTo(usage.totals, record);
+  bucket(usage.byDay, record.timestamp.slice(0, 10));
+  bucket(usage.byModel, record.model);
+  if (record.userId) bucket(usage.byUser, record.userId);
+  if (record.dateId) bucket(usage.byDate, record.dateId);
+  usage.recentCalls = [...usage.recentCalls, record].slice(-MAX_RECENT_CALLS);
+  usage.byDay = keepNewest(usage.byDay, MAX_DAYS);
+  usage.byDate = keepNewest(usage.byDate, MAX_DATES);
+  usage.lastCallId = record.id;
+}
+
+class UsageMeter {
+  private store = new JsonFileStore<StoredUsage>(path.join(process.cwd(), 'data', 'dating', 'usage.json'), 'LLM usage');
+  private logPath = path.join(process.cwd(), 'data', 'dating', 'usage.calls.jsonl');
+  private usage: StoredUsage | null = null;
+  private pricing: Record<string, ModelPrice> = { ...MODEL_PRICING, ...parsePricingOverrides() };
+  private nextId = 0;
+  private budgetWarnedDay: string | null = null;
+  // Log appends and flushes, in order
+  private writeChain: Promise<void> = Promise.resolve();
+  private loggedCalls = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private load(): StoredUsage {
+    if (this.usage) return this.usage;
+    const empty: StoredUsage = { totals: emptyTotals(), byDay: {}, byModel: {}, byUser: {}, byDate: {}, recentCalls: [] };
+    this.usage = { ...empty, ...this.store.read() };
+
+    const logged = this.readLog();
+    // A crash between writing the rollups and emptying the log leaves calls
+    // in the log that are already counted
+    const counted = logged.findIndex(record => record.id === this.usage!.lastCallId);
+    logged.slice(counted + 1).forEach(record => applyRecord(this.usage!, record));
+    this.loggedCalls = logged.length;
+    return this.usage;
+  }
+
+  private readLog(): UsageRecord[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.logPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n').filter(Boolean)) {
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash mid-append; the rest is still valid
+        continue;
+      }
+    }
+    return records;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  getCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.pricing[model];
+    if (!price) return 0;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  record(call: UsageCall): UsageRecord {
+    const record: UsageRecord = {
+      ...call,
+      id: `${Date.now().toString(36)}-${(this.nextId++).toString(36)}`,
+      timestamp: new Date().toISOString(),
+      costUsd: this.getCost(call.model, call.promptTokens, call.completionTokens)
+    };
+
+    applyRecord(this.load(), record);
+    this.logCall(record);
+    this.warnIfOverBudget();
+    return record;
+  }
+
+  /**
+   * Time a call that isn't made through an LLM provider (e.g. photo
+   * analysis) and record it, whether it succeeds or throws
+   */
+  async measure<T>(call: Omit<UsageCall, 'latencyMs' | 'error'>, run: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await run();
+      this.record({ ...call, latencyMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      this.record({ ...call, latencyMs: Date.now() - startedAt, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  getBudgetStatus(): UsageBudgetStatus {
+    const day = this.today();
+    const spentUsd = this.load().byDay[day]?.costUsd || 0;
+    const dailyBudgetUsd = simulationConfig.get().dailyBudgetUsd;
+    return {
+      day,
+      dailyBudgetUsd,
+      spentUsd: Number(spentUsd.toFixed(6)),
+      remainingUsd: dailyBudgetUsd === null ? null : Number(Math.max(0, dailyBudgetUsd - spentUsd).toFixed(6)),
+      exceeded: dailyBudgetUsd !== null && spentUsd >= dailyBudgetUsd
+    };
+  }
+
+  isOverDailyBudget(): boolean {
+    return this.getBudgetStatus().exceeded;
+  }
+
+  /**
+   * Aggregated usage across the stack. The per-day view covers the last
+   * month and recent calls are the last few hundred.
+   */
+  getStats(): UsageStats {
+    const usage = this.load();
+    const breakdown = (group: Record<string, UsageTotals>) => Object.entries(group)
+      .map(([key, totals]) => toBreakdown(key, totals))
+      .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+
+    return {
+      totals: toBreakdown('all', usage.totals),
+      budget: this.getBudgetStatus(),
+      byDay: breakdown(usage.byDay).sort((a, b) => b.key.localeCompare(a.key)),
+      byModel: breakdown(usage.byModel),
+      byUser: breakdown(usage.byUser),
+      byDate: breakdown(usage.byDate),
+      recentCalls: [...usage.recentCalls].reverse()
+    };
+  }
+
+  /**
+   * Usage for one date or one user's agent, with their recent calls
+   */
+  getUsageFor(filter: LLMCallContext): { totals: UsageBreakdown; recentCalls: UsageRecord[] } {
+    const usage = this.load();
+    const key = filter.dateId || filter.userId || 'all';
+    const totals = filter.dateId
+      ? usage.byDate[filter.dateId]
+      : filter.userId ? usage.byUser[filter.userId] : usage.totals;
+
+    return {
+      totals: toBreakdown(key, totals || emptyTotals()),
+      recentCalls: usage.recentCalls
+        .filter(record =>
+          (!filter.dateId || record.dateId === filter.dateId) &&
+          (!filter.userId || record.userId === filter.userId))
+        .reverse()
+    };
+  }
+
+  private warnIfOverBudget() {
+    const status = this.getBudgetStatus();
+    if (!status.exceeded || this.budgetWarnedDay === status.day) return;
+    this.budgetWarnedDay = status.day;
+    console.warn(`Daily LLM budget of $${status.dailyBudgetUsd} reached ($${status.spentUsd.toFixed(4)} spent), pausing date scheduling until tomorrow (UTC)`);
+  }
+
+  private logCall(record: UsageRecord) {
+    const line = `${JSON.stringify(record)}\n`;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fsp.mkdir(path.dirname(this.logPath), { recursive: true });
+        await fsp.appendFile(this.logPath, line, 'utf-8');
+      })
+      .catch(error => console.error('Failed to log LLM usage:', error));
+
+    if (++this.loggedCalls >= FLUSH_AFTER_CALLS) {
+      this.flush();
+      return;
+    }
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    // Don't keep a finished script alive just to flush; the log has every call
+    this.flushTimer.unref?.();
+  }
+
+  /**
+   * Write the rollups and empty the call log
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const usage = this.load();
+    // Snapshot now; calls recorded after this are appended after the log is emptied
+    const snapshot: StoredUsage = JSON.parse(JSON.stringify(usage));
+    this.loggedCalls = 0;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        // Keep the log if the rollups didn't land, so no call is lost
+        if (await this.store.save(snapshot)) {
+          await fsp.writeFile(this.logPath, '', 'utf-8');
+        }
+      })
+      .catch(error => console.error('Failed to flush LLM usage:', error));
+    return this.writeChain;
+  }
+}
+
+export const usageMeter = new UsageMeter();
@@ -0,0 +1,59 @@
+import path from 'path';
+import { describeVenue, type DateVenue, type VenueTile } from './venues';
+import { STAGE_DETAILS, type RelationshipStage } from './relationshipProgression';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+/**
+ * Venues available in the current city, as last reported by the game client.
+ * Kept on disk so dates scheduled right after a restart still land somewhere real.
+ */
+class DateVenueRegistry {
+  private store = new JsonFileStore<DateVenue[]>(path.join(process.cwd(), 'data', 'dating', 'venues.json'), 'date venues');
+  private venues: DateVenue[] | null = null;
+
+  getVenues(): DateVenue[] {
+    if (!this.venues) {
+      // Nothing stored until the client first reports its grid
+      this.venues = this.store.read() || [];
+    }
+    return this.venues;
+  }
+
+  getVenue(venueId: string): DateVenue | null {
+    return this.getVenues().find(venue => venue.id === venueId) || null;
+  }
+
+  /**
+   * Replace the venue list with what's on the client's grid. Returns how many
+   * of the reported tiles can host a date.
+   */
+  async reportVenues(tiles: VenueTile[]): Promise<number> {
+    const venues = tiles
+      .map(describeVenue)
+      .filter((venue): venue is DateVenue => venue !== null);
+
+    const unchanged = venues.length === this.getVenues().length &&
+      venues.every(venue => this.getVenue(venue.id)?.buildingType === venue.buildingType);
+    if (unchanged) return venues.length;
+
+    this.venues = venues;
+    await this.store.write(venues);
+    return venues.length;
+  }
+
+  /**
+   * Pick a venue suited to the pair's stage, avoiding ones already hosting a date
+   */
+  pickVenue(stage: RelationshipStage, busyVenueIds: Set<string> = new Set()): DateVenue | null {
+    const venues = this.getVenues();
+    if (venues.length === 0) return null;
+
+    const free = venues.filter(venue => !busyVenueIds.has(venue.id));
+    const candidates = free.length > 0 ? free : venues;
+    const preferred = candidates.filter(venue => STAGE_DETAILS[stage].venueCategories.includes(venue.category));
+    const pool = preferred.length > 0 ? preferred : candidates;
+    return pool[Math.floor(Math.random() * pool.length)];
+  }
+}
+
+export const dateVenueRegistry = new DateVenueRegistry();
@@ -0,0 +1,78 @@
+import type { BuildingType } from '@/types/game';
+
+/**
+ * Date venues are real buildings in the player's city. The client reports
+ * which venue buildings exist on its grid; the server picks one per date and
+ * both agents are told where they are.
+ */
+
+export type VenueCategory = 'cafe' | 'restaurant' | 'park' | 'waterfront' | 'entertainment' | 'culture';
+
+export interface DateVenue {
+  id: string; // "x,y" of the building's tile
+  x: number;
+  y: number;
+  buildingType: BuildingType;
+  category: VenueCategory;
+  name: string;
+  description: string;
+}
+
+export interface VenueTile {
+  x: number;
+  y: number;
+  buildingType: BuildingType;
+}
+
+interface VenueKind {
+  label: string;
+  category: VenueCategory;
+  description: string;
+}
+
+const VENUE_KINDS: Partial<Record<BuildingType, VenueKind>> = {
+  shop_small: { label: 'Café', category: 'cafe', description: 'a small corner café with a handful of tables by the window' },
+  shop_medium: { label: 'Bistro', category: 'restaurant', description: 'a busy neighborhood bistro with a chalkboard menu' },
+  mall: { label: 'Mall Food Court', category: 'restaurant', description: 'the food court of a crowded shopping mall' },
+  mountain_lodge: { label: 'Lodge', category: 'restaurant', description: 'a cozy mountain lodge with a crackling fireplace' },
+  park: { label: 'Park', category: 'park', description: 'a leafy city park with benches and walking paths' },
+  park_large: { label: 'Commons', category: 'park', description: 'a big open park with lawns and a long loop trail' },
+  pond_park: { label: 'Pond Park', category: 'park', description: 'a park beside a pond with ducks and a little footbridge' },
+  community_garden: { label: 'Community Garden', category: 'park', description: 'a community garden full of flower beds and vegetable plots' },
+  greenhouse_garden: { label: 'Greenhouse', category: 'park', description: 'a warm greenhouse garden full of tropical plants' },
+  mountain_trailhead: { label: 'Trailhead', category: 'park', description: 'a hiking trailhead with a view over the city' },
+  marina_docks_small: { label: 'Marina', category: 'waterfront', description: 'the marina docks, with sailboats bobbing at their moorings' },
+  pier_large: { label: 'Pier', category: 'waterfront', description: 'a long pier over the water looking back at the skyline' },
+  amphitheater: { label: 'Amphitheater', category: 'entertainment', description: 'an open-air amphitheater with a live show on stage' },
+  mini_golf_course: { label: 'Mini Golf', category: 'entertainment', description: 'a mini golf course with windmills and water hazards' },
+  roller_coaster_small: { label: 'Fairground', category: 'entertainment', description: 'a small fairground with a rattling roller coaster' },
+  amusement_park: { label: 'Amusement Park', category: 'entertainment', description: 'a noisy amusement park full of rides and snack stands' },
+  baseball_stadium: { label: 'Ballpark', category: 'entertainment', description: 'the stands of a ballpark during a game' },
+  museum: { label: 'Museum', category: 'culture', description: 'a quiet museum gallery' },
+};
+
+const NAME_PREFIXES = ['Maple', 'Harbor', 'Sunset', 'Juniper', 'Willow', 'Cedar', 'Lantern', 'Bluebird', 'Elm Street', 'Riverside'];
+
+export function isDateVenueType(buildingType: BuildingType): boolean {
+  return buildingType in VENUE_KINDS;
+}
+
+/**
+ * Full venue details for a reported tile, or null if the building can't host a date
+ */
+export function describeVenue(tile: VenueTile): DateVenue | null {
+  const kind = VENUE_KINDS[tile.buildingType];
+  if (!kind) return null;
+
+  // Stable name per tile so the same building keeps its name
+  const prefix = NAME_PREFIXES[Math.abs(tile.x * 31 + tile.y * 17) % NAME_PREFIXES.length];
+  return {
+    id: `${tile.x},${tile.y}`,
+    x: tile.x,
+    y: tile.y,
+    buildingType: tile.buildingType,
+    category: kind.category,
+    name: `${prefix} ${kind.label}`,
+    description: kind.description
+  };
+}
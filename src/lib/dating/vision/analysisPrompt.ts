@@ -0,0 +1,102 @@
+// Prompt, output schema and response parsing shared by the model-backed vision backends
+
+import { parsePhotoAppearance } from '@/lib/characterAppearance';
+import type { VisualAnalysisResult } from '../photoAnalysis';
+
+export const VISION_ANALYSIS_PROMPT = `Analyze this profile photo deeply for dating character insights. 
+  Return JSON with:
+  {
+    "detectedInterests": array of hobbies/interests visible (e.g., "reading", "music", "travel", "fitness"),
+    "personalityHints": array of personality traits suggested by visual cues (e.g., "adventurous", "introverted", "creative", "outdoorsy"),
+    "lifestyleIndicators": array describing lifestyle (e.g., "urban professional", "outdoor enthusiast", "creative artist"),
+    "visualStyle": string describing fashion/aesthetic style (e.g., "casual minimalist", "bohemian", "professional classic"),
+    "activitySignals": array of activities suggested by the photo (e.g., "sports", "art", "travel", "music"),
+    "socialContext": string describing social setting/lifestyle (e.g., "solo traveler", "social butterfly", "family-oriented"),
+    "confidence": number 0-1 indicating analysis confidence,
+    "appearance": {
+      "hairColor": hair color as a hex code or plain color name, omit if not visible,
+      "shirtColor": main color of the top they're wearing as a hex code or plain color name,
+      "pantsColor": color of trousers, shorts or skirt, omit if not visible,
+      "hatColor": color of any hat or headwear, null if they aren't wearing one,
+      "accessories": array of visible accessories (e.g., "glasses", "sunglasses", "backpack", "handbag")
+    }
+  }
+
+  Focus on subtle visual cues: clothing style, background elements, objects visible, setting, composition.
+  Be specific and observant.`;
+
+export const VISUAL_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    detectedInterests: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    personalityHints: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    lifestyleIndicators: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    visualStyle: { type: 'string' },
+    activitySignals: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    socialContext: { type: 'string' },
+    confidence: { type: 'number' },
+    appearance: {
+      type: 'object',
+      properties: {
+        hairColor: { type: 'string' },
+        shirtColor: { type: 'string' },
+        pantsColor: { type: 'string' },
+        hatColor: { type: ['string', 'null'] },
+        accessories: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+      },
+    },
+  },
+  required: ['detectedInterests', 'personalityHints', 'lifestyleIndicators', 'visualStyle', 'activitySignals', 'socialContext', 'confidence'],
+};
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+    : [];
+}
+
+/**
+ * Read a model's answer into a VisualAnalysisResult. Tolerates code fences
+ * and text around the JSON object; missing lists come back empty.
+ */
+export function parseVisualAnalysis(text: string): VisualAnalysisResult {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    throw new Error('Vision model returned no JSON object');
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Failed to parse visual analysis: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const confidence = typeof raw.confidence === 'number' ? raw.confidence : 0.5;
+  return {
+    detectedInterests: toStringList(raw.detectedInterests),
+    personalityHints: toStringList(raw.personalityHints),
+    lifestyleIndicators: toStringList(raw.lifestyleIndicators),
+    visualStyle: typeof raw.visualStyle === 'string' ? raw.visualStyle : '',
+    activitySignals: toStringList(raw.activitySignals),
+    socialContext: typeof raw.socialContext === 'string' ? raw.socialContext : '',
+    confidence: Math.min(1, Math.max(0, confidence)),
+    appearance: parsePhotoAppearance(raw.appearance),
+  };
+}
@@ -0,0 +1,59 @@
+// Anthropic Messages API vision backend
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { VisionAnalysis, VisionBackend, VisionImage } from './types';
+import { parseVisualAnalysis, VISION_ANALYSIS_PROMPT } from './analysisPrompt';
+
+const DEFAULT_ANTHROPIC_VISION_MODEL = 'claude-3-haiku-20240307';
+
+type AnthropicImageType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+const SUPPORTED_IMAGE_TYPES: AnthropicImageType[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export class AnthropicVisionBackend implements VisionBackend {
+  readonly name = 'anthropic' as const;
+  readonly remote = true;
+  private client: Anthropic | null;
+  private model: string;
+
+  constructor(apiKey?: string, model?: string) {
+    const key = apiKey || process.env.ANTHROPIC_API_KEY;
+    this.client = key ? new Anthropic({ apiKey: key }) : null;
+    this.model = model || process.env.ANTHROPIC_VISION_MODEL || DEFAULT_ANTHROPIC_VISION_MODEL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async analyze(image: VisionImage, signal?: AbortSignal): Promise<VisionAnalysis> {
+    if (!this.client) {
+      throw new Error('Anthropic API key is not configured. Set ANTHROPIC_API_KEY environment variable.');
+    }
+    const mediaType = SUPPORTED_IMAGE_TYPES.find(type => type === image.mimeType);
+    if (!mediaType) {
+      throw new Error(`Anthropic can't read ${image.mimeType || 'this image type'}`);
+    }
+
+    const message = await this.client.messages.create(
+      {
+        model: this.model,
+        max_tokens: 600,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'base64', media_type: mediaType, data: image.data.toString('base64') } },
+            { type: 'text', text: `${VISION_ANALYSIS_PROMPT}\n\nRespond with the JSON object only.` },
+          ],
+        }],
+      },
+      { signal }
+    );
+
+    const textBlock = message.content.find(block => block.type === 'text');
+    return {
+      analysis: parseVisualAnalysis(textBlock && 'text' in textBlock ? textBlock.text : ''),
+      model: message.model,
+      usage: { promptTokens: message.usage.input_tokens, completionTokens: message.usage.output_tokens },
+    };
+  }
+}
@@ -0,0 +1,102 @@
+// Offline backend: reads what it can from the image file itself
+
+import type { VisualAnalysisResult } from '../photoAnalysis';
+import type { VisionAnalysis, VisionBackend, VisionImage } from './types';
+import { readColorProfile, readImageInfo, readPixelGrid, readPortraitColors, type ColorProfile, type ImageInfo } from './imageInspection';
+
+function describeColors(colors: ColorProfile, result: VisualAnalysisResult, style: string[]) {
+  if (colors.brightness > 0.65) {
+    style.push('bright and airy');
+    result.personalityHints.push('upbeat');
+  } else if (colors.brightness < 0.35) {
+    style.push('moody low-key');
+    result.personalityHints.push('introspective');
+  }
+
+  if (colors.saturation > 0.45) {
+    style.push('vibrant');
+    result.personalityHints.push('expressive');
+  } else if (colors.saturation < 0.15) {
+    style.push('muted minimalist');
+    result.personalityHints.push('understated');
+  }
+
+  if (colors.warmth > 0.12) {
+    style.push('warm tones');
+    result.personalityHints.push('approachable');
+  } else if (colors.warmth < -0.08) {
+    style.push('cool tones');
+    result.personalityHints.push('calm');
+  }
+
+  const hue = colors.dominantHue;
+  if (hue !== null && hue >= 75 && hue <= 165) {
+    result.detectedInterests.push('nature');
+    result.lifestyleIndicators.push('outdoor enthusiast');
+    result.activitySignals.push('hiking');
+  } else if (hue !== null && hue >= 190 && hue <= 250 && colors.brightness > 0.5) {
+    result.detectedInterests.push('travel');
+    result.lifestyleIndicators.push('drawn to water and open skies');
+    result.activitySignals.push('beach trips');
+  }
+}
+
+function describeFile(info: ImageInfo, result: VisualAnalysisResult) {
+  if (info.hasExif) {
+    result.socialContext = 'candid camera photo';
+  } else if (info.format === 'png') {
+    result.socialContext = 'edited image or screenshot';
+  } else {
+    result.socialContext = 'shared photo';
+  }
+
+  if (info.width && info.height && info.width > info.height * 1.3) {
+    result.detectedInterests.push('photography');
+    result.lifestyleIndicators.push('enjoys scenic settings');
+  }
+}
+
+/**
+ * Works without network access or API keys. It can only read format, size,
+ * EXIF presence and colors, so its results are low-confidence hints rather
+ * than a reading of what's in the photo. Hair and top colors are guessed
+ * from where they'd sit in a centered portrait.
+ */
+export class HeuristicVisionBackend implements VisionBackend {
+  readonly name = 'heuristic' as const;
+  readonly remote = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async analyze(image: VisionImage): Promise<VisionAnalysis> {
+    const info = readImageInfo(image.data);
+    if (info.format === 'unknown' && !image.mimeType.startsWith('image/')) {
+      throw new Error(`Unsupported image type ${image.mimeType || 'unknown'}`);
+    }
+    const grid = await readPixelGrid(image.data, info);
+    const colors = grid ? readColorProfile(grid) : null;
+
+    const analysis: VisualAnalysisResult = {
+      detectedInterests: [],
+      personalityHints: [],
+      lifestyleIndicators: [],
+      visualStyle: '',
+      activitySignals: [],
+      socialContext: '',
+      confidence: colors ? 0.3 : 0.15,
+    };
+    const style: string[] = [];
+    if (colors) describeColors(colors, analysis, style);
+    describeFile(info, analysis);
+    analysis.visualStyle = style.length > 0 ? style.join(', ') : 'balanced natural';
+
+    const outfit = grid ? readPortraitColors(grid) : {};
+    if (outfit.hairColor || outfit.shirtColor) {
+      analysis.appearance = outfit;
+    }
+
+    return { analysis, model: colors ? 'heuristic/colors' : 'heuristic/metadata' };
+  }
+}
@@ -0,0 +1,306 @@
+// Dependency-free image inspection for the offline vision backend
+
+import { inflateSync } from 'zlib';
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'unknown';
+
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number | null;
+  height: number | null;
+  byteLength: number;
+  // Camera photos usually carry EXIF; screenshots and edited exports usually don't
+  hasExif: boolean;
+}
+
+export interface ColorProfile {
+  // Most common colors as hex, most common first
+  dominant: string[];
+  // Mean luma, 0-1
+  brightness: number;
+  // Mean HSV saturation, 0-1
+  saturation: number;
+  // Mean red minus blue, -1 (cool) to 1 (warm)
+  warmth: number;
+  // Hue of the most common color in degrees, null when it's a gray
+  dominantHue: number | null;
+}
+
+// Downscaled RGB pixels, row by row
+export interface PixelGrid {
+  width: number;
+  height: number;
+  pixels: number[][];
+}
+
+// Enough pixels for stable color stats without touching every one
+const MAX_SAMPLES = 4096;
+
+function readJpegInfo(data: Buffer): Omit<ImageInfo, 'format' | 'byteLength'> {
+  let width: number | null = null;
+  let height: number | null = null;
+  let hasExif = false;
+  let offset = 2;
+
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Fill bytes and markers without a length
+    if (marker === 0xff) { offset++; continue; }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) { offset += 2; continue; }
+    // Start of scan: no more headers
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = data.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && data.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+      hasExif = true;
+    }
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame && offset + 9 <= data.length) {
+      height = data.readUInt16BE(offset + 5);
+      width = data.readUInt16BE(offset + 7);
+    }
+    offset += 2 + length;
+  }
+  return { width, height, hasExif };
+}
+
+function readWebpSize(data: Buffer): { width: number | null; height: number | null } {
+  const chunk = data.toString('latin1', 12, 16);
+  if (chunk === 'VP8 ' && data.length >= 30) {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && data.length >= 25) {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && data.length >= 30) {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return { width: null, height: null };
+}
+
+/**
+ * Format, dimensions and EXIF presence from the file header
+ */
+export function readImageInfo(data: Buffer): ImageInfo {
+  const byteLength = data.length;
+
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20), byteLength, hasExif: data.includes('eXIf') };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return { format: 'jpeg', byteLength, ...readJpegInfo(data) };
+  }
+  if (data.length >= 10 && data.toString('latin1', 0, 4) === 'GIF8') {
+    return { format: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8), byteLength, hasExif: false };
+  }
+  if (data.length >= 16 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    return { format: 'webp', byteLength, hasExif: data.includes('EXIF'), ...readWebpSize(data) };
+  }
+  return { format: 'unknown', width: null, height: null, byteLength, hasExif: false };
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG to RGB samples. Returns null for
+ * anything else (16-bit, interlaced, low bit depth palettes).
+ */
+function decodePngPixels(data: Buffer): PixelGrid | null {
+  const width = data.readUInt32BE(16);
+  const height = data.readUInt32BE(20);
+  const bitDepth = data[24];
+  const colorType = data[25];
+  const interlace = data[28];
+  const channelsByType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByType[colorType];
+  if (bitDepth !== 8 || interlace !== 0 || !channels || width === 0 || height === 0) return null;
+
+  const idat: Buffer[] = [];
+  let palette: Buffer | null = null;
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IDAT') idat.push(body);
+    else if (type === 'PLTE') palette = body;
+    else if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  if (idat.length === 0 || (colorType === 3 && !palette)) return null;
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  if (raw.length < height * (stride + 1)) return null;
+
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / MAX_SAMPLES)));
+  const pixels: number[][] = [];
+  let previous: Buffer = Buffer.alloc(stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = Buffer.from(raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? line[i - channels] : 0;
+      const up = previous[i];
+      const upLeft = i >= channels ? previous[i - channels] : 0;
+      if (filter === 1) line[i] = (line[i] + left) & 0xff;
+      else if (filter === 2) line[i] = (line[i] + up) & 0xff;
+      else if (filter === 3) line[i] = (line[i] + ((left + up) >> 1)) & 0xff;
+      else if (filter === 4) line[i] = (line[i] + paeth(left, up, upLeft)) & 0xff;
+    }
+    previous = line;
+    if (y % step !== 0) continue;
+
+    for (let x = 0; x < width; x += step) {
+      const at = x * channels;
+      if (colorType === 3) {
+        const index = line[at] * 3;
+        pixels.push([palette![index], palette![index + 1], palette![index + 2]]);
+      } else if (colorType === 0 || colorType === 4) {
+        pixels.push([line[at], line[at], line[at]]);
+      } else {
+        pixels.push([line[at], line[at + 1], line[at + 2]]);
+      }
+    }
+  }
+  return { width: Math.ceil(width / step), height: Math.ceil(height / step), pixels };
+}
+
+/**
+ * Downscaled RGB samples through sharp, when its native binary is installed
+ */
+async function decodeWithSharp(data: Buffer): Promise<PixelGrid | null> {
+  try {
+    const sharp = (await import('sharp')).default;
+    const { data: raw, info } = await sharp(data)
+      .resize(64, 64, { fit: 'inside' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const pixels: number[][] = [];
+    for (let i = 0; i + 2 < raw.length; i += info.channels) {
+      pixels.push([raw[i], raw[i + 1], raw[i + 2]]);
+    }
+    return { width: info.width, height: info.height, pixels };
+  } catch {
+    return null;
+  }
+}
+
+function toHex([r, g, b]: number[]): string {
+  return `#${[r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function hueOf([r, g, b]: number[]): number | null {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max === 0 || (max - min) / max < 0.15) return null;
+  const delta = max - min;
+  let hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  hue *= 60;
+  return Math.round(hue < 0 ? hue + 360 : hue);
+}
+
+/**
+ * Decode the image to a small pixel grid. Uses sharp for any format when it
+ * loads, otherwise decodes PNGs directly; null when the pixels can't be read.
+ */
+export async function readPixelGrid(data: Buffer, info: ImageInfo): Promise<PixelGrid | null> {
+  let grid = await decodeWithSharp(data);
+  if (!grid && info.format === 'png') {
+    try {
+      grid = decodePngPixels(data);
+    } catch {
+      grid = null;
+    }
+  }
+  return grid && grid.pixels.length > 0 ? grid : null;
+}
+
+/**
+ * Mean colors of the most common color buckets (3 bits per channel), most
+ * common first
+ */
+function dominantColors(pixels: number[][], count: number): number[][] {
+  const buckets = new Map<number, { count: number; sum: number[] }>();
+  for (const [r, g, b] of pixels) {
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) || { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += r;
+    bucket.sum[1] += g;
+    bucket.sum[2] += b;
+    buckets.set(key, bucket);
+  }
+  return Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, count)
+    .map(bucket => bucket.sum.map(total => total / bucket.count));
+}
+
+/**
+ * Dominant colors, brightness, saturation and warmth of the whole image
+ */
+export function readColorProfile(grid: PixelGrid): ColorProfile {
+  const { pixels } = grid;
+  let brightness = 0;
+  let saturation = 0;
+  let warmth = 0;
+  for (const [r, g, b] of pixels) {
+    const max = Math.max(r, g, b);
+    brightness += (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+    saturation += max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+    warmth += (r - b) / 255;
+  }
+
+  const dominant = dominantColors(pixels, 3);
+  return {
+    dominant: dominant.map(toHex),
+    brightness: brightness / pixels.length,
+    saturation: saturation / pixels.length,
+    warmth: warmth / pixels.length,
+    dominantHue: hueOf(dominant[0]),
+  };
+}
+
+function regionColor(grid: PixelGrid, top: number, bottom: number, left: number, right: number): number[] | null {
+  const pixels: number[][] = [];
+  for (let y = Math.floor(grid.height * top); y < Math.ceil(grid.height * bottom); y++) {
+    for (let x = Math.floor(grid.width * left); x < Math.ceil(grid.width * right); x++) {
+      const pixel = grid.pixels[y * grid.width + x];
+      if (pixel) pixels.push(pixel);
+    }
+  }
+  return pixels.length > 0 ? dominantColors(pixels, 1)[0] : null;
+}
+
+function looksLikeHair([r, g, b]: number[]): boolean {
+  const max = Math.max(r, g, b);
+  if (max < 70) return true; // black or very dark brown
+  const hue = hueOf([r, g, b]);
+  // Browns, blondes and reds sit between red and yellow
+  return hue !== null && hue <= 50 && r >= b;
+}
+
+/**
+ * Guess hair and top colors assuming a centered head-and-shoulders portrait:
+ * hair near the top middle, the top across the lower middle. Hair is only
+ * reported when the color is plausible for hair.
+ */
+export function readPortraitColors(grid: PixelGrid): { hairColor?: string; shirtColor?: string } {
+  if (grid.height <= grid.width * 0.8) return {}; // landscapes aren't portraits
+  const hair = regionColor(grid, 0.08, 0.2, 0.4, 0.6);
+  const top = regionColor(grid, 0.78, 0.95, 0.3, 0.7);
+  return {
+    ...(hair && looksLikeHair(hair) ? { hairColor: toHex(hair) } : {}),
+    ...(top ? { shirtColor: toHex(top) } : {}),
+  };
+}
@@ -0,0 +1,82 @@
+// Vision backends for photo analysis
+//
+// PHOTO_ANALYSIS_BACKENDS sets the order backends are tried in, e.g.
+// "anthropic,heuristic". By default every hosted backend with credentials is
+// tried (overshoot, anthropic, openai) and the offline heuristic backend comes
+// last, so analysis works without any keys.
+//   OVERSHOOT_API_KEY, OVERSHOOT_API_URL
+//   ANTHROPIC_API_KEY, ANTHROPIC_VISION_MODEL
+//   OPENAI_API_KEY, OPENAI_VISION_MODEL
+
+import { OvershootVisionBackend } from './overshootBackend';
+import { AnthropicVisionBackend } from './anthropicVisionBackend';
+import { OpenAIVisionBackend } from './openAIVisionBackend';
+import { HeuristicVisionBackend } from './heuristicBackend';
+import type { VisionBackend, VisionBackendName } from './types';
+
+export type { VisionAnalysis, VisionBackend, VisionBackendName, VisionImage } from './types';
+export { OvershootVisionBackend } from './overshootBackend';
+export { AnthropicVisionBackend } from './anthropicVisionBackend';
+export { OpenAIVisionBackend } from './openAIVisionBackend';
+export { HeuristicVisionBackend } from './heuristicBackend';
+export {
+  readImageInfo,
+  readPixelGrid,
+  readColorProfile,
+  readPortraitColors,
+  type ColorProfile,
+  type ImageInfo,
+  type PixelGrid
+} from './imageInspection';
+
+const VISION_BACKEND_NAMES: VisionBackendName[] = ['overshoot', 'anthropic', 'openai', 'heuristic'];
+
+const backendCache: Map<VisionBackendName, VisionBackend> = new Map();
+
+export function createVisionBackend(name: VisionBackendName): VisionBackend {
+  switch (name) {
+    case 'overshoot':
+      return new OvershootVisionBackend();
+    case 'anthropic':
+      return new AnthropicVisionBackend();
+    case 'openai':
+      return new OpenAIVisionBackend();
+    case 'heuristic':
+      return new HeuristicVisionBackend();
+  }
+}
+
+export function getVisionBackend(name: VisionBackendName): VisionBackend {
+  let backend = backendCache.get(name);
+  if (!backend) {
+    backend = createVisionBackend(name);
+    backendCache.set(name, backend);
+  }
+  return backend;
+}
+
+function parseBackendOrder(): VisionBackendName[] | null {
+  const raw = process.env.PHOTO_ANALYSIS_BACKENDS;
+  if (!raw?.trim()) return null;
+
+  const names: VisionBackendName[] = [];
+  for (const part of raw.split(',')) {
+    const name = part.trim().toLowerCase();
+    if (VISION_BACKEND_NAMES.includes(name as VisionBackendName)) {
+      names.push(name as VisionBackendName);
+    } else if (name) {
+      console.warn(`Unknown vision backend "${part.trim()}", ignoring`);
+    }
+  }
+  return names.length > 0 ? names : null;
+}
+
+/**
+ * Configured backends in the order they should be tried
+ */
+export function resolveVisionBackends(): VisionBackend[] {
+  const order = parseBackendOrder() || VISION_BACKEND_NAMES;
+  return Array.from(new Set(order))
+    .map(getVisionBackend)
+    .filter(backend => backend.isConfigured());
+}
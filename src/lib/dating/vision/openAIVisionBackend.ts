@@ -0,0 +1,55 @@
+// OpenAI chat completions vision backend
+
+import OpenAI from 'openai';
+import type { VisionAnalysis, VisionBackend, VisionImage } from './types';
+import { parseVisualAnalysis, VISION_ANALYSIS_PROMPT } from './analysisPrompt';
+
+const DEFAULT_OPENAI_VISION_MODEL = 'gpt-4o-mini';
+
+export class OpenAIVisionBackend implements VisionBackend {
+  readonly name = 'openai' as const;
+  readonly remote = true;
+  private client: OpenAI | null;
+  private model: string;
+
+  constructor(apiKey?: string, model?: string) {
+    const key = apiKey || process.env.OPENAI_API_KEY;
+    this.client = key ? new OpenAI({ apiKey: key }) : null;
+    this.model = model || process.env.OPENAI_VISION_MODEL || DEFAULT_OPENAI_VISION_MODEL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async analyze(image: VisionImage, signal?: AbortSignal): Promise<VisionAnalysis> {
+    if (!this.client) {
+      throw new Error('OpenAI API key is not configured. Set OPENAI_API_KEY environment variable.');
+    }
+
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        max_tokens: 600,
+        response_format: { type: 'json_object' },
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: VISION_ANALYSIS_PROMPT },
+            { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data.toString('base64')}` } },
+          ],
+        }],
+      },
+      { signal }
+    );
+
+    return {
+      analysis: parseVisualAnalysis(response.choices[0]?.message?.content || ''),
+      // Prefixed like the OpenRouter ids so usage pricing applies
+      model: `openai/${this.model}`,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// Overshoot realtime vision backend
+
+import type { StreamInferenceResult } from '@overshoot/sdk';
+import type { VisionAnalysis, VisionBackend, VisionImage } from './types';
+import { parseVisualAnalysis, VISION_ANALYSIS_PROMPT, VISUAL_ANALYSIS_SCHEMA } from './analysisPrompt';
+
+/**
+ * The Overshoot SDK streams media over WebRTC, so it only works in runtimes
+ * that provide it. Elsewhere start() fails and the next backend is used.
+ */
+export class OvershootVisionBackend implements VisionBackend {
+  readonly name = 'overshoot' as const;
+  readonly remote = true;
+  private apiKey: string;
+  private apiUrl: string;
+
+  constructor(apiKey?: string, apiUrl?: string) {
+    this.apiKey = apiKey || process.env.OVERSHOOT_API_KEY || '';
+    this.apiUrl = apiUrl || process.env.OVERSHOOT_API_URL || 'https://api.overshoot.ai';
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async analyze(image: VisionImage, signal?: AbortSignal): Promise<VisionAnalysis> {
+    const { RealtimeVision } = await import('@overshoot/sdk');
+    const file = new File([new Uint8Array(image.data)], image.fileName, { type: image.mimeType });
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const finish = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        vision.stop().catch(() => undefined);
+        outcome();
+      };
+
+      const vision = new RealtimeVision({
+        apiUrl: this.apiUrl,
+        apiKey: this.apiKey,
+        prompt: VISION_ANALYSIS_PROMPT,
+        source: {
+          type: 'video',
+          file,
+        },
+        outputSchema: VISUAL_ANALYSIS_SCHEMA,
+        // Results keep arriving about once a second; the first one is enough
+        onResult: (result: StreamInferenceResult) => {
+          if (result.ok && result.result) {
+            try {
+              const analysis = parseVisualAnalysis(result.result);
+              finish(() => resolve({ analysis, model: `overshoot/${result.model_name || 'realtime-vision'}` }));
+            } catch (parseError) {
+              finish(() => reject(parseError));
+            }
+          } else {
+            finish(() => reject(new Error(result.error || 'Visual analysis failed')));
+          }
+        },
+        onError: (error: Error) => {
+          finish(() => reject(error));
+        },
+      });
+
+      signal?.addEventListener('abort', () => finish(() => reject(new Error('Visual analysis was aborted'))));
+      vision.start().catch(error => finish(() => reject(error)));
+    });
+  }
+}
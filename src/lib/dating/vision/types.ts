@@ -0,0 +1,24 @@
+import type { VisualAnalysisResult } from '../photoAnalysis';
+
+export type VisionBackendName = 'overshoot' | 'openai' | 'anthropic' | 'heuristic';
+
+export interface VisionImage {
+  data: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface VisionAnalysis {
+  analysis: VisualAnalysisResult;
+  model: string;
+  // Token counts, when the backend reports them
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+export interface VisionBackend {
+  readonly name: VisionBackendName;
+  // Calls a hosted model, so it's paid for and skipped while the daily budget is spent
+  readonly remote: boolean;
+  isConfigured(): boolean;
+  analyze(image: VisionImage, signal?: AbortSignal): Promise<VisionAnalysis>;
+}
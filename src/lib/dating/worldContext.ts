@@ -0,0 +1,195 @@
+/**
+ * What's going on in the city while a date happens: the simulation clock,
+ * season, weather and the venue's neighborhood. The weather model is a pure
+ * function of the clock so the server and the game client always agree.
+ */
+
+export type Season = 'winter' | 'spring' | 'summer' | 'autumn';
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+export type WeatherCondition = 'sunny' | 'partlyCloudy' | 'cloudy' | 'rain' | 'storm' | 'snow';
+
+export interface SimulationClock {
+  cityName?: string;
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+}
+
+export interface Weather {
+  condition: WeatherCondition;
+  temperatureF: number;
+}
+
+/**
+ * Averages of the tiles around a venue. Values are 0-100.
+ */
+export interface NeighborhoodStats {
+  landValue: number;
+  crime: number;
+  pollution: number;
+}
+
+export interface WorldContext {
+  clock: SimulationClock;
+  season: Season;
+  timeOfDay: TimeOfDay;
+  weather: Weather;
+  neighborhood?: NeighborhoodStats;
+}
+
+// Relative odds of each condition by season
+const SEASON_WEATHER: Record<Season, Array<[WeatherCondition, number]>> = {
+  winter: [['sunny', 2], ['partlyCloudy', 2], ['cloudy', 3], ['rain', 1], ['snow', 2]],
+  spring: [['sunny', 3], ['partlyCloudy', 3], ['cloudy', 2], ['rain', 2], ['storm', 1]],
+  summer: [['sunny', 5], ['partlyCloudy', 3], ['cloudy', 1], ['rain', 1], ['storm', 1]],
+  autumn: [['sunny', 2], ['partlyCloudy', 3], ['cloudy', 3], ['rain', 2], ['storm', 1]],
+};
+
+const SEASON_BASE_TEMP_F: Record<Season, number> = {
+  winter: 34,
+  spring: 58,
+  summer: 80,
+  autumn: 60,
+};
+
+const CONDITION_TEMP_OFFSET_F: Record<WeatherCondition, number> = {
+  sunny: 4,
+  partlyCloudy: 1,
+  cloudy: -2,
+  rain: -5,
+  storm: -6,
+  snow: -8,
+};
+
+const WEATHER_LABELS: Record<WeatherCondition, string> = {
+  sunny: 'sunny',
+  partlyCloudy: 'partly cloudy',
+  cloudy: 'overcast',
+  rain: 'rainy',
+  storm: 'stormy',
+  snow: 'snowy',
+};
+
+// Weather holds for a few in-game hours before it can change
+const WEATHER_BLOCK_HOURS = 6;
+
+function hash(...values: number[]): number {
+  let h = 2166136261;
+  for (const value of values) {
+    h ^= value;
+    h = Math.imul(h, 16777619);
+  }
+  h ^= h >>> 13;
+  h = Math.imul(h, 0x5bd1e995);
+  h ^= h >>> 15;
+  return (h >>> 0) / 4294967296;
+}
+
+export function getSeason(month: number): Season {
+  if (month === 12 || month <= 2) return 'winter';
+  if (month <= 5) return 'spring';
+  if (month <= 8) return 'summer';
+  return 'autumn';
+}
+
+export function getTimeOfDay(hour: number): TimeOfDay {
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+export function getWeather(clock: SimulationClock): Weather {
+  const season = getSeason(clock.month);
+  const block = Math.floor(clock.hour / WEATHER_BLOCK_HOURS);
+
+  const options = SEASON_WEATHER[season];
+  const total = options.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = hash(clock.year, clock.month, clock.day, block) * total;
+  let condition = options[options.length - 1][0];
+  for (const [option, weight] of options) {
+    roll -= weight;
+    if (roll < 0) {
+      condition = option;
+      break;
+    }
+  }
+
+  // Warmest mid-afternoon, coldest before dawn
+  const diurnal = Math.cos(((clock.hour - 15) / 24) * Math.PI * 2) * 9;
+  const dailyNoise = (hash(clock.year, clock.month, clock.day) - 0.5) * 10;
+  const temperatureF = Math.round(SEASON_BASE_TEMP_F[season] + diurnal + dailyNoise + CONDITION_TEMP_OFFSET_F[condition]);
+
+  // Snow only when it's actually cold
+  if (condition === 'snow' && temperatureF > 36) {
+    return { condition: 'rain', temperatureF };
+  }
+  return { condition, temperatureF };
+}
+
+export function buildWorldContext(clock: SimulationClock, neighborhood?: NeighborhoodStats): WorldContext {
+  return {
+    clock,
+    season: getSeason(clock.month),
+    timeOfDay: getTimeOfDay(clock.hour),
+    weather: getWeather(clock),
+    neighborhood
+  };
+}
+
+export function formatWeather(weather: Weather): string {
+  return `${WEATHER_LABELS[weather.condition]}, ${weather.temperatureF}°F`;
+}
+
+function describeArea(stats: NeighborhoodStats): string {
+  if (stats.landValue >= 60) return 'an upscale neighborhood';
+  if (stats.landValue < 25) return 'a run-down neighborhood';
+  return 'an ordinary neighborhood';
+}
+
+function describeNeighborhood(stats: NeighborhoodStats): string {
+  const parts = [describeArea(stats)];
+  if (stats.crime >= 60) parts.push('with a reputation for crime, so you feel a little on edge');
+  else if (stats.crime >= 35) parts.push('that can feel sketchy after dark');
+  else parts.push('that feels safe');
+
+  if (stats.pollution >= 60) parts.push('and the air is thick with smog from nearby industry');
+  else if (stats.pollution >= 25) parts.push('with a bit of traffic haze');
+  return parts.join(' ');
+}
+
+/**
+ * Prompt block describing the date's surroundings
+ */
+export function describeWorldContext(context: WorldContext, venueName?: string): string {
+  const { clock, season, timeOfDay, weather, neighborhood } = context;
+  const lines = [
+    'THE WORLD AROUND YOU:',
+    `- It is ${timeOfDay} (${String(clock.hour).padStart(2, '0')}:00) in ${season}${clock.cityName ? ` in ${clock.cityName}` : ''}`,
+    `- Weather: ${formatWeather(weather)}`
+  ];
+  if (neighborhood) {
+    lines.push(`- ${venueName || 'The venue'} is in ${describeNeighborhood(neighborhood)}`);
+  }
+  lines.push('- Let the time, weather and surroundings color your mood and what you talk about, without narrating them');
+  return lines.join('\n');
+}
+
+/**
+ * One-line setting for summaries and evaluations
+ */
+export function summarizeSetting(context: WorldContext, venueName?: string): string {
+  const { season, timeOfDay, weather, neighborhood } = context;
+  const label = WEATHER_LABELS[weather.condition];
+  const article = /^[aeiou]/.test(label) ? 'an' : 'a';
+  let setting = `${venueName ? `${venueName} on ` : ''}${article} ${label} ${season} ${timeOfDay} (${weather.temperatureF}°F)`;
+  if (neighborhood) {
+    const problems = [
+      neighborhood.crime >= 60 ? 'high crime' : null,
+      neighborhood.pollution >= 60 ? 'heavy smog' : null
+    ].filter(Boolean);
+    setting += `, in ${describeArea(neighborhood)}${problems.length > 0 ? ` with ${problems.join(' and ')}` : ''}`;
+  }
+  return setting;
+}
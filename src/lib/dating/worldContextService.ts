@@ -0,0 +1,54 @@
+import path from 'path';
+import { buildWorldContext, type NeighborhoodStats, type SimulationClock, type WorldContext } from './worldContext';
+import type { DateVenue } from './venues';
+import { JsonFileStore } from './storage/jsonFileStore';
+
+interface WorldSnapshot {
+  clock: SimulationClock;
+  neighborhoods: Record<string, NeighborhoodStats>; // venue id -> stats
+  reportedAt: string; // ISO date string
+}
+
+/**
+ * Latest simulation state reported by the game client. Without a report the
+ * server's own clock stands in so dates still get a sensible setting.
+ */
+class WorldContextService {
+  private store = new JsonFileStore<WorldSnapshot>(path.join(process.cwd(), 'data', 'dating', 'world.json'), 'world context');
+  private snapshot: WorldSnapshot | null | undefined;
+
+  private load(): WorldSnapshot | null {
+    if (this.snapshot === undefined) {
+      this.snapshot = this.store.read() || null;
+    }
+    return this.snapshot;
+  }
+
+  getClock(): SimulationClock {
+    const snapshot = this.load();
+    if (snapshot) return snapshot.clock;
+
+    const now = new Date();
+    return {
+      year: now.getFullYear(),
+      month: now.getMonth() + 1,
+      day: now.getDate(),
+      hour: now.getHours()
+    };
+  }
+
+  getNeighborhood(venueId: string): NeighborhoodStats | undefined {
+    return this.load()?.neighborhoods[venueId];
+  }
+
+  getContext(venue?: DateVenue): WorldContext {
+    return buildWorldContext(this.getClock(), venue ? this.getNeighborhood(venue.id) : undefined);
+  }
+
+  async report(clock: SimulationClock, neighborhoods: Record<string, NeighborhoodStats>): Promise<void> {
+    this.snapshot = { clock, neighborhoods, reportedAt: new Date().toISOString() };
+    return this.store.write(this.snapshot);
+  }
+}
+
+export const worldContextService = new WorldContextService();
@@ -1,24 +1,56 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
+import fs from 'fs';
+import { writeFile, mkdir, rename } from 'fs/promises';
+import { dirname, join } from 'path';
+import { userEventEmitter } from './userEventEmitter';
+import {
+  mergeAppearanceOverrides,
+  resolveAppearance,
+  type AppearanceOverrides,
+  type AppearanceOverridesPatch,
+  type CharacterAppearance,
+  type PhotoAppearance
+} from './characterAppearance';
 import { PEDESTRIAN_SKIN_COLORS, PEDESTRIAN_SHIRT_COLORS, PEDESTRIAN_PANTS_COLORS, PEDESTRIAN_HAT_COLORS } from '@/components/game/constants';
 
+export type Gender = 'male' | 'female' | 'non-binary' | 'other';
+
+export const GENDERS: Gender[] = ['male', 'female', 'non-binary', 'other'];
+
+export interface AgeRange {
+  min: number;
+  max: number;
+}
+
 export interface UserProfile {
   id: string;
   name: string;
   age: number;
-  gender: 'male' | 'female';
+  gender: Gender;
   dateOfBirth: string;
   race: string;
   preferences?: string;
+  // Dating constraints. Older records may lack these; see pairingConstraints.ts for defaults
+  interestedIn?: Gender[];
+  ageRange?: AgeRange;
+  dealbreakers?: string[];
   skinColor: string;
   shirtColor: string;
   pantsColor: string;
   hasHat: boolean;
   hatColor: string | null;
+  hairColor?: string;
+  hasGlasses?: boolean;
+  hasBag?: boolean;
+  // The look generated at sign-up, kept once a photo or the user has changed it
+  baseAppearance?: CharacterAppearance;
+  appearanceOverrides?: AppearanceOverrides;
   relationshipArc: string;
   dateSummary: string;
   compatibilityInsight: string;
   createdAt: string;
+  updatedAt?: string;
+  // Set while the user has paused dating; they aren't scheduled until reactivated
+  deactivatedAt?: string;
   // Photo analysis data
   photoAnalysis?: {
     iosSummary?: {
@@ -35,6 +67,7 @@ export interface UserProfile {
       activitySignals: string[];
       socialContext: string;
       confidence: number;
+      appearance?: PhotoAppearance;
     };
     enhancedPreferences?: string;
     combinedTraits?: string[];
@@ -43,6 +76,58 @@ export interface UserProfile {
   };
 }
 
+/**
+ * Profile fields users can set themselves, on create and on update
+ */
+export type EditableUserFields = Pick<UserProfile, 'name' | 'age' | 'gender' | 'dateOfBirth' | 'race' | 'preferences' | 'interestedIn' | 'ageRange' | 'dealbreakers'>;
+
+export const EDITABLE_USER_FIELDS: Array<keyof EditableUserFields> = [
+  'name', 'age', 'gender', 'dateOfBirth', 'race', 'preferences', 'interestedIn', 'ageRange', 'dealbreakers'
+];
+
+/**
+ * Validate whichever editable fields are present. Returns an error message,
+ * or null when everything given is valid.
+ */
+export function validateUserFields(fields: Record<string, unknown>): string | null {
+  const { name, age, gender, dateOfBirth, race, preferences, interestedIn, ageRange, dealbreakers } = fields;
+
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return 'Invalid name. Must be a non-empty string';
+  }
+  if (dateOfBirth !== undefined && (typeof dateOfBirth !== 'string' || !dateOfBirth.trim())) {
+    return 'Invalid dateOfBirth. Must be a non-empty string';
+  }
+  if (race !== undefined && (typeof race !== 'string' || !race.trim())) {
+    return 'Invalid race. Must be a non-empty string';
+  }
+  if (preferences !== undefined && typeof preferences !== 'string') {
+    return 'Invalid preferences. Must be a string';
+  }
+  if (gender !== undefined && !GENDERS.includes(gender as Gender)) {
+    return `Invalid gender. Must be one of: ${GENDERS.join(', ')}`;
+  }
+  if (
+    interestedIn !== undefined &&
+    (!Array.isArray(interestedIn) || interestedIn.length === 0 || !interestedIn.every(g => GENDERS.includes(g as Gender)))
+  ) {
+    return `Invalid interestedIn. Must be a non-empty array of: ${GENDERS.join(', ')}`;
+  }
+  if (ageRange !== undefined) {
+    const range = ageRange as Partial<AgeRange> | null;
+    if (typeof range?.min !== 'number' || typeof range?.max !== 'number' || range.min < 18 || range.min > range.max) {
+      return 'Invalid ageRange. Must be { min: number, max: number } with 18 <= min <= max';
+    }
+  }
+  if (dealbreakers !== undefined && (!Array.isArray(dealbreakers) || !dealbreakers.every(d => typeof d === 'string'))) {
+    return 'Invalid dealbreakers. Must be an array of strings';
+  }
+  if (age !== undefined && (typeof age !== 'number' || age < 0 || age > 150)) {
+    return 'Invalid age. Must be a number between 0 and 150';
+  }
+  return null;
+}
+
 const RACE_SKIN_TONE_MAP: Record<string, string[]> = {
   'caucasian': ['#ffe4c4', '#ffd5b8', '#ffc8a8', '#fdbf7e'],
   'african': ['#8d5524', '#613318', '#c68642', '#e0ac69'],
@@ -55,13 +140,7 @@ const RACE_SKIN_TONE_MAP: Record<string, string[]> = {
   'other': PEDESTRIAN_SKIN_COLORS,
 };
 
-function generateCharacterAppearance(name: string, gender: 'male' | 'female', race: string, age: number): {
-  skinColor: string;
-  shirtColor: string;
-  pantsColor: string;
-  hasHat: boolean;
-  hatColor: string | null;
-} {
+function generateCharacterAppearance(name: string, gender: Gender, race: string, age: number): CharacterAppearance {
   const nameHash = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
   const seed = nameHash + age;
   
@@ -84,32 +163,201 @@ function generateCharacterAppearance(name: string, gender: 'male' | 'female', ra
   };
 }
 
-const DB_PATH = join(process.cwd(), 'data', 'users.json');
+/**
+ * Recompute the character's look from the generated base, the photo
+ * analysis and the user's overrides
+ */
+function refreshAppearance(user: UserProfile) {
+  const base: CharacterAppearance = user.baseAppearance || {
+    skinColor: user.skinColor,
+    shirtColor: user.shirtColor,
+    pantsColor: user.pantsColor,
+    hasHat: user.hasHat,
+    hatColor: user.hatColor,
+  };
+  user.baseAppearance = base;
 
-async function readDatabase(): Promise<UserProfile[]> {
-  try {
-    const data = await readFile(DB_PATH, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return [];
+  const appearance = resolveAppearance(base, user.photoAnalysis?.visualAnalysis?.appearance, user.appearanceOverrides);
+  Object.assign(user, {
+    ...appearance,
+    hairColor: appearance.hairColor,
+    hasGlasses: appearance.hasGlasses,
+    hasBag: appearance.hasBag,
+  });
+}
+
+// Defaults for summary fields missing from older or hand-edited records
+const DEFAULT_RELATIONSHIP_FIELDS = {
+  relationshipArc: 'No relationships yet.',
+  dateSummary: 'No dates recorded yet.',
+  compatibilityInsight: 'Analysis pending...',
+};
+
+const APPEARANCE_FIELDS = ['skinColor', 'shirtColor', 'pantsColor', 'hasHat', 'hatColor'] as const;
+
+/**
+ * Check a stored record against the profile schema. Missing appearance and
+ * summary fields are filled in; anything else wrong rejects the record.
+ */
+export function parseStoredUser(raw: unknown): { user: UserProfile } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Record is not an object' };
   }
+  const record = raw as Record<string, unknown>;
+  if (typeof record.id !== 'string' || !record.id) {
+    return { error: 'Missing id' };
+  }
+  const missing = ['name', 'age', 'gender', 'dateOfBirth', 'race', 'createdAt'].filter(field => record[field] === undefined);
+  if (missing.length > 0) {
+    return { error: `Missing ${missing.join(', ')}` };
+  }
+  const fieldError = validateUserFields(record);
+  if (fieldError) {
+    return { error: fieldError };
+  }
+  if (typeof record.createdAt !== 'string') {
+    return { error: 'Invalid createdAt. Must be an ISO date string' };
+  }
+
+  const user = { ...DEFAULT_RELATIONSHIP_FIELDS, ...record } as UserProfile;
+  if (APPEARANCE_FIELDS.some(field => record[field] === undefined)) {
+    Object.assign(user, generateCharacterAppearance(user.name, user.gender, user.race, user.age));
+  }
+  return { user };
 }
 
-async function writeDatabase(users: UserProfile[]): Promise<void> {
-  const dir = join(process.cwd(), 'data');
-  await mkdir(dir, { recursive: true });
-  await writeFile(DB_PATH, JSON.stringify(users, null, 2), 'utf-8');
+type UserChange =
+  | { type: 'created' | 'updated'; user: UserProfile }
+  | { type: 'deleted'; user: UserProfile };
+
+/**
+ * The user table in data/users.json. Changes are applied one at a time to an
+ * in-memory copy, validated, written to a temp file and renamed over the
+ * table, so concurrent requests can't lose each other's writes and a crash
+ * never leaves a half-written file. Every change is announced on
+ * userEventEmitter.
+ */
+class UserRepository {
+  private users: UserProfile[] | null = null;
+  // Stored records that failed validation. They're kept in the file untouched but never served
+  private invalidRecords: unknown[] = [];
+  // File modification time as of the last load or write, so outside edits are picked up
+  private loadedMtimeMs: number | null = null;
+  private mutationChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private getMtimeMs(): number | null {
+    try {
+      return fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
+  private load(): UserProfile[] {
+    const mtimeMs = this.getMtimeMs();
+    if (this.users && mtimeMs === this.loadedMtimeMs) return this.users;
+
+    let records: unknown[] = [];
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      records = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read users:', error);
+      }
+    }
+
+    this.users = [];
+    this.invalidRecords = [];
+    for (const record of records) {
+      const result = parseStoredUser(record);
+      if ('user' in result) {
+        this.users.push(result.user);
+      } else {
+        console.error(`Skipping invalid user record ${(record as { id?: unknown })?.id ?? '(no id)'}: ${result.error}`);
+        this.invalidRecords.push(record);
+      }
+    }
+    this.loadedMtimeMs = mtimeMs;
+    return this.users;
+  }
+
+  list(): UserProfile[] {
+    return [...this.load()];
+  }
+
+  get(userId: string): UserProfile | null {
+    return this.load().find(u => u.id === userId) || null;
+  }
+
+  /**
+   * Run a change against a copy of the table and commit it once it's written.
+   * Changes run one after another; apply returns the result and what changed.
+   */
+  mutate<T>(apply: (users: UserProfile[]) => { result: T; users?: UserProfile[]; changes: UserChange[] }): Promise<T> {
+    const run = this.mutationChain.then(async () => {
+      const draft = structuredClone(this.load());
+      const { result, users = draft, changes } = apply(draft);
+      if (changes.length === 0) return result;
+
+      for (const change of changes) {
+        const check = change.type === 'deleted' ? { user: change.user } : parseStoredUser(change.user);
+        if ('error' in check) {
+          throw new Error(`Invalid user ${change.user.id}: ${check.error}`);
+        }
+      }
+
+      await this.write([...users, ...this.invalidRecords]);
+      this.users = users;
+      this.loadedMtimeMs = this.getMtimeMs();
+
+      for (const change of changes) {
+        if (change.type === 'created') userEventEmitter.emitUserCreated(change.user);
+        else if (change.type === 'updated') userEventEmitter.emitUserUpdated(change.user);
+        else userEventEmitter.emitUserDeleted(change.user.id);
+      }
+      return result;
+    });
+    // A failed change mustn't block the ones queued behind it
+    this.mutationChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(records: unknown[]): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(records, null, 2), 'utf-8');
+    await rename(tempPath, this.filePath);
+  }
+}
+
+export const userRepository = new UserRepository(join(process.cwd(), 'data', 'users.json'));
+
+/**
+ * Apply fn to one user and save it. Resolves to null when there's no such user.
+ */
+function updateOne(userId: string, fn: (user: UserProfile) => void): Promise<UserProfile | null> {
+  return userRepository.mutate(users => {
+    const user = users.find(u => u.id === userId);
+    if (!user) return { result: null, changes: [] };
+    fn(user);
+    return { result: user, changes: [{ type: 'updated', user }] };
+  });
 }
 
 export async function createUser(userInput: {
   name: string;
   age: number;
-  gender: 'male' | 'female';
+  gender: Gender;
   dateOfBirth: string;
   race: string;
   preferences?: string;
+  interestedIn?: Gender[];
+  ageRange?: AgeRange;
+  dealbreakers?: string[];
 }): Promise<UserProfile> {
-  const users = await readDatabase();
   const appearance = generateCharacterAppearance(userInput.name, userInput.gender, userInput.race, userInput.age);
   
   const newUser: UserProfile = {
@@ -120,24 +368,93 @@ export async function createUser(userInput: {
     dateOfBirth: userInput.dateOfBirth,
     race: userInput.race,
     preferences: userInput.preferences,
+    interestedIn: userInput.interestedIn,
+    ageRange: userInput.ageRange,
+    dealbreakers: userInput.dealbreakers,
     ...appearance,
-    relationshipArc: 'Coming soon...',
-    dateSummary: 'No dates recorded yet.',
-    compatibilityInsight: 'Analysis pending...',
+    ...DEFAULT_RELATIONSHIP_FIELDS,
     createdAt: new Date().toISOString(),
   };
-  users.push(newUser);
-  await writeDatabase(users);
-  return newUser;
+  return userRepository.mutate(users => {
+    users.push(newUser);
+    return { result: newUser, changes: [{ type: 'created', user: newUser }] };
+  });
 }
 
 export async function getAllUsers(): Promise<UserProfile[]> {
-  return readDatabase();
+  return userRepository.list();
 }
 
 export async function getUserById(id: string): Promise<UserProfile | null> {
-  const users = await readDatabase();
-  return users.find(u => u.id === id) || null;
+  return userRepository.get(id);
+}
+
+/**
+ * Apply profile edits and changes to the user's appearance overrides. The
+ * generated look doesn't follow name or age edits, so the character stays
+ * recognizable in the city.
+ */
+export async function updateUser(
+  userId: string,
+  updates: Partial<EditableUserFields>,
+  appearance?: AppearanceOverridesPatch
+): Promise<UserProfile | null> {
+  return updateOne(userId, user => {
+    for (const field of EDITABLE_USER_FIELDS) {
+      if (updates[field] !== undefined) {
+        Object.assign(user, { [field]: updates[field] });
+      }
+    }
+    if (updates.ageRange) {
+      user.ageRange = { min: updates.ageRange.min, max: updates.ageRange.max };
+    }
+    if (appearance) {
+      user.appearanceOverrides = mergeAppearanceOverrides(user.appearanceOverrides, appearance);
+      refreshAppearance(user);
+    }
+    user.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Pause or resume a user's dating. Returns null for an unknown user.
+ */
+export async function setUserDeactivated(userId: string, deactivated: boolean): Promise<UserProfile | null> {
+  return updateOne(userId, user => {
+    if (deactivated) {
+      user.deactivatedAt = user.deactivatedAt || new Date().toISOString();
+    } else {
+      delete user.deactivatedAt;
+    }
+    user.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Remove a user's profile. Returns the removed profile, or null if there was none.
+ */
+export async function deleteUser(userId: string): Promise<UserProfile | null> {
+  return userRepository.mutate(users => {
+    const user = users.find(u => u.id === userId);
+    if (!user) return { result: null, changes: [] };
+    return {
+      result: user,
+      users: users.filter(u => u.id !== userId),
+      changes: [{ type: 'deleted', user }]
+    };
+  });
+}
+
+/**
+ * Update the relationship summary fields shown on a user's profile
+ */
+export async function updateUserRelationshipFields(
+  userId: string,
+  fields: Partial<Pick<UserProfile, 'relationshipArc' | 'dateSummary'>>
+): Promise<UserProfile | null> {
+  return updateOne(userId, user => {
+    Object.assign(user, fields);
+  });
 }
 
 /**
@@ -147,31 +464,28 @@ export async function updateUserWithPhotoAnalysis(
   userId: string,
   deepProfile: import('@/lib/dating/photoAnalysis').DeepCharacterProfile
 ): Promise<UserProfile> {
-  const users = await readDatabase();
-  const userIndex = users.findIndex(u => u.id === userId);
-  
-  if (userIndex === -1) {
-    throw new Error(`User with id ${userId} not found`);
-  }
+  const user = await updateOne(userId, user => {
+    // Update user with photo analysis
+    user.photoAnalysis = {
+      iosSummary: deepProfile.iosSummary,
+      visualAnalysis: deepProfile.visualAnalysis,
+      enhancedPreferences: deepProfile.enhancedPreferences,
+      combinedTraits: deepProfile.combinedTraits,
+      personalityDepth: deepProfile.personalityDepth,
+      compatibilitySignals: deepProfile.compatibilitySignals,
+    };
 
-  const user = users[userIndex];
-  
-  // Update user with photo analysis
-  user.photoAnalysis = {
-    iosSummary: deepProfile.iosSummary,
-    visualAnalysis: deepProfile.visualAnalysis,
-    enhancedPreferences: deepProfile.enhancedPreferences,
-    combinedTraits: deepProfile.combinedTraits,
-    personalityDepth: deepProfile.personalityDepth,
-    compatibilitySignals: deepProfile.compatibilitySignals,
-  };
+    // Update preferences if enhanced preferences are available
+    if (deepProfile.enhancedPreferences) {
+      user.preferences = deepProfile.enhancedPreferences;
+    }
 
-  // Update preferences if enhanced preferences are available
-  if (deepProfile.enhancedPreferences) {
-    user.preferences = deepProfile.enhancedPreferences;
-  }
+    // Dress the character like the photo, keeping the user's own choices
+    refreshAppearance(user);
+  });
 
-  await writeDatabase(users);
+  if (!user) {
+    throw new Error(`User with id ${userId} not found`);
+  }
   return user;
 }
-
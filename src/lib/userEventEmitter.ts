@@ -1,10 +1,18 @@
 import { EventEmitter } from 'events';
-import { UserProfile } from './userDatabase';
+import type { UserProfile } from './userDatabase';
 
 class UserEventEmitter extends EventEmitter {
   emitUserCreated(user: UserProfile) {
     this.emit('userCreated', user);
   }
+
+  emitUserUpdated(user: UserProfile) {
+    this.emit('userUpdated', user);
+  }
+
+  emitUserDeleted(userId: string) {
+    this.emit('userDeleted', userId);
+  }
 }
 
 export const userEventEmitter = new UserEventEmitter();